@@ -1,6 +1,7 @@
 import fs from 'fs';
 import path from 'path';
 import dotenv from 'dotenv';
+import { SPOTIFY_PROVIDER_NAMES, SpotifyProviderName } from '../services/spotifyProvider';
 
 const candidatePaths = [
   path.resolve(process.cwd(), '.env'),
@@ -70,6 +71,19 @@ const deriveSocketUrl = () => {
 
 const socketUrl = deriveSocketUrl();
 
+const parseNumberEnv = (value: string | undefined, fallback: number) => {
+  const parsed = Number.parseFloat(value?.trim() ?? '');
+  return Number.isFinite(parsed) ? parsed : fallback;
+};
+
+const spotifyProvider = (process.env.SPOTIFY_PROVIDER?.trim().toLowerCase() || 'spotify') as SpotifyProviderName;
+
+if (!SPOTIFY_PROVIDER_NAMES.includes(spotifyProvider)) {
+  throw new Error(`SPOTIFY_PROVIDER must be one of ${SPOTIFY_PROVIDER_NAMES.join(', ')}`);
+}
+
+const port = parseInt(process.env.PORT || '5000');
+
 const logtoEndpoint = process.env.LOGTO_ENDPOINT?.replace(/\/+$/, '');
 const logtoAppId = process.env.LOGTO_APP_ID?.trim();
 const logtoApiResource = process.env.LOGTO_API_RESOURCE?.trim();
@@ -82,12 +96,15 @@ if (!logtoEndpoint || !logtoAppId || !logtoApiResource) {
 
 export const config = {
   spotify: {
+    // 'simulated' swaps in an offline player with a fixture catalog
+    provider: spotifyProvider,
     clientId: process.env.SPOTIFY_CLIENT_ID!,
     clientSecret: process.env.SPOTIFY_CLIENT_SECRET!,
-    redirectUri: process.env.SPOTIFY_REDIRECT_URI!,
+    redirectUri: process.env.SPOTIFY_REDIRECT_URI
+      || (spotifyProvider === 'simulated' ? `http://localhost:${port}/api/auth/callback` : ''),
   },
   server: {
-    port: parseInt(process.env.PORT || '5000'),
+    port,
     nodeEnv: process.env.NODE_ENV || 'development',
     frontendUrl: primaryFrontendUrl,
     frontendOrigins: uniqueFrontendOrigins,
@@ -112,6 +129,43 @@ export const config = {
     managementResource:
       process.env.LOGTO_MANAGEMENT_RESOURCE?.trim() || 'https://default.logto.app/api',
   },
+  integrations: {
+    // Shared secret for server-to-server callers (CRM, metrics exporters).
+    // Sent as the `X-Integration-Key` header. Empty disables key access.
+    apiKey: process.env.INTEGRATION_API_KEY?.trim() || '',
+  },
+  leaderboard: {
+    // Points awarded per unit of each metric when ranking the leaderboard
+    points: {
+      dials: parseNumberEnv(process.env.LEADERBOARD_POINTS_PER_DIAL, 1),
+      appOuts: parseNumberEnv(process.env.LEADERBOARD_POINTS_PER_APP_OUT, 10),
+      underwriting: parseNumberEnv(process.env.LEADERBOARD_POINTS_PER_UNDERWRITING, 25),
+    },
+  },
+  celebrations: {
+    // Minimum time between two anthems for the same user
+    cooldownMinutes: parseNumberEnv(process.env.CELEBRATION_COOLDOWN_MINUTES, 30),
+  },
+  playback: {
+    // Stop polling Spotify for a session after this long with nothing playing
+    // and nobody connected; 0 keeps monitors running until the server stops
+    monitorIdleMinutes: parseNumberEnv(process.env.PLAYBACK_MONITOR_IDLE_MINUTES, 30),
+  },
+  scheduledPlayback: {
+    // Defaults for new schedules; hosts can change them per schedule
+    maxRetries: parseNumberEnv(process.env.SCHEDULED_PLAYBACK_MAX_RETRIES, 3),
+    retryBackoffSeconds: parseNumberEnv(process.env.SCHEDULED_PLAYBACK_RETRY_BACKOFF_SECONDS, 60),
+  },
+  fallback: {
+    // A fallback track won't be auto-filled again until this long after it played
+    noRepeatMinutes: parseNumberEnv(process.env.FALLBACK_NO_REPEAT_MINUTES, 240),
+    // Auto-filled tracks are dropped once their vote score falls to this
+    voteAwayScore: parseNumberEnv(process.env.FALLBACK_VOTE_AWAY_SCORE, -2),
+  },
+  votes: {
+    // How often vote scores are recounted from the votes cast (0 = never)
+    reconcileIntervalSeconds: parseNumberEnv(process.env.VOTE_RECONCILE_INTERVAL_SECONDS, 300),
+  },
   frontend: {
     apiBaseUrl,
     socketUrl,
@@ -123,9 +177,10 @@ export const config = {
 
 // Validate required environment variables
 const requiredEnvVars = [
-  'SPOTIFY_CLIENT_ID',
-  'SPOTIFY_CLIENT_SECRET',
-  'SPOTIFY_REDIRECT_URI',
+  // The simulated provider never talks to Spotify
+  ...(spotifyProvider === 'spotify'
+    ? ['SPOTIFY_CLIENT_ID', 'SPOTIFY_CLIENT_SECRET', 'SPOTIFY_REDIRECT_URI']
+    : []),
   'SESSION_SECRET',
   'LOGTO_ENDPOINT',
   'LOGTO_APP_ID',
@@ -0,0 +1,124 @@
+import { Request, Response } from 'express';
+import { Server as SocketIOServer } from 'socket.io';
+import { celebrationService, CelebrationError } from '../services/celebration.service';
+import { sessionService } from '../services/session.service';
+import { spotifyService } from '../services/spotify.service';
+import { queueService } from '../services/queue.service';
+import { playbackService } from '../services/playback.service';
+import { broadcastCelebration, broadcastQueueUpdate } from '../sockets/handlers';
+
+class CelebrationController {
+  getMyAnthem = async (req: Request, res: Response) => {
+    try {
+      const authUserId = req.auth?.userId;
+
+      if (!authUserId) {
+        return res.status(401).json({ error: 'Sign in to manage your anthem' });
+      }
+
+      const anthem = await celebrationService.getAnthem(authUserId);
+      res.json({ anthem });
+    } catch (error) {
+      console.error('Get anthem error:', error);
+      res.status(500).json({ error: 'Failed to load anthem' });
+    }
+  };
+
+  /** Look the track up with the session host's Spotify token, like search does */
+  setMyAnthem = async (req: Request, res: Response) => {
+    try {
+      const { id: sessionId } = req.params;
+      const { spotifyTrackId } = req.body ?? {};
+      const authUserId = req.auth?.userId;
+
+      if (!authUserId) {
+        return res.status(401).json({ error: 'Sign in to manage your anthem' });
+      }
+
+      if (!spotifyTrackId || typeof spotifyTrackId !== 'string') {
+        return res.status(400).json({ error: 'Track ID is required' });
+      }
+
+      const session = await sessionService.getSession(sessionId);
+
+      if (!session || !session.isActive) {
+        return res.status(404).json({ error: 'Session not found' });
+      }
+
+      const isHost = req.session.userId === session.hostId;
+      const guestData = req.session.guestSessions?.[sessionId];
+
+      if (!isHost && !guestData) {
+        return res.status(401).json({ error: 'Join the session before choosing an anthem' });
+      }
+
+      const accessToken = await spotifyService.ensureValidToken(session.hostId);
+      const track = await spotifyService.getTrack(spotifyTrackId, accessToken);
+      const anthem = await celebrationService.setAnthem(authUserId, track);
+
+      res.json({ anthem });
+    } catch (error) {
+      console.error('Set anthem error:', error);
+      res.status(500).json({ error: 'Failed to save anthem' });
+    }
+  };
+
+  removeMyAnthem = async (req: Request, res: Response) => {
+    try {
+      const authUserId = req.auth?.userId;
+
+      if (!authUserId) {
+        return res.status(401).json({ error: 'Sign in to manage your anthem' });
+      }
+
+      await celebrationService.removeAnthem(authUserId);
+      res.json({ anthem: null });
+    } catch (error) {
+      console.error('Remove anthem error:', error);
+      res.status(500).json({ error: 'Failed to remove anthem' });
+    }
+  };
+
+  /**
+   * Webhook for the CRM: `{ userId, message? }` where `userId` is the
+   * rep's Logto user ID.
+   */
+  celebrate = async (req: Request, res: Response) => {
+    try {
+      const { id: sessionId } = req.params;
+      const { userId, message } = req.body ?? {};
+
+      if (!userId || typeof userId !== 'string') {
+        return res.status(400).json({ error: 'userId is required' });
+      }
+
+      const { session, queueItem, event } = await celebrationService.celebrate(
+        sessionId,
+        userId,
+        typeof message === 'string' ? message : null,
+      );
+
+      const io = req.app.get('io') as SocketIOServer | undefined;
+      const state = await queueService.getQueueWithNext(sessionId);
+
+      if (io) {
+        broadcastQueueUpdate(io, sessionId, state);
+        broadcastCelebration(io, sessionId, event);
+      }
+
+      playbackService.ensureMonitor(sessionId, session.hostId);
+      playbackService.requestImmediateSync(sessionId);
+
+      res.json({ queueItem, celebration: event });
+    } catch (error: any) {
+      if (error instanceof CelebrationError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+
+      console.error('Celebrate error:', error);
+      res.status(500).json({ error: 'Failed to queue anthem' });
+    }
+  };
+}
+
+export const celebrationController = new CelebrationController();
@@ -0,0 +1,146 @@
+import { Request, Response } from 'express';
+import { creditService, CreditError, hasElevatedRole } from '../services/credit.service';
+import { creditRulesService, CreditRuleInput } from '../services/creditRules.service';
+import { sessionService } from '../services/session.service';
+
+const pickRuleInput = (body: any): CreditRuleInput => ({
+  name: body?.name,
+  metric: body?.metric,
+  metricStep: body?.metricStep,
+  creditsPerStep: body?.creditsPerStep,
+  dailyCap: body?.dailyCap,
+  isActive: body?.isActive,
+});
+
+const parseHistoryQuery = (query: Request['query']) => {
+  const limit = query.limit === undefined ? undefined : Number(query.limit);
+  const before = typeof query.before === 'string' ? new Date(query.before) : undefined;
+
+  if (limit !== undefined && (!Number.isInteger(limit) || limit <= 0)) {
+    return { error: 'limit must be a positive whole number' } as const;
+  }
+
+  if (before && Number.isNaN(before.getTime())) {
+    return { error: 'before must be an ISO timestamp' } as const;
+  }
+
+  return { limit, before };
+};
+
+class CreditController {
+  getMyHistory = async (req: Request, res: Response) => {
+    try {
+      const authUserId = req.auth?.userId;
+
+      if (!authUserId) {
+        return res.status(401).json({ error: 'Sign in to view credit history' });
+      }
+
+      const options = parseHistoryQuery(req.query);
+      if ('error' in options) {
+        return res.status(400).json({ error: options.error });
+      }
+
+      const transactions = await creditService.getHistory(authUserId, options);
+      res.json(transactions);
+    } catch (error) {
+      console.error('Failed to load credit history:', error);
+      res.status(500).json({ error: 'Failed to load credit history' });
+    }
+  };
+
+  /** Managers can view anyone; hosts only users who joined one of their sessions */
+  getUserHistory = async (req: Request, res: Response) => {
+    try {
+      const { userId } = req.params;
+      const hostId = req.session.userId;
+      const canView = hasElevatedRole(req.auth?.roles)
+        || (hostId ? await sessionService.isGuestOfHost(hostId, userId) : false);
+
+      if (!canView) {
+        return res.status(403).json({ error: 'Not authorized to view this user\'s credits' });
+      }
+
+      const options = parseHistoryQuery(req.query);
+      if ('error' in options) {
+        return res.status(400).json({ error: options.error });
+      }
+
+      const transactions = await creditService.getHistory(userId, options);
+      res.json(transactions);
+    } catch (error) {
+      console.error('Failed to load user credit history:', error);
+      res.status(500).json({ error: 'Failed to load credit history' });
+    }
+  };
+
+  getMyGrants = async (req: Request, res: Response) => {
+    try {
+      const authUserId = req.auth?.userId;
+
+      if (!authUserId) {
+        return res.status(401).json({ error: 'Sign in to view earned credits' });
+      }
+
+      const grants = await creditRulesService.getGrantsForUser(authUserId);
+      res.json(grants);
+    } catch (error) {
+      console.error('Failed to load credit grants:', error);
+      res.status(500).json({ error: 'Failed to load earned credits' });
+    }
+  };
+
+  listRules = async (_req: Request, res: Response) => {
+    try {
+      const rules = await creditRulesService.listRules();
+      res.json(rules);
+    } catch (error) {
+      console.error('Failed to load credit rules:', error);
+      res.status(500).json({ error: 'Failed to load credit rules' });
+    }
+  };
+
+  createRule = async (req: Request, res: Response) => {
+    try {
+      const rule = await creditRulesService.createRule(req.auth!.userId, pickRuleInput(req.body));
+      res.status(201).json(rule);
+    } catch (error) {
+      if (error instanceof CreditError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+
+      console.error('Failed to create credit rule:', error);
+      res.status(500).json({ error: 'Failed to create credit rule' });
+    }
+  };
+
+  updateRule = async (req: Request, res: Response) => {
+    try {
+      const rule = await creditRulesService.updateRule(req.params.ruleId, pickRuleInput(req.body));
+      res.json(rule);
+    } catch (error) {
+      if (error instanceof CreditError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+
+      console.error('Failed to update credit rule:', error);
+      res.status(500).json({ error: 'Failed to update credit rule' });
+    }
+  };
+
+  deleteRule = async (req: Request, res: Response) => {
+    try {
+      await creditRulesService.deleteRule(req.params.ruleId);
+      res.json({ message: 'Credit rule deleted' });
+    } catch (error) {
+      if (error instanceof CreditError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+
+      console.error('Failed to delete credit rule:', error);
+      res.status(500).json({ error: 'Failed to delete credit rule' });
+    }
+  };
+}
+
+export const creditController = new CreditController();
@@ -0,0 +1,119 @@
+import { Request, Response } from 'express';
+import { sessionService } from '../services/session.service';
+import { fallbackService } from '../services/fallback.service';
+import { playbackService } from '../services/playback.service';
+
+class FallbackController {
+  private async requireHost(req: Request, sessionId: string) {
+    const session = await sessionService.getSession(sessionId);
+
+    if (!session || !session.isActive) {
+      return { error: 'Session not found or inactive' } as const;
+    }
+
+    if (req.session.userId !== session.hostId) {
+      return { error: 'Only the host can manage the fallback source', status: 403 } as const;
+    }
+
+    return { session } as const;
+  }
+
+  get = async (req: Request, res: Response) => {
+    try {
+      const { id: sessionId } = req.params;
+      const result = await this.requireHost(req, sessionId);
+
+      if ('error' in result) {
+        return res.status(result.status ?? 404).json({ error: result.error });
+      }
+
+      res.json(await fallbackService.getSource(sessionId));
+    } catch (error) {
+      console.error('Failed to load fallback source:', error);
+      res.status(500).json({ error: 'Failed to load fallback source' });
+    }
+  };
+
+  update = async (req: Request, res: Response) => {
+    try {
+      const { id: sessionId } = req.params;
+      const { enabled, playlistLink } = req.body ?? {};
+      const result = await this.requireHost(req, sessionId);
+
+      if ('error' in result) {
+        return res.status(result.status ?? 404).json({ error: result.error });
+      }
+
+      if (enabled !== undefined && typeof enabled !== 'boolean') {
+        return res.status(400).json({ error: 'enabled must be true or false' });
+      }
+
+      if (playlistLink !== undefined && playlistLink !== null && typeof playlistLink !== 'string') {
+        return res.status(400).json({ error: 'playlistLink must be a link or null' });
+      }
+
+      const { session } = result;
+      const source = await fallbackService.updateSource(session, {
+        enabled,
+        playlistLink: typeof playlistLink === 'string' && playlistLink.trim() === '' ? null : playlistLink,
+      });
+
+      if (source.enabled) {
+        // Fill straight away if the queue is already empty
+        playbackService.ensureMonitor(sessionId, session.hostId);
+        playbackService.requestImmediateSync(sessionId);
+      }
+
+      res.json(source);
+    } catch (error: any) {
+      const statusCode = error?.statusCode ?? error?.body?.error?.status;
+      if (statusCode === 403 || statusCode === 404) {
+        return res.status(404).json({ error: 'Spotify could not find that playlist or album' });
+      }
+
+      console.error('Failed to update fallback source:', error);
+      res.status(400).json({ error: error.message || 'Failed to update fallback source' });
+    }
+  };
+
+  addTrack = async (req: Request, res: Response) => {
+    try {
+      const { id: sessionId } = req.params;
+      const { spotifyTrackId } = req.body ?? {};
+      const result = await this.requireHost(req, sessionId);
+
+      if ('error' in result) {
+        return res.status(result.status ?? 404).json({ error: result.error });
+      }
+
+      if (!spotifyTrackId || typeof spotifyTrackId !== 'string') {
+        return res.status(400).json({ error: 'Track ID is required' });
+      }
+
+      const track = await fallbackService.addTrack(result.session, spotifyTrackId);
+      res.status(201).json({ track });
+    } catch (error: any) {
+      console.error('Failed to add fallback track:', error);
+      res.status(400).json({ error: error.message || 'Failed to add track' });
+    }
+  };
+
+  removeTrack = async (req: Request, res: Response) => {
+    try {
+      const { id: sessionId, trackId } = req.params;
+      const result = await this.requireHost(req, sessionId);
+
+      if ('error' in result) {
+        return res.status(result.status ?? 404).json({ error: result.error });
+      }
+
+      await fallbackService.removeTrack(sessionId, trackId);
+      res.json({ message: 'Track removed' });
+    } catch (error: any) {
+      const message = error?.message ?? 'Failed to remove track';
+      res.status(message.includes('not found') ? 404 : 500).json({ error: message });
+    }
+  };
+}
+
+export const fallbackController = new FallbackController();
@@ -0,0 +1,177 @@
+import { Request, Response } from 'express';
+import { parseCsv } from '../lib/csv';
+import {
+  leaderboardService,
+  LEADERBOARD_PERIODS,
+  LeaderboardPeriod,
+  MetricIngestMode,
+  MetricInput,
+} from '../services/leaderboard.service';
+import { sessionService } from '../services/session.service';
+import { creditRulesService } from '../services/creditRules.service';
+
+const MAX_ROWS_PER_BATCH = 1000;
+
+/** Accepted spellings for each column, compared case-insensitively */
+const FIELD_ALIASES: Record<keyof MetricInput, string[]> = {
+  userId: ['userid', 'user_id', 'logtouserid'],
+  fullName: ['fullname', 'full_name', 'name'],
+  date: ['date', 'day'],
+  dials: ['dials'],
+  appOuts: ['appouts', 'app_outs'],
+  underwriting: ['underwriting', 'under_writing'],
+};
+
+const pickField = (raw: Record<string, unknown>, field: keyof MetricInput) => {
+  const aliases = FIELD_ALIASES[field];
+  const key = Object.keys(raw).find((candidate) => aliases.includes(candidate.toLowerCase()));
+  return key ? raw[key] : undefined;
+};
+
+const parseCount = (value: unknown, field: string, rowNumber: number) => {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+
+  const numeric = Number(value);
+  if (!Number.isInteger(numeric) || numeric < 0) {
+    throw new Error(`Row ${rowNumber}: ${field} must be a non-negative whole number`);
+  }
+
+  return numeric;
+};
+
+const parseMetricRow = (raw: unknown, rowNumber: number): MetricInput => {
+  if (!raw || typeof raw !== 'object') {
+    throw new Error(`Row ${rowNumber}: invalid metric payload`);
+  }
+
+  const record = raw as Record<string, unknown>;
+  const userId = pickField(record, 'userId');
+
+  if (typeof userId !== 'string' || userId.trim().length === 0) {
+    throw new Error(`Row ${rowNumber}: userId is required`);
+  }
+
+  const rawDate = pickField(record, 'date');
+  let date = new Date().toISOString().slice(0, 10);
+
+  if (rawDate !== undefined && rawDate !== '') {
+    if (typeof rawDate !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(rawDate)
+      || Number.isNaN(new Date(`${rawDate}T00:00:00Z`).getTime())) {
+      throw new Error(`Row ${rowNumber}: date must be provided in YYYY-MM-DD format`);
+    }
+    date = rawDate;
+  }
+
+  const fullName = pickField(record, 'fullName');
+
+  return {
+    userId: userId.trim(),
+    fullName: typeof fullName === 'string' ? fullName : null,
+    date,
+    dials: parseCount(pickField(record, 'dials'), 'dials', rowNumber),
+    appOuts: parseCount(pickField(record, 'appOuts'), 'appOuts', rowNumber),
+    underwriting: parseCount(pickField(record, 'underwriting'), 'underwriting', rowNumber),
+  };
+};
+
+const parsePeriod = (value: unknown): LeaderboardPeriod | null => {
+  if (value === undefined) {
+    return 'day';
+  }
+
+  return typeof value === 'string' && (LEADERBOARD_PERIODS as string[]).includes(value)
+    ? value as LeaderboardPeriod
+    : null;
+};
+
+class LeaderboardController {
+  /**
+   * Accepts either a JSON body (`{ mode?, rows: [...] }` or a bare array) or
+   * a `text/csv` body with a header row. Every row is validated before any
+   * are written so a bad export doesn't leave the day half-applied.
+   */
+  ingest = async (req: Request, res: Response) => {
+    try {
+      let rawRows: unknown[];
+
+      if (typeof req.body === 'string') {
+        rawRows = parseCsv(req.body);
+      } else if (Array.isArray(req.body)) {
+        rawRows = req.body;
+      } else if (Array.isArray(req.body?.rows)) {
+        rawRows = req.body.rows;
+      } else {
+        return res.status(400).json({ error: 'Provide metric rows as a JSON array, { rows: [...] } or a CSV body' });
+      }
+
+      if (rawRows.length === 0) {
+        return res.status(400).json({ error: 'At least one metric row is required' });
+      }
+
+      if (rawRows.length > MAX_ROWS_PER_BATCH) {
+        return res.status(400).json({ error: `A maximum of ${MAX_ROWS_PER_BATCH} rows can be ingested at once` });
+      }
+
+      const requestedMode = req.query.mode ?? req.body?.mode ?? 'replace';
+      if (requestedMode !== 'replace' && requestedMode !== 'increment') {
+        return res.status(400).json({ error: 'mode must be either "replace" or "increment"' });
+      }
+
+      const rows = rawRows.map((row, index) => parseMetricRow(row, index + 1));
+      const applied = await leaderboardService.ingest(rows, requestedMode as MetricIngestMode);
+      const grants = await creditRulesService.applyMetricUpdates(applied);
+
+      res.json({ ingested: applied.length, mode: requestedMode, rows: applied, grants });
+    } catch (error: any) {
+      const message = error?.message ?? 'Failed to ingest metrics';
+      const isValidationError = message.startsWith('Row ') || message.startsWith('CSV ');
+
+      console.error('Failed to ingest leaderboard metrics:', error);
+      res.status(isValidationError ? 400 : 500)
+        .json({ error: isValidationError ? message : 'Failed to ingest metrics' });
+    }
+  };
+
+  getGlobal = async (req: Request, res: Response) => {
+    try {
+      const period = parsePeriod(req.query.period);
+
+      if (!period) {
+        return res.status(400).json({ error: `period must be one of ${LEADERBOARD_PERIODS.join(', ')}` });
+      }
+
+      const entries = await leaderboardService.getLeaderboard(period);
+      res.json(entries);
+    } catch (error) {
+      console.error('Failed to load leaderboard:', error);
+      res.status(500).json({ error: 'Failed to load leaderboard' });
+    }
+  };
+
+  getForSession = async (req: Request, res: Response) => {
+    try {
+      const { id: sessionId } = req.params;
+      const period = parsePeriod(req.query.period);
+
+      if (!period) {
+        return res.status(400).json({ error: `period must be one of ${LEADERBOARD_PERIODS.join(', ')}` });
+      }
+
+      const session = await sessionService.getSession(sessionId);
+
+      if (!session) {
+        return res.status(404).json({ error: 'Session not found' });
+      }
+
+      const entries = await leaderboardService.getSessionLeaderboard(sessionId, period);
+      res.json(entries);
+    } catch (error) {
+      console.error('Failed to load session leaderboard:', error);
+      res.status(500).json({ error: 'Failed to load leaderboard' });
+    }
+  };
+}
+
+export const leaderboardController = new LeaderboardController();
@@ -0,0 +1,200 @@
+import { Request, Response } from 'express';
+import { Server as SocketIOServer } from 'socket.io';
+import { sessionService } from '../services/session.service';
+import {
+  GuestBanScope,
+  GuestRestriction,
+  guestModerationService,
+  MAX_MUTE_MINUTES,
+  restrictionMessage,
+} from '../services/guestModeration.service';
+import { dropGuestSockets, notifyGuestModerated } from '../sockets/handlers';
+
+const MAX_BAN_REASON_LENGTH = 200;
+
+const isBanScope = (value: unknown): value is GuestBanScope =>
+  value === 'session' || value === 'host';
+
+class ModerationController {
+  private async requireHost(req: Request, sessionId: string) {
+    const session = await sessionService.getSession(sessionId);
+
+    if (!session) {
+      return { error: 'Session not found' } as const;
+    }
+
+    if (req.session.userId !== session.hostId) {
+      return { error: 'Only the host can moderate guests', status: 403 } as const;
+    }
+
+    return { session } as const;
+  }
+
+  /** Tell the guest straight away; kicked and banned guests also stop getting session updates */
+  private async notifyGuest(req: Request, sessionId: string, guestId: string, restriction: GuestRestriction | null) {
+    const io = req.app.get('io') as SocketIOServer | undefined;
+
+    if (!io) {
+      return;
+    }
+
+    notifyGuestModerated(io, sessionId, guestId, {
+      restriction,
+      message: restriction ? restrictionMessage(restriction) : null,
+    });
+
+    if (restriction && restriction.state !== 'muted') {
+      await dropGuestSockets(io, sessionId, guestId);
+    }
+  }
+
+  private sendError(res: Response, error: any, fallback: string) {
+    const message = error?.message ?? fallback;
+    const status = message.includes('not found') ? 404
+      : message.includes('not signed in') ? 400
+      : 500;
+
+    if (status === 500) {
+      console.error(`${fallback}:`, error);
+    }
+
+    res.status(status).json({ error: message });
+  }
+
+  list = async (req: Request, res: Response) => {
+    try {
+      const { id: sessionId } = req.params;
+      const result = await this.requireHost(req, sessionId);
+
+      if ('error' in result) {
+        return res.status(result.status ?? 404).json({ error: result.error });
+      }
+
+      const [guests, bans] = await Promise.all([
+        guestModerationService.listGuests(sessionId),
+        guestModerationService.listBans(sessionId, result.session.hostId),
+      ]);
+
+      res.json({
+        guests,
+        bans: bans.map((ban) => ({
+          id: ban.id,
+          guestName: ban.guestName,
+          scope: ban.sessionId ? 'session' : 'host',
+          reason: ban.reason,
+          createdAt: ban.createdAt,
+        })),
+      });
+    } catch (error) {
+      this.sendError(res, error, 'Failed to load guests');
+    }
+  };
+
+  kick = async (req: Request, res: Response) => {
+    try {
+      const { id: sessionId, guestId } = req.params;
+      const result = await this.requireHost(req, sessionId);
+
+      if ('error' in result) {
+        return res.status(result.status ?? 404).json({ error: result.error });
+      }
+
+      await guestModerationService.kickGuest(sessionId, guestId);
+      await this.notifyGuest(req, sessionId, guestId, { state: 'kicked' });
+
+      res.json({ message: 'Guest removed' });
+    } catch (error) {
+      this.sendError(res, error, 'Failed to remove guest');
+    }
+  };
+
+  mute = async (req: Request, res: Response) => {
+    try {
+      const { id: sessionId, guestId } = req.params;
+      const { minutes } = req.body ?? {};
+      const result = await this.requireHost(req, sessionId);
+
+      if ('error' in result) {
+        return res.status(result.status ?? 404).json({ error: result.error });
+      }
+
+      if (typeof minutes !== 'number' || !Number.isInteger(minutes) || minutes < 1 || minutes > MAX_MUTE_MINUTES) {
+        return res.status(400).json({ error: `minutes must be a whole number from 1 to ${MAX_MUTE_MINUTES}` });
+      }
+
+      const guest = await guestModerationService.muteGuest(sessionId, guestId, minutes);
+      await this.notifyGuest(req, sessionId, guestId, { state: 'muted', until: guest.mutedUntil! });
+
+      res.json({ mutedUntil: guest.mutedUntil });
+    } catch (error) {
+      this.sendError(res, error, 'Failed to mute guest');
+    }
+  };
+
+  unmute = async (req: Request, res: Response) => {
+    try {
+      const { id: sessionId, guestId } = req.params;
+      const result = await this.requireHost(req, sessionId);
+
+      if ('error' in result) {
+        return res.status(result.status ?? 404).json({ error: result.error });
+      }
+
+      await guestModerationService.unmuteGuest(sessionId, guestId);
+      await this.notifyGuest(req, sessionId, guestId, null);
+
+      res.json({ message: 'Guest unmuted' });
+    } catch (error) {
+      this.sendError(res, error, 'Failed to unmute guest');
+    }
+  };
+
+  ban = async (req: Request, res: Response) => {
+    try {
+      const { id: sessionId, guestId } = req.params;
+      const { scope = 'session', reason } = req.body ?? {};
+      const result = await this.requireHost(req, sessionId);
+
+      if ('error' in result) {
+        return res.status(result.status ?? 404).json({ error: result.error });
+      }
+
+      if (!isBanScope(scope)) {
+        return res.status(400).json({ error: 'scope must be "session" or "host"' });
+      }
+
+      if (reason !== undefined && reason !== null && typeof reason !== 'string') {
+        return res.status(400).json({ error: 'reason must be text' });
+      }
+
+      const trimmedReason = typeof reason === 'string' ? reason.trim().slice(0, MAX_BAN_REASON_LENGTH) : '';
+      const ban = await guestModerationService.banGuest(result.session, guestId, {
+        scope,
+        reason: trimmedReason || null,
+      });
+      await this.notifyGuest(req, sessionId, guestId, { state: 'banned', scope, reason: ban.reason });
+
+      res.status(201).json({ ban });
+    } catch (error) {
+      this.sendError(res, error, 'Failed to ban guest');
+    }
+  };
+
+  liftBan = async (req: Request, res: Response) => {
+    try {
+      const { id: sessionId, banId } = req.params;
+      const result = await this.requireHost(req, sessionId);
+
+      if ('error' in result) {
+        return res.status(result.status ?? 404).json({ error: result.error });
+      }
+
+      await guestModerationService.liftBan(result.session.hostId, banId);
+      res.json({ message: 'Ban lifted' });
+    } catch (error) {
+      this.sendError(res, error, 'Failed to lift ban');
+    }
+  };
+}
+
+export const moderationController = new ModerationController();
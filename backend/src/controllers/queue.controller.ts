@@ -1,14 +1,44 @@
 import { Request, Response } from 'express';
-import { queueService } from '../services/queue.service';
+import { queueService, QueueMoveTarget, TrackRejectedError, VOTE_CONFLICT_MESSAGE } from '../services/queue.service';
 import { spotifyService } from '../services/spotify.service';
 import { sessionService } from '../services/session.service';
 import { playbackService } from '../services/playback.service';
-import { broadcastQueueUpdate } from '../sockets/handlers';
+import { collectionImportService } from '../services/collectionImport.service';
+import { config } from '../config';
+import { broadcastQueueUpdate, broadcastVoteUpdate, notifyTrackBuried, notifyTrackVetoed } from '../sockets/handlers';
+import { parseVoteWeights, voteWeightForRoles } from '../lib/voteWeights';
+import { requesterRefund } from '../lib/queueRefund';
 import { Server as SocketIOServer } from 'socket.io';
-import { creditService, CreditError, CreditState, GUEST_TRACK_COST, VOTE_REACTION_COST } from '../services/credit.service';
+import {
+  creditService,
+  CreditError,
+  CreditSpend,
+  CreditSplit,
+  CreditState,
+  GUEST_TRACK_COST,
+  hasElevatedRole,
+  MIN_BOOST_AMOUNT,
+  VOTE_REACTION_COST,
+} from '../services/credit.service';
+import { boostService } from '../services/boost.service';
+import { GuestRestriction, guestModerationService, restrictionMessage } from '../services/guestModeration.service';
+
+const MAX_VETO_REASON_LENGTH = 200;
+
+type SessionActorError = {
+  error: string;
+  /** Set when the host has muted, kicked or banned the guest */
+  restriction?: GuestRestriction;
+};
+
+type SessionActor = {
+  session: NonNullable<Awaited<ReturnType<typeof sessionService.getSession>>>;
+  actor: { userId?: string; guestId?: string };
+  role: 'host' | 'guest';
+};
 
 export class QueueController {
-  private resolveSessionActor = async (req: Request, sessionId: string) => {
+  private resolveSessionActor = async (req: Request, sessionId: string): Promise<SessionActorError | SessionActor> => {
     const session = await sessionService.getSession(sessionId);
 
     if (!session || !session.isActive) {
@@ -39,6 +69,16 @@ export class QueueController {
         return { error: 'Join the session before interacting with the queue' } as const;
       }
 
+      const restriction = await guestModerationService.getRestriction(guest, session.hostId);
+
+      if (restriction) {
+        // Kicked and banned guests lose their place; muted ones keep listening
+        if (restriction.state !== 'muted' && req.session.guestSessions) {
+          delete req.session.guestSessions[sessionId];
+        }
+        return { error: restrictionMessage(restriction), restriction };
+      }
+
       guestId = guest.id;
     }
 
@@ -53,8 +93,8 @@ export class QueueController {
     return {
       session,
       actor,
-      role: isHost ? 'host' as const : 'guest' as const,
-    } as const;
+      role: isHost ? 'host' : 'guest',
+    };
   };
 
   private async emitQueueState(req: Request, sessionId: string) {
@@ -68,6 +108,75 @@ export class QueueController {
     return state;
   }
 
+  /**
+   * Pay back the requester's track cost (unless told not to) and any boosts
+   * once an item leaves the queue early. Returns the caller's new balance if
+   * they were paid.
+   */
+  private async refundRemovedItem(
+    req: Request,
+    queueItem: {
+      id: string;
+      sessionId: string;
+      trackName: string;
+      addedByGuestId: string | null;
+      creditsSpent: number;
+      bonusCreditsSpent: number;
+      addedByGuest?: { clerkUserId: string | null } | null;
+    },
+    boosts: Awaited<ReturnType<typeof boostService.listBoosts>>,
+    options: { refundRequester?: boolean } = {}
+  ) {
+    let actorCredits: CreditState | null = null;
+    const removingAuthUserId = req.auth?.userId;
+    // clerkUserId is the DB column name (kept for migration compat); stores Logto user ID
+    let guestAuthUserId = queueItem.addedByGuest?.clerkUserId ?? null;
+
+    if (options.refundRequester === false) {
+      guestAuthUserId = null;
+    } else if (!guestAuthUserId && queueItem.addedByGuestId) {
+      try {
+        const guestRecord = await sessionService.getGuestById(queueItem.addedByGuestId);
+        guestAuthUserId = guestRecord?.clerkUserId ?? null;
+      } catch (lookupError) {
+        console.error('Failed to resolve guest user ID for refund:', lookupError);
+      }
+    }
+
+    const refund = requesterRefund(queueItem);
+
+    if (guestAuthUserId && refund.daily + refund.bonus > 0) {
+      try {
+        const credits = await creditService.refundCredits(guestAuthUserId, refund, {
+          reason: 'REFUND',
+          note: `"${queueItem.trackName}" removed from the queue`,
+          sessionId: queueItem.sessionId,
+          queueItemId: queueItem.id,
+          actorId: removingAuthUserId ?? req.session.userId ?? null,
+        });
+        if (credits && removingAuthUserId && removingAuthUserId === guestAuthUserId) {
+          actorCredits = credits;
+        }
+      } catch (refundError) {
+        console.error('Failed to refund credits after queue removal:', refundError);
+      }
+    }
+
+    if (boosts.length > 0) {
+      const balances = await boostService.refundBoosts(boosts, {
+        trackName: queueItem.trackName,
+        sessionId: queueItem.sessionId,
+        queueItemId: queueItem.id,
+        actorId: removingAuthUserId ?? req.session.userId ?? null,
+      });
+      if (removingAuthUserId && balances.has(removingAuthUserId)) {
+        actorCredits = balances.get(removingAuthUserId)!;
+      }
+    }
+
+    return actorCredits;
+  }
+
   add = async (req: Request, res: Response) => {
     try {
       const { sessionId } = req.params;
@@ -84,15 +193,15 @@ export class QueueController {
       const context = await this.resolveSessionActor(req, sessionId);
 
       if ('error' in context) {
-        return res.status(context.error === 'Session not found or inactive' ? 404 : 401)
-          .json({ error: context.error });
+        return res.status(context.restriction ? 403 : context.error === 'Session not found or inactive' ? 404 : 401)
+          .json({ error: context.error, restriction: context.restriction });
       }
 
       const { session, actor, role } = context;
       const allowExplicit = (session as any).allowExplicit ?? true;
       const queuedBefore = await queueService.countActiveQueueItems(sessionId);
       const authUserId = req.auth?.userId ?? null;
-      let guestCreditState: CreditState | null = null;
+      let guestCreditState: CreditSpend | null = null;
 
       playbackService.ensureMonitor(sessionId, session.hostId);
 
@@ -110,10 +219,16 @@ export class QueueController {
         }
 
         try {
-          guestCreditState = await creditService.spendCredits(authUserId, GUEST_TRACK_COST, req.auth?.roles);
+          guestCreditState = await creditService.spendCredits(authUserId, GUEST_TRACK_COST, {
+            reason: 'TRACK_ADD',
+            note: `Added "${track.name}"`,
+            sessionId,
+            actorId: authUserId,
+          }, req.auth?.roles);
           (req as any)._spentCreditsForQueue = {
-            amount: GUEST_TRACK_COST,
+            spent: guestCreditState.spent,
             authUserId,
+            sessionId,
           };
         } catch (error) {
           if (error instanceof CreditError) {
@@ -134,7 +249,12 @@ export class QueueController {
         track.album.images[0]?.url || null,
         track.duration_ms,
         artistIds,
-        actor
+        actor,
+        // Managers joining as guests aren't held to per-guest limits
+        {
+          exemptFromQuota: hasElevatedRole(req.auth?.roles),
+          spent: guestCreditState?.spent,
+        }
       );
 
       const state = await this.emitQueueState(req, sessionId);
@@ -163,6 +283,10 @@ export class QueueController {
         payload.credits = guestCreditState;
       }
 
+      if (actor.guestId && !hasElevatedRole(req.auth?.roles)) {
+        payload.quota = await queueService.getGuestQuota(sessionId, actor.guestId);
+      }
+
       if ((req as any)._spentCreditsForQueue) {
         delete (req as any)._spentCreditsForQueue;
       }
@@ -175,10 +299,14 @@ export class QueueController {
         return res.status(error.status).json({ error: error.message });
       }
 
-      const spentInfo = (req as any)._spentCreditsForQueue as { amount: number; authUserId: string } | undefined;
+      const spentInfo = (req as any)._spentCreditsForQueue as { spent: CreditSplit; authUserId: string; sessionId: string } | undefined;
       if (spentInfo) {
         try {
-          await creditService.addCredits(spentInfo.authUserId, spentInfo.amount);
+          await creditService.refundCredits(spentInfo.authUserId, spentInfo.spent, {
+            reason: 'REFUND',
+            note: 'Track could not be added to the queue',
+            sessionId: spentInfo.sessionId,
+          });
         } catch (refundError) {
           console.error('Failed to refund credits after queue error:', refundError);
         } finally {
@@ -186,19 +314,65 @@ export class QueueController {
         }
       }
 
-      const knownClientErrorMessages = new Set([
-        'Track already in queue',
-        'Track has been banned by the host',
-      ]);
-
-      const isArtistBanError = typeof error.message === 'string' && error.message.startsWith('Artist "') && error.message.endsWith('has been banned by the host');
-      const status = knownClientErrorMessages.has(error.message) || isArtistBanError ? 400 : 500;
+      const isQuotaError = typeof error.message === 'string' && error.message.includes('limit reached');
+      const status = isQuotaError ? 429
+        : error instanceof TrackRejectedError ? 400
+        : 500;
 
       res.status(status)
         .json({ error: error.message || 'Failed to add to queue' });
     }
   };
 
+  importCollection = async (req: Request, res: Response) => {
+    try {
+      const { sessionId } = req.params;
+      const { link } = req.body;
+
+      if (!link || typeof link !== 'string') {
+        return res.status(400).json({ error: 'A playlist or album link is required' });
+      }
+
+      const context = await this.resolveSessionActor(req, sessionId);
+
+      if ('error' in context) {
+        return res.status(context.restriction ? 403 : context.error === 'Session not found or inactive' ? 404 : 401)
+          .json({ error: context.error, restriction: context.restriction });
+      }
+
+      if (context.role !== 'host') {
+        return res.status(403).json({ error: 'Only the host can import playlists' });
+      }
+
+      playbackService.ensureMonitor(sessionId, context.session.hostId);
+
+      const result = await collectionImportService.addToQueue(context.session, link);
+      const state = await this.emitQueueState(req, sessionId);
+
+      if (result.added.length > 0) {
+        playbackService.requestImmediateSync(sessionId);
+      }
+
+      res.json({
+        ...result,
+        nextUp: state.nextUp,
+        queue: state.queue,
+      });
+    } catch (error: any) {
+      const statusCode = error?.statusCode ?? error?.body?.error?.status;
+      if (statusCode === 403 || statusCode === 404) {
+        return res.status(404).json({ error: 'Spotify could not find that playlist or album' });
+      }
+
+      if (error?.message?.includes('Enter a Spotify')) {
+        return res.status(400).json({ error: error.message });
+      }
+
+      console.error('Import collection error:', error);
+      res.status(500).json({ error: 'Failed to import playlist' });
+    }
+  };
+
   get = async (req: Request, res: Response) => {
     try {
       const { sessionId } = req.params;
@@ -227,37 +401,16 @@ export class QueueController {
       const context = await this.resolveSessionActor(req, queueItem.sessionId);
 
       if ('error' in context) {
-        return res.status(context.error === 'Session not found or inactive' ? 404 : 403)
-          .json({ error: context.error });
+        return res.status(context.restriction ? 403 : context.error === 'Session not found or inactive' ? 404 : 403)
+          .json({ error: context.error, restriction: context.restriction });
       }
 
-      await queueService.removeFromQueue(queueItemId, context.actor);
-
-      const queueItemData = queueItem as any;
-      let actorCredits: CreditState | null = null;
-      const removingAuthUserId = req.auth?.userId;
-      // clerkUserId is the DB column name (kept for migration compat); stores Logto user ID
-      let guestAuthUserId = queueItemData.addedByGuest?.clerkUserId ?? null;
+      // Boost rows go with the item, so read them first to pay them back
+      const boosts = await boostService.listBoosts(queueItemId);
 
-      if (!guestAuthUserId && queueItem.addedByGuestId) {
-        try {
-          const guestRecord = await sessionService.getGuestById(queueItem.addedByGuestId);
-          guestAuthUserId = guestRecord?.clerkUserId ?? null;
-        } catch (lookupError) {
-          console.error('Failed to resolve guest user ID for refund:', lookupError);
-        }
-      }
+      await queueService.removeFromQueue(queueItemId, context.actor);
 
-      if (guestAuthUserId) {
-        try {
-          const credits = await creditService.addCredits(guestAuthUserId, GUEST_TRACK_COST);
-          if (removingAuthUserId && removingAuthUserId === guestAuthUserId) {
-            actorCredits = credits;
-          }
-        } catch (refundError) {
-          console.error('Failed to refund credits after queue removal:', refundError);
-        }
-      }
+      const actorCredits = await this.refundRemovedItem(req, queueItem, boosts);
 
       if (queueItem.session.isActive) {
         playbackService.ensureMonitor(queueItem.sessionId, queueItem.session.hostId);
@@ -282,9 +435,236 @@ export class QueueController {
     }
   };
 
-  vote = async (req: Request, res: Response) => {
-    let spentVoteCredits: { amount: number; authUserId: string } | null = null;
+  /** Host or manager removes a track outright; `{ reason? }` is passed on to whoever requested it */
+  veto = async (req: Request, res: Response) => {
+    try {
+      const { queueItemId } = req.params;
+      const { reason } = req.body ?? {};
+
+      if (reason !== undefined && reason !== null && typeof reason !== 'string') {
+        return res.status(400).json({ error: 'reason must be text' });
+      }
+
+      const trimmedReason = typeof reason === 'string' ? reason.trim().slice(0, MAX_VETO_REASON_LENGTH) || null : null;
+      const queueItem = await queueService.getQueueItemWithSession(queueItemId);
+
+      if (!queueItem) {
+        return res.status(404).json({ error: 'Queue item not found' });
+      }
+
+      const context = await this.resolveSessionActor(req, queueItem.sessionId);
+
+      if ('error' in context) {
+        return res.status(context.restriction ? 403 : context.error === 'Session not found or inactive' ? 404 : 403)
+          .json({ error: context.error, restriction: context.restriction });
+      }
+
+      if (context.role !== 'host' && !hasElevatedRole(req.auth?.roles)) {
+        return res.status(403).json({ error: 'Only the host or a manager can veto tracks' });
+      }
+
+      const boosts = await boostService.listBoosts(queueItemId);
+      const vetoedBy = context.role === 'host' ? queueItem.session.hostId : req.auth!.userId;
+      const veto = await queueService.vetoQueueItem(queueItemId, vetoedBy, trimmedReason);
+      const actorCredits = await this.refundRemovedItem(req, queueItem, boosts);
+
+      const io = req.app.get('io') as SocketIOServer | undefined;
+      if (io && queueItem.addedByGuestId) {
+        notifyTrackVetoed(io, queueItem.sessionId, queueItem.addedByGuestId, {
+          queueItemId,
+          trackName: queueItem.trackName,
+          reason: veto.reason,
+        });
+      }
+
+      const state = await this.emitQueueState(req, queueItem.sessionId);
+      playbackService.requestImmediateSync(queueItem.sessionId);
+
+      const payload: Record<string, unknown> = {
+        veto,
+        nextUp: state.nextUp,
+        queue: state.queue,
+      };
+
+      if (actorCredits) {
+        payload.credits = actorCredits;
+      }
+
+      res.json(payload);
+    } catch (error: any) {
+      console.error('Veto error:', error);
+      const message = error.message || 'Failed to veto track';
+      res.status(message === 'Queue item not found' ? 404 : 500).json({ error: message });
+    }
+  };
+
+  /** Spend `{ amount }` credits to lift a track that is still ordered by votes */
+  boost = async (req: Request, res: Response) => {
+    let spentBoost: { amount: number; bonusAmount: number; authUserId: string; sessionId: string; queueItemId: string } | null = null;
+
+    try {
+      const { queueItemId } = req.params;
+      const { amount } = req.body ?? {};
+
+      if (typeof amount !== 'number' || !Number.isInteger(amount) || amount < MIN_BOOST_AMOUNT) {
+        return res.status(400).json({ error: `Boosts must be a whole number of at least ${MIN_BOOST_AMOUNT} credits` });
+      }
+
+      const queueItem = await queueService.getQueueItemWithSession(queueItemId);
+
+      if (!queueItem) {
+        return res.status(404).json({ error: 'Queue item not found' });
+      }
+
+      const context = await this.resolveSessionActor(req, queueItem.sessionId);
+
+      if ('error' in context) {
+        return res.status(context.restriction ? 403 : context.error === 'Session not found or inactive' ? 404 : 401)
+          .json({ error: context.error, restriction: context.restriction });
+      }
+
+      boostService.assertBoostable(queueItem);
+
+      const { actor, role } = context;
+      let authUserId: string | null = null;
 
+      if (role === 'host') {
+        authUserId = req.auth?.userId ?? null;
+      } else if (role === 'guest' && actor.guestId) {
+        const guest = await sessionService.getGuestById(actor.guestId);
+        // clerkUserId is the DB column name; stores Logto user ID
+        authUserId = guest?.clerkUserId ?? null;
+      }
+
+      if (!authUserId) {
+        return res.status(401).json({ error: 'Sign in to boost tracks' });
+      }
+
+      const credits = await creditService.spendCredits(authUserId, amount, {
+        reason: 'BOOST',
+        note: `Boosted "${queueItem.trackName}"`,
+        sessionId: queueItem.sessionId,
+        queueItemId,
+        actorId: authUserId,
+      }, req.auth?.roles);
+      const bonusAmount = credits.spent.bonus;
+
+      spentBoost = { amount, bonusAmount, authUserId, sessionId: queueItem.sessionId, queueItemId };
+
+      const boostTotal = await boostService.recordBoost(queueItemId, { userId: authUserId, amount, bonusAmount });
+      spentBoost = null;
+
+      const state = await this.emitQueueState(req, queueItem.sessionId);
+      playbackService.requestImmediateSync(queueItem.sessionId);
+
+      res.json({
+        boostTotal,
+        credits,
+        nextUp: state.nextUp,
+        queue: state.queue,
+      });
+    } catch (error: any) {
+      console.error('Boost error:', error);
+
+      if (spentBoost) {
+        const { authUserId, amount, bonusAmount, sessionId, queueItemId } = spentBoost;
+        const ledger = { reason: 'REFUND' as const, note: 'Boost could not be recorded', sessionId, queueItemId };
+        try {
+          await creditService.refundCredits(authUserId, { daily: amount - bonusAmount, bonus: bonusAmount }, ledger);
+        } catch (refundError) {
+          console.error('Failed to refund boost credits after error:', refundError);
+        }
+      }
+
+      if (error instanceof CreditError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+
+      const message = error.message || 'Failed to boost track';
+      const status = message === 'Queue item not found' ? 404
+        : message.includes('boosted') || message.includes('up next') ? 400
+        : 500;
+      res.status(status).json({ error: message });
+    }
+  };
+
+  /** Host-only: `{ position }` in the upcoming list, `{ direction: 'up' | 'down' }` or `{ nextUp: true }` */
+  move = async (req: Request, res: Response) => {
+    try {
+      const { queueItemId } = req.params;
+      const { position, direction, nextUp } = req.body ?? {};
+      let target: QueueMoveTarget;
+
+      if (nextUp === true) {
+        target = { nextUp: true };
+      } else if (direction === 'up' || direction === 'down') {
+        target = { direction };
+      } else if (typeof position === 'number' && Number.isInteger(position) && position >= 0) {
+        target = { position };
+      } else {
+        return res.status(400).json({ error: 'Provide a position, a direction of up or down, or nextUp: true' });
+      }
+
+      const queueItem = await queueService.getQueueItemWithSession(queueItemId);
+
+      if (!queueItem) {
+        return res.status(404).json({ error: 'Queue item not found' });
+      }
+
+      const context = await this.resolveSessionActor(req, queueItem.sessionId);
+
+      if ('error' in context) {
+        return res.status(context.restriction ? 403 : context.error === 'Session not found or inactive' ? 404 : 403)
+          .json({ error: context.error, restriction: context.restriction });
+      }
+
+      await queueService.moveQueueItem(queueItemId, context.actor, target);
+
+      const state = await this.emitQueueState(req, queueItem.sessionId);
+      playbackService.requestImmediateSync(queueItem.sessionId);
+
+      res.json({ nextUp: state.nextUp, queue: state.queue });
+    } catch (error: any) {
+      console.error('Move queue item error:', error);
+      const message = error.message || 'Failed to move track';
+      const status = message === 'Queue item not found' ? 404
+        : message === 'Only the host can reorder the queue' ? 403
+        : 500;
+      res.status(status).json({ error: message });
+    }
+  };
+
+  unpin = async (req: Request, res: Response) => {
+    try {
+      const { queueItemId } = req.params;
+      const queueItem = await queueService.getQueueItemWithSession(queueItemId);
+
+      if (!queueItem) {
+        return res.status(404).json({ error: 'Queue item not found' });
+      }
+
+      const context = await this.resolveSessionActor(req, queueItem.sessionId);
+
+      if ('error' in context) {
+        return res.status(context.restriction ? 403 : context.error === 'Session not found or inactive' ? 404 : 403)
+          .json({ error: context.error, restriction: context.restriction });
+      }
+
+      await queueService.unpinQueueItem(queueItemId, context.actor);
+
+      const state = await this.emitQueueState(req, queueItem.sessionId);
+      res.json({ nextUp: state.nextUp, queue: state.queue });
+    } catch (error: any) {
+      console.error('Unpin queue item error:', error);
+      const message = error.message || 'Failed to unpin track';
+      const status = message === 'Queue item not found' ? 404
+        : message === 'Only the host can reorder the queue' ? 403
+        : 500;
+      res.status(status).json({ error: message });
+    }
+  };
+
+  vote = async (req: Request, res: Response) => {
     try {
       const { queueItemId } = req.params;
       const { voteType } = req.body;
@@ -302,8 +682,8 @@ export class QueueController {
       const context = await this.resolveSessionActor(req, queueItem.sessionId);
 
       if ('error' in context) {
-        return res.status(context.error === 'Session not found or inactive' ? 404 : 401)
-          .json({ error: context.error });
+        return res.status(context.restriction ? 403 : context.error === 'Session not found or inactive' ? 404 : 401)
+          .json({ error: context.error, restriction: context.restriction });
       }
 
       const { actor, role } = context;
@@ -319,35 +699,86 @@ export class QueueController {
         authUserId = guest?.clerkUserId ?? null;
       }
 
+      if (authUserId) {
+        // Refresh the day's credits before the vote transaction charges them
+        await creditService.ensureDailyCredits(authUserId);
+      }
+
+      // Charges and refunds commit with the vote, so a vote that fails costs nothing
       const result = await queueService.vote(queueItemId, actor, voteType, {
-        beforeChange: async (intent) => {
-          if (!authUserId || intent.action !== 'add') {
+        beforeChange: async (intent, tx) => {
+          if (!authUserId || intent.action === 'change') {
             return;
           }
 
-          const credits = await creditService.spendCredits(authUserId, VOTE_REACTION_COST);
-          spentVoteCredits = { amount: VOTE_REACTION_COST, authUserId };
+          if (intent.action === 'remove') {
+            const bonus = Math.min(intent.previousBonusCreditsSpent, VOTE_REACTION_COST);
+            const credits = await creditService.refundCreditsInTransaction(tx, authUserId, { daily: VOTE_REACTION_COST - bonus, bonus }, {
+              reason: 'REFUND',
+              note: `Vote withdrawn on "${queueItem.trackName}"`,
+              sessionId: queueItem.sessionId,
+              queueItemId,
+              actorId: authUserId,
+            });
+            if (credits && authUserId === req.auth?.userId) {
+              actorCredits = credits;
+            }
+            return;
+          }
+
+          const credits = await creditService.spendCreditsInTransaction(tx, authUserId, VOTE_REACTION_COST, {
+            reason: 'VOTE_REACTION',
+            note: `${voteType === 1 ? 'Upvoted' : 'Downvoted'} "${queueItem.trackName}"`,
+            sessionId: queueItem.sessionId,
+            queueItemId,
+            actorId: authUserId,
+          });
 
           if (authUserId === req.auth?.userId) {
             actorCredits = credits;
           }
+
+          return { bonusCreditsSpent: credits.spent.bonus };
         },
+      }, {
+        weight: voteWeightForRoles(parseVoteWeights(queueItem.session.voteWeights), req.auth?.roles),
       });
 
-      if (result.action === 'removed' && authUserId) {
-        const credits = await creditService.addCredits(authUserId, VOTE_REACTION_COST);
-        if (authUserId === req.auth?.userId) {
-          actorCredits = credits;
+      // Guests can vote an auto-filled fallback track out of the queue
+      const votedAway = queueItem.isAutoFill
+        && await queueService.removeVotedAwayAutoFill(queueItemId, config.fallback.voteAwayScore);
+
+      const io = req.app.get('io') as SocketIOServer | undefined;
+      const { buried } = result;
+
+      if (buried) {
+        const refundedCredits = await this.refundRemovedItem(req, { ...buried, addedByGuest: queueItem.addedByGuest }, buried.boosts, {
+          refundRequester: buried.refundRequester,
+        });
+        if (refundedCredits) {
+          actorCredits = refundedCredits;
         }
-      }
 
-      spentVoteCredits = null;
+        if (io && buried.addedByGuestId) {
+          notifyTrackBuried(io, buried.sessionId, buried.addedByGuestId, {
+            queueItemId,
+            trackName: buried.trackName,
+            voteScore: result.voteScore,
+            threshold: buried.threshold,
+            refunded: buried.refundRequester && buried.creditsSpent > 0,
+          });
+        }
+      } else if (io && !votedAway) {
+        broadcastVoteUpdate(io, queueItem.sessionId, queueItemId, result.voteScore);
+      }
 
       const state = await this.emitQueueState(req, queueItem.sessionId);
       playbackService.requestImmediateSync(queueItem.sessionId);
 
       const payload: Record<string, unknown> = {
         ...result,
+        buried: Boolean(buried),
+        votedAway,
         nextUp: state.nextUp,
         queue: state.queue,
       };
@@ -360,20 +791,14 @@ export class QueueController {
     } catch (error) {
       console.error('Vote error:', error);
 
-      if (spentVoteCredits) {
-        const { authUserId: refundUserId, amount } = spentVoteCredits;
-        try {
-          await creditService.addCredits(refundUserId, amount);
-        } catch (refundError) {
-          console.error('Failed to refund vote credits after error:', refundError);
-        }
-        spentVoteCredits = null;
-      }
-
       if (error instanceof CreditError) {
         return res.status(error.status).json({ error: error.message });
       }
 
+      if (error instanceof Error && error.message === VOTE_CONFLICT_MESSAGE) {
+        return res.status(409).json({ error: error.message });
+      }
+
       res.status(500).json({ error: 'Failed to vote' });
     }
   };
@@ -1,8 +1,17 @@
 import { Request, Response } from 'express';
-import { scheduledPlaybackService, ScheduledTrackInput } from '../services/scheduledPlayback.service';
+import { ScheduledDeliveryMode } from '@prisma/client';
+import {
+  SCHEDULED_DELIVERY_MODES,
+  scheduledPlaybackService,
+  ScheduledTrackInput,
+  ScheduleOptions,
+  ScheduleUpdateInput,
+  ScheduleZone,
+} from '../services/scheduledPlayback.service';
+import { isValidTimeZone } from '../lib/timezone';
 import { sessionService } from '../services/session.service';
 
-const MAX_TRACKS_PER_SCHEDULE = 10;
+const MAX_TRACKS_PER_SCHEDULE = 50;
 
 const parseTrackInput = (track: any): ScheduledTrackInput => {
   if (!track || typeof track !== 'object') {
@@ -51,6 +60,99 @@ const parseTrackInput = (track: any): ScheduledTrackInput => {
   };
 };
 
+const parseTimeOfDay = (timeOfDay: unknown) => {
+  if (typeof timeOfDay !== 'string' || !/^\d{2}:\d{2}$/.test(timeOfDay)) {
+    throw new Error('timeOfDay must be provided in HH:mm format');
+  }
+
+  const [hoursStr, minutesStr] = timeOfDay.split(':');
+  const hours = Number(hoursStr);
+  const minutes = Number(minutesStr);
+
+  if (!Number.isInteger(hours) || !Number.isInteger(minutes) || hours < 0 || hours > 23 || minutes < 0 || minutes > 59) {
+    throw new Error('timeOfDay must specify a valid hour and minute');
+  }
+
+  return hours * 60 + minutes;
+};
+
+/** Undefined when the body names no zone at all */
+const parseZone = (timezone: unknown, timezoneOffsetMinutes: unknown): ScheduleZone | undefined => {
+  if (timezone !== undefined && timezone !== null) {
+    if (!isValidTimeZone(timezone)) {
+      throw new Error('timezone must be a valid IANA zone name');
+    }
+    return { timezone };
+  }
+
+  // Older clients only send a fixed offset
+  if (timezoneOffsetMinutes === undefined || timezoneOffsetMinutes === null) {
+    return undefined;
+  }
+
+  const offsetNumber = Number(timezoneOffsetMinutes);
+  if (!Number.isFinite(offsetNumber)) {
+    throw new Error('timezoneOffsetMinutes must be a number');
+  }
+
+  return { timezoneOffsetMinutes: offsetNumber };
+};
+
+const parseRecurrence = (recurrence: unknown) => {
+  if (recurrence === undefined || recurrence === null) {
+    return undefined;
+  }
+
+  if (typeof recurrence !== 'object' || Array.isArray(recurrence)) {
+    throw new Error('recurrence must be an object');
+  }
+
+  return recurrence as ScheduleUpdateInput['recurrence'];
+};
+
+const parseDeliveryMode = (deliveryMode: unknown) => {
+  if (deliveryMode === undefined || deliveryMode === null) {
+    return undefined;
+  }
+
+  if (!SCHEDULED_DELIVERY_MODES.includes(deliveryMode as ScheduledDeliveryMode)) {
+    throw new Error(`deliveryMode must be one of ${SCHEDULED_DELIVERY_MODES.join(', ')}`);
+  }
+
+  return deliveryMode as ScheduledDeliveryMode;
+};
+
+const parseOptionalInteger = (value: unknown, field: string) => {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed)) {
+    throw new Error(`${field} must be a whole number`);
+  }
+
+  return parsed;
+};
+
+const parseScheduleOptions = (body: any): ScheduleOptions => ({
+  deliveryMode: parseDeliveryMode(body?.deliveryMode),
+  maxRetries: parseOptionalInteger(body?.maxRetries, 'maxRetries'),
+  retryBackoffSeconds: parseOptionalInteger(body?.retryBackoffSeconds, 'retryBackoffSeconds'),
+});
+
+const parseTrackList = (tracks: unknown) => {
+  if (!Array.isArray(tracks) || tracks.length === 0) {
+    throw new Error('At least one track is required');
+  }
+
+  if (tracks.length > MAX_TRACKS_PER_SCHEDULE) {
+    throw new Error(`A maximum of ${MAX_TRACKS_PER_SCHEDULE} tracks can be scheduled at once`);
+  }
+
+  return tracks.map(parseTrackInput);
+};
+
 class ScheduledPlaybackController {
   list = async (req: Request, res: Response) => {
     try {
@@ -78,47 +180,35 @@ class ScheduledPlaybackController {
     try {
       const { id: sessionId } = req.params;
       const hostId = req.session.userId;
-      const { timeOfDay, timezoneOffsetMinutes, tracks } = req.body ?? {};
+      const { timeOfDay, timezone, timezoneOffsetMinutes, recurrence, tracks } = req.body ?? {};
 
       if (!hostId) {
         return res.status(401).json({ error: 'Not authenticated' });
       }
 
-      if (typeof timeOfDay !== 'string' || !/^\d{2}:\d{2}$/.test(timeOfDay)) {
-        return res.status(400).json({ error: 'timeOfDay must be provided in HH:mm format' });
-      }
+      const parsedRecurrence = parseRecurrence(recurrence);
 
-      const [hoursStr, minutesStr] = timeOfDay.split(':');
-      const hours = Number(hoursStr);
-      const minutes = Number(minutesStr);
+      // Cron rules carry their own times of day
+      const totalMinutes = parsedRecurrence?.type === 'CRON' && timeOfDay === undefined
+        ? 0
+        : parseTimeOfDay(timeOfDay);
 
-      if (!Number.isInteger(hours) || !Number.isInteger(minutes) || hours < 0 || hours > 23 || minutes < 0 || minutes > 59) {
-        return res.status(400).json({ error: 'timeOfDay must specify a valid hour and minute' });
-      }
-
-      const totalMinutes = hours * 60 + minutes;
+      const zone = parseZone(timezone, timezoneOffsetMinutes);
 
-      const offsetNumber = Number(timezoneOffsetMinutes);
-      if (!Number.isFinite(offsetNumber)) {
-        return res.status(400).json({ error: 'timezoneOffsetMinutes must be provided as a numeric value' });
+      if (!zone) {
+        return res.status(400).json({ error: 'timezone (IANA name) or timezoneOffsetMinutes is required' });
       }
 
-      if (!Array.isArray(tracks) || tracks.length === 0) {
-        return res.status(400).json({ error: 'At least one track is required' });
-      }
-
-      if (tracks.length > MAX_TRACKS_PER_SCHEDULE) {
-        return res.status(400).json({ error: `A maximum of ${MAX_TRACKS_PER_SCHEDULE} tracks can be scheduled at once` });
-      }
+      const normalizedTracks = parseTrackList(tracks);
 
-      const normalizedTracks = tracks.map(parseTrackInput);
-
-      const scheduledPlayback = await scheduledPlaybackService.scheduleDailyPlayback(
+      const scheduledPlayback = await scheduledPlaybackService.schedulePlayback(
         sessionId,
         hostId,
         totalMinutes,
-        offsetNumber,
+        zone,
+        parsedRecurrence,
         normalizedTracks,
+        parseScheduleOptions(req.body),
       );
 
       res.status(201).json({ scheduledPlayback });
@@ -133,6 +223,80 @@ class ScheduledPlaybackController {
     }
   };
 
+  update = async (req: Request, res: Response) => {
+    try {
+      const { scheduleId } = req.params;
+      const hostId = req.session.userId;
+      const { timeOfDay, timezone, timezoneOffsetMinutes, recurrence, tracks } = req.body ?? {};
+
+      if (!hostId) {
+        return res.status(401).json({ error: 'Not authenticated' });
+      }
+
+      const changes: ScheduleUpdateInput = {
+        timeOfDayMinutes: timeOfDay === undefined ? undefined : parseTimeOfDay(timeOfDay),
+        zone: parseZone(timezone, timezoneOffsetMinutes),
+        recurrence: parseRecurrence(recurrence),
+        tracks: tracks === undefined ? undefined : parseTrackList(tracks),
+        ...parseScheduleOptions(req.body),
+      };
+
+      const scheduledPlayback = await scheduledPlaybackService.updateSchedule(scheduleId, hostId, changes);
+
+      res.json({ scheduledPlayback });
+    } catch (error: any) {
+      const message = error?.message ?? 'Failed to update scheduled playback';
+      const status = message.includes('not found') ? 404
+        : message.includes('Only the host') ? 403
+        : message.includes('refresh and try again') ? 409
+        : 400;
+
+      console.error('Failed to update scheduled playback:', error);
+      res.status(status).json({ error: message });
+    }
+  };
+
+  runs = async (req: Request, res: Response) => {
+    try {
+      const { id: sessionId, scheduleId } = req.params;
+      const runs = await scheduledPlaybackService.listRuns(sessionId, scheduleId);
+
+      res.json({ runs });
+    } catch (error: any) {
+      if (error?.message === 'Schedule not found') {
+        return res.status(404).json({ error: error.message });
+      }
+
+      console.error('Failed to list scheduled playback runs:', error);
+      res.status(500).json({ error: 'Failed to load run history' });
+    }
+  };
+
+  rerun = async (req: Request, res: Response) => {
+    try {
+      const { scheduleId } = req.params;
+      const hostId = req.session.userId;
+
+      if (!hostId) {
+        return res.status(401).json({ error: 'Not authenticated' });
+      }
+
+      const scheduledPlayback = await scheduledPlaybackService.rerunSchedule(scheduleId, hostId);
+
+      res.status(202).json({ scheduledPlayback });
+    } catch (error: any) {
+      const message = error?.message ?? 'Failed to re-run scheduled playback';
+      const status = message.includes('not found') ? 404
+        : message.includes('Only the host') ? 403
+        : message.includes('refresh and try again') ? 409
+        : message.includes('Only failed') ? 400
+        : 500;
+
+      console.error('Failed to re-run scheduled playback:', error);
+      res.status(status).json({ error: message });
+    }
+  };
+
   cancel = async (req: Request, res: Response) => {
     try {
       const { scheduleId } = req.params;
@@ -1,11 +1,36 @@
 import { Request, Response } from 'express';
-import { sessionService } from '../services/session.service';
-import { creditService, CreditError, CreditState } from '../services/credit.service';
+import { QueueOrderingMode, SkipThresholdMode } from '@prisma/client';
+import { Server as SocketIOServer } from 'socket.io';
+import { sessionService, SessionSettingsError } from '../services/session.service';
+import { queueService, QUEUE_ORDERING_MODES } from '../services/queue.service';
+import { broadcastQueueUpdate } from '../sockets/handlers';
+import { creditService, CreditError, CreditState, hasElevatedRole } from '../services/credit.service';
+import { presenceService } from '../services/presence.service';
+import { guestModerationService, restrictionMessage } from '../services/guestModeration.service';
+import { skipCounterService, SKIP_THRESHOLD_MODES } from '../services/skipCounter.service';
+import { spotifyService } from '../services/spotify.service';
+import { playbackService, PLAYBACK_SKIP_POLL_DELAY_MS } from '../services/playback.service';
 import { getLogtoUserDisplayName } from '../lib/logtoManagement';
+import { normalizeVoteWeights, VoteWeights } from '../lib/voteWeights';
 
 /** Fallback name stored when no display name is available at join time. */
 const GUEST_FALLBACK_NAME = 'Guest DJ';
 
+const isQueueOrderingMode = (value: unknown): value is QueueOrderingMode =>
+  typeof value === 'string' && (QUEUE_ORDERING_MODES as string[]).includes(value);
+
+const isSkipThresholdMode = (value: unknown): value is SkipThresholdMode =>
+  typeof value === 'string' && (SKIP_THRESHOLD_MODES as string[]).includes(value);
+
+const isPositiveInt = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value > 0;
+
+/** Replay cooldowns top out at a week */
+const MAX_COOLDOWN_MINUTES = 7 * 24 * 60;
+
+const isCooldownMinutes = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= MAX_COOLDOWN_MINUTES;
+
 export class SessionController {
   /**
    * Resolve a display name for the joining user, in priority order:
@@ -42,7 +67,7 @@ export class SessionController {
 
   create = async (req: Request, res: Response) => {
     try {
-      const { name, allowExplicit, maxSongDuration } = req.body;
+      const { name, allowExplicit, maxSongDuration, queueOrderingMode } = req.body;
       const userId = req.session.userId!;
 
       if (!name) {
@@ -57,7 +82,11 @@ export class SessionController {
         return res.status(400).json({ error: 'maxSongDuration must be a positive number when provided' });
       }
 
-      const session = await sessionService.createSession(userId, name, { allowExplicit, maxSongDuration });
+      if (typeof queueOrderingMode !== 'undefined' && !isQueueOrderingMode(queueOrderingMode)) {
+        return res.status(400).json({ error: `queueOrderingMode must be one of ${QUEUE_ORDERING_MODES.join(', ')}` });
+      }
+
+      const session = await sessionService.createSession(userId, name, { allowExplicit, maxSongDuration, queueOrderingMode });
       res.json({ session });
     } catch (error) {
       console.error('Create session error:', error);
@@ -102,6 +131,11 @@ export class SessionController {
         return res.status(404).json({ error: 'This session is no longer active. The host has started a new session.' });
       }
 
+      const banned = await guestModerationService.getBanRestriction(session.hostId, session.id, authUserId);
+      if (banned) {
+        return res.status(403).json({ error: restrictionMessage(banned), restriction: banned });
+      }
+
       let credits: CreditState;
       try {
         credits = await creditService.ensureDailyCredits(authUserId, req.auth?.roles);
@@ -157,6 +191,11 @@ export class SessionController {
         return res.status(404).json({ error: 'This session is no longer active. The host has started a new session.' });
       }
 
+      const banned = await guestModerationService.getBanRestriction(session.hostId, session.id, authUserId);
+      if (banned) {
+        return res.status(403).json({ error: restrictionMessage(banned), restriction: banned });
+      }
+
       let credits: CreditState;
       try {
         credits = await creditService.ensureDailyCredits(authUserId, req.auth?.roles);
@@ -233,6 +272,7 @@ export class SessionController {
           participant: {
             type: 'host',
             name: session.host.displayName,
+            canModerate: true,
           },
         });
       }
@@ -242,6 +282,16 @@ export class SessionController {
       if (guestData) {
         let guest = await sessionService.getGuestById(guestData.guestId);
 
+        const restriction = guest ? await guestModerationService.getRestriction(guest, session.hostId) : null;
+
+        // Kicked and banned guests are told why, then treated as not joined
+        if (guest && restriction && restriction.state !== 'muted') {
+          delete req.session.guestSessions![session.id];
+          return res.json({
+            participant: { type: 'none', restriction, message: restrictionMessage(restriction) },
+          });
+        }
+
         if (guest) {
           // Self-heal: if the stored name is still the 'Guest DJ' fallback
           // (e.g. the name wasn't available at join time), repair it from the
@@ -278,12 +328,20 @@ export class SessionController {
             };
           }
 
+          const quota = hasElevatedRole(req.auth?.roles)
+            ? undefined
+            : await queueService.getGuestQuota(session.id, guest.id);
+
           return res.json({
             participant: {
               type: 'guest',
               name: guest.name,
               guestId: guest.id,
               credits,
+              quota,
+              // Managers can veto tracks like the host
+              canModerate: hasElevatedRole(req.auth?.roles),
+              ...(restriction ? { restriction, message: restrictionMessage(restriction) } : {}),
             },
           });
         }
@@ -334,9 +392,41 @@ export class SessionController {
     try {
       const { id } = req.params;
       const userId = req.session.userId!;
-      const { allowExplicit, maxSongDuration } = req.body;
-
-      const settings: { allowExplicit?: boolean; maxSongDuration?: number } = {};
+      const {
+        allowExplicit,
+        maxSongDuration,
+        queueOrderingMode,
+        celebrationsEnabled,
+        skipThresholdMode,
+        skipThresholdValue,
+        skipThresholdMinimum,
+        trackCooldownMinutes,
+        artistCooldownMinutes,
+        guestMaxActiveItems,
+        guestMaxItemsPerHour,
+        voteWeights,
+        buryThresholdMode,
+        buryThresholdValue,
+        buryRefundRequester,
+      } = req.body;
+
+      const settings: {
+        allowExplicit?: boolean;
+        maxSongDuration?: number;
+        queueOrderingMode?: QueueOrderingMode;
+        celebrationsEnabled?: boolean;
+        skipThresholdMode?: SkipThresholdMode;
+        skipThresholdValue?: number;
+        skipThresholdMinimum?: number;
+        trackCooldownMinutes?: number;
+        artistCooldownMinutes?: number;
+        guestMaxActiveItems?: number | null;
+        guestMaxItemsPerHour?: number | null;
+        voteWeights?: VoteWeights;
+        buryThresholdMode?: SkipThresholdMode;
+        buryThresholdValue?: number | null;
+        buryRefundRequester?: boolean;
+      } = {};
 
       if (typeof allowExplicit === 'boolean') {
         settings.allowExplicit = allowExplicit;
@@ -349,20 +439,179 @@ export class SessionController {
         settings.maxSongDuration = maxSongDuration;
       }
 
+      if (typeof celebrationsEnabled === 'boolean') {
+        settings.celebrationsEnabled = celebrationsEnabled;
+      }
+
+      if (typeof queueOrderingMode !== 'undefined') {
+        if (!isQueueOrderingMode(queueOrderingMode)) {
+          return res.status(400).json({ error: `queueOrderingMode must be one of ${QUEUE_ORDERING_MODES.join(', ')}` });
+        }
+        settings.queueOrderingMode = queueOrderingMode;
+      }
+
+      if (typeof skipThresholdMode !== 'undefined') {
+        if (!isSkipThresholdMode(skipThresholdMode)) {
+          return res.status(400).json({ error: `skipThresholdMode must be one of ${SKIP_THRESHOLD_MODES.join(', ')}` });
+        }
+        settings.skipThresholdMode = skipThresholdMode;
+      }
+
+      if (typeof skipThresholdValue !== 'undefined') {
+        if (!isPositiveInt(skipThresholdValue)) {
+          return res.status(400).json({ error: 'skipThresholdValue must be a positive whole number' });
+        }
+        settings.skipThresholdValue = skipThresholdValue;
+      }
+
+      if (typeof skipThresholdMinimum !== 'undefined') {
+        if (!isPositiveInt(skipThresholdMinimum)) {
+          return res.status(400).json({ error: 'skipThresholdMinimum must be a positive whole number' });
+        }
+        settings.skipThresholdMinimum = skipThresholdMinimum;
+      }
+
+      if (typeof trackCooldownMinutes !== 'undefined') {
+        if (!isCooldownMinutes(trackCooldownMinutes)) {
+          return res.status(400).json({ error: `trackCooldownMinutes must be a whole number from 0 to ${MAX_COOLDOWN_MINUTES}` });
+        }
+        settings.trackCooldownMinutes = trackCooldownMinutes;
+      }
+
+      if (typeof artistCooldownMinutes !== 'undefined') {
+        if (!isCooldownMinutes(artistCooldownMinutes)) {
+          return res.status(400).json({ error: `artistCooldownMinutes must be a whole number from 0 to ${MAX_COOLDOWN_MINUTES}` });
+        }
+        settings.artistCooldownMinutes = artistCooldownMinutes;
+      }
+
+      // null lifts the limit
+      if (typeof guestMaxActiveItems !== 'undefined') {
+        if (guestMaxActiveItems !== null && !isPositiveInt(guestMaxActiveItems)) {
+          return res.status(400).json({ error: 'guestMaxActiveItems must be a positive whole number or null' });
+        }
+        settings.guestMaxActiveItems = guestMaxActiveItems;
+      }
+
+      if (typeof guestMaxItemsPerHour !== 'undefined') {
+        if (guestMaxItemsPerHour !== null && !isPositiveInt(guestMaxItemsPerHour)) {
+          return res.status(400).json({ error: 'guestMaxItemsPerHour must be a positive whole number or null' });
+        }
+        settings.guestMaxItemsPerHour = guestMaxItemsPerHour;
+      }
+
+      if (typeof voteWeights !== 'undefined') {
+        try {
+          settings.voteWeights = normalizeVoteWeights(voteWeights);
+        } catch (error: any) {
+          return res.status(400).json({ error: error.message });
+        }
+      }
+
+      if (typeof buryThresholdMode !== 'undefined') {
+        if (!isSkipThresholdMode(buryThresholdMode)) {
+          return res.status(400).json({ error: `buryThresholdMode must be one of ${SKIP_THRESHOLD_MODES.join(', ')}` });
+        }
+        settings.buryThresholdMode = buryThresholdMode;
+      }
+
+      // null stops burying tracks
+      if (typeof buryThresholdValue !== 'undefined') {
+        if (buryThresholdValue !== null && !isPositiveInt(buryThresholdValue)) {
+          return res.status(400).json({ error: 'buryThresholdValue must be a positive whole number or null' });
+        }
+        settings.buryThresholdValue = buryThresholdValue;
+      }
+
+      if (typeof buryRefundRequester === 'boolean') {
+        settings.buryRefundRequester = buryRefundRequester;
+      }
+
       if (Object.keys(settings).length === 0) {
         return res.status(400).json({ error: 'At least one setting must be provided' });
       }
 
       const session = await sessionService.updateSessionSettings(id, userId, settings);
 
+      // Applies to the current track's vote immediately
+      skipCounterService.setThresholdSettings(id, {
+        mode: session.skipThresholdMode,
+        value: session.skipThresholdValue,
+        minimum: session.skipThresholdMinimum,
+      });
+
+      if (settings.skipThresholdMode || settings.skipThresholdValue !== undefined || settings.skipThresholdMinimum !== undefined) {
+        await this.skipIfThresholdReached(id, session.hostId);
+      }
+
+      // The ordering mode changes the effective queue order for everyone
+      if (settings.queueOrderingMode) {
+        const io = req.app.get('io') as SocketIOServer | undefined;
+        if (io) {
+          const state = await queueService.getQueueWithNext(id);
+          broadcastQueueUpdate(io, id, state);
+        }
+      }
+
       res.json({ session });
     } catch (error: any) {
+      if (error instanceof SessionSettingsError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+
       console.error('Update session settings error:', error);
-      const message = error.message || 'Failed to update session settings';
-      const status = message === 'Session not found' ? 404
-        : message === 'Only the host can update session settings' ? 403
-        : 500;
-      res.status(status).json({ error: message });
+      res.status(500).json({ error: 'Failed to update session settings' });
+    }
+  };
+
+  /**
+   * Skip the current track if the votes already cast on it meet a newly
+   * lowered threshold; otherwise nothing would happen until the next vote.
+   * Failures are logged, since the settings themselves were saved.
+   */
+  private async skipIfThresholdReached(sessionId: string, hostId: string) {
+    try {
+      const accessToken = await spotifyService.ensureValidToken(hostId);
+      const playback = await spotifyService.getCurrentPlayback(accessToken);
+      const trackId = playback?.item?.id;
+
+      if (!trackId || !(await skipCounterService.claimIfThresholdReached(sessionId, trackId))) {
+        return;
+      }
+
+      try {
+        await spotifyService.skipToNext(accessToken);
+      } catch (skipError) {
+        skipCounterService.releaseTrigger(sessionId);
+        throw skipError;
+      }
+
+      await skipCounterService.reset(sessionId);
+      skipCounterService.resetGate(sessionId);
+      playbackService.requestImmediateSync(sessionId, PLAYBACK_SKIP_POLL_DELAY_MS);
+    } catch (error) {
+      console.error('Failed to apply lowered skip threshold:', error);
+    }
+  }
+
+  /** Snapshot of the live roster; `presence_updated` carries later changes */
+  getPresence = async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+      const session = await sessionService.getSession(id);
+
+      if (!session) {
+        return res.status(404).json({ error: 'Session not found' });
+      }
+
+      if (session.hostId !== req.session.userId) {
+        return res.status(403).json({ error: 'Only the host can view who is listening' });
+      }
+
+      res.json({ roster: presenceService.getRoster(id) });
+    } catch (error: any) {
+      console.error('Get presence error:', error);
+      res.status(500).json({ error: 'Failed to get presence' });
     }
   };
 
@@ -394,6 +643,12 @@ export class SessionController {
         return res.status(403).json({ error: 'Only the host can adjust guest credits' });
       }
 
+      const ledger = {
+        reason: 'HOST_GRANT' as const,
+        sessionId: id,
+        actorId: req.auth?.userId ?? hostId,
+      };
+
       if (typeof newTotal === 'number') {
         const normalizedTotal = Math.floor(newTotal);
 
@@ -401,7 +656,7 @@ export class SessionController {
           return res.status(400).json({ error: 'newTotal must be a positive number' });
         }
 
-        const credits = await creditService.setTotalCredits(targetUserId, normalizedTotal, { refill });
+        const credits = await creditService.setTotalCredits(targetUserId, normalizedTotal, ledger, { refill });
         return res.json({ credits });
       }
 
@@ -409,7 +664,7 @@ export class SessionController {
         return res.status(400).json({ error: 'amount must be a positive number' });
       }
 
-      const credits = await creditService.addCredits(targetUserId, Math.floor(amount), {
+      const credits = await creditService.addCredits(targetUserId, Math.floor(amount), ledger, {
         increaseTotal: Boolean(increaseTotal),
       });
 
@@ -4,8 +4,12 @@ import { sessionService } from '../services/session.service';
 import { playbackService, PLAYBACK_SKIP_POLL_DELAY_MS } from '../services/playback.service';
 import { queueService } from '../services/queue.service';
 import { bannedTracksService } from '../services/bannedTracks.service';
-import { creditService, CreditError, CreditState, VOTE_REACTION_COST } from '../services/credit.service';
+import { creditService, CreditError, CreditSplit, CreditState, VOTE_REACTION_COST } from '../services/credit.service';
 import { skipCounterService } from '../services/skipCounter.service';
+import { collectionImportService } from '../services/collectionImport.service';
+import { trackRejectionReason, TrackRestrictions } from '../lib/trackRestrictions';
+import { findReplayCooldown } from '../lib/replayCooldown';
+import { guestModerationService, restrictionMessage } from '../services/guestModeration.service';
 
 /**
  * Detect Spotify 429 rate-limit or network timeout errors and return
@@ -110,50 +114,29 @@ export class SpotifyController {
       const trackPage = await spotifyService.searchTracks(q, accessToken, pagination);
       const rawTracks = trackPage.items;
 
-      let bannedTrackIds: string[] = [];
-      let bannedArtistIds: string[] = [];
+      const restrictions: TrackRestrictions = session
+        ? await bannedTracksService.getTrackRestrictions(session)
+        : { allowExplicit: true, maxSongDuration: null, bannedTrackIds: [], bannedArtistIds: [] };
+      const { bannedTrackIds, bannedArtistIds } = restrictions;
 
-      if (sessionId && typeof sessionId === 'string') {
-        [bannedTrackIds, bannedArtistIds] = await Promise.all([
-          bannedTracksService.getBannedTrackIdsForSession(sessionId),
-          bannedTracksService.getBannedArtistIdsForSession(sessionId),
-        ]);
-      }
-
-      const shouldHideRestricted = hideRestricted === 'true';
-      const allowExplicit = session?.allowExplicit ?? true;
-      const maxSongDuration = session?.maxSongDuration ?? null;
-
-      const filteredTracks = shouldHideRestricted
-        ? rawTracks.filter((track: any) => {
-            if (!allowExplicit && track?.explicit) {
-              return false;
-            }
-
-            if (bannedTrackIds.includes(track?.id)) {
-              return false;
-            }
-
-            const artistIds = Array.isArray(track?.artists)
-              ? track.artists.map((artist: any) => artist?.id).filter(Boolean)
-              : [];
-
-            if (artistIds.some((artistId: string) => bannedArtistIds.includes(artistId))) {
-              return false;
-            }
-
-            // Filter by max song duration
-            if (maxSongDuration && track?.duration_ms) {
-              const trackDurationMinutes = track.duration_ms / 60000;
-              if (trackDurationMinutes > maxSongDuration) {
-                return false;
-              }
-            }
-
-            return true;
-          })
+      const filteredTracks = hideRestricted === 'true'
+        ? rawTracks.filter((track: any) => !trackRejectionReason(track, restrictions))
         : rawTracks;
 
+      // Still listed, but flagged so the client can grey them out until they can be requested again
+      const replayCooldowns = session ? await queueService.getReplayCooldowns(session.id) : null;
+      const cooldowns: Record<string, { reason: 'track' | 'artist'; availableAt: string }> = {};
+
+      if (replayCooldowns) {
+        for (const track of filteredTracks) {
+          const artistIds = (track.artists ?? []).map((artist: any) => artist?.id).filter(Boolean);
+          const cooldown = findReplayCooldown(track.id, artistIds, replayCooldowns);
+          if (cooldown) {
+            cooldowns[track.id] = { reason: cooldown.reason, availableAt: cooldown.availableAt.toISOString() };
+          }
+        }
+      }
+
       const filteredOutCount = rawTracks.length - filteredTracks.length;
       const pageLimit = trackPage.limit ?? filteredTracks.length;
       const pageOffset = trackPage.offset ?? pagination.offset ?? 0;
@@ -165,6 +148,7 @@ export class SpotifyController {
         tracks: filteredTracks,
         bannedTrackIds,
         bannedArtistIds,
+        cooldowns,
         meta: {
           total,
           offset: pageOffset,
@@ -240,6 +224,48 @@ export class SpotifyController {
     }
   }
 
+  /** Host-only look at a playlist or album before importing it */
+  async previewCollection(req: Request, res: Response) {
+    try {
+      const { sessionId, link } = req.query;
+
+      if (!link || typeof link !== 'string') {
+        return res.status(400).json({ error: 'A playlist or album link is required' });
+      }
+
+      if (!sessionId || typeof sessionId !== 'string') {
+        return res.status(400).json({ error: 'Session ID is required' });
+      }
+
+      const session = await sessionService.getSession(sessionId);
+
+      if (!session || !session.isActive) {
+        return res.status(404).json({ error: 'Session not found' });
+      }
+
+      if (req.session.userId !== session.hostId) {
+        return res.status(403).json({ error: 'Only the host can import playlists' });
+      }
+
+      const preview = await collectionImportService.preview(session, link);
+      res.json(preview);
+    } catch (error: any) {
+      if (handleSpotifyTransientError(error, res, 'Preview collection')) return;
+
+      const statusCode = error?.statusCode ?? error?.body?.error?.status;
+      if (statusCode === 403 || statusCode === 404) {
+        return res.status(404).json({ error: 'Spotify could not find that playlist or album' });
+      }
+
+      if (error?.message?.includes('Enter a Spotify')) {
+        return res.status(400).json({ error: error.message });
+      }
+
+      console.error('Preview collection error:', error);
+      res.status(500).json({ error: 'Failed to load playlist' });
+    }
+  }
+
   async getCurrentPlayback(req: Request, res: Response) {
     try {
       const { sessionId } = req.query;
@@ -347,7 +373,7 @@ export class SpotifyController {
   }
 
   async next(req: Request, res: Response) {
-    let spentSkipCredits: { amount: number; authUserId: string } | null = null;
+    let spentSkipCredits: { spent: CreditSplit; authUserId: string; sessionId: string } | null = null;
 
     try {
       const { sessionId } = req.body;
@@ -413,6 +439,15 @@ export class SpotifyController {
         return res.status(401).json({ error: 'Join the session before skipping tracks' });
       }
 
+      const restriction = await guestModerationService.getRestriction(guest, session.hostId);
+
+      if (restriction) {
+        if (restriction.state !== 'muted' && req.session.guestSessions) {
+          delete req.session.guestSessions[sessionId];
+        }
+        return res.status(403).json({ error: restrictionMessage(restriction), restriction });
+      }
+
       // Sync the in-memory gate with the current track (cheap — skips DB if already in sync)
       await skipCounterService.syncCurrentTrack(sessionId, currentTrackId);
 
@@ -423,8 +458,13 @@ export class SpotifyController {
       }
 
       try {
-        const credits = await creditService.spendCredits(authUserId, VOTE_REACTION_COST, req.auth?.roles);
-        spentSkipCredits = { amount: VOTE_REACTION_COST, authUserId };
+        const credits = await creditService.spendCredits(authUserId, VOTE_REACTION_COST, {
+          reason: 'SKIP_VOTE',
+          note: `Voted to skip "${playback.item.name}"`,
+          sessionId,
+          actorId: authUserId,
+        }, req.auth?.roles);
+        spentSkipCredits = { spent: credits.spent, authUserId, sessionId };
 
         if (authUserId === req.auth?.userId) {
           actorCredits = credits;
@@ -441,7 +481,11 @@ export class SpotifyController {
       // Track changed between the playback fetch and the vote — refund and bail
       if (voteResult.trackMismatch) {
         if (spentSkipCredits) {
-          await creditService.addCredits(spentSkipCredits.authUserId, spentSkipCredits.amount);
+          await creditService.refundCredits(spentSkipCredits.authUserId, spentSkipCredits.spent, {
+            reason: 'REFUND',
+            note: 'Track changed before the skip vote was counted',
+            sessionId,
+          });
           spentSkipCredits = null;
         }
         return res.status(409).json({
@@ -453,7 +497,11 @@ export class SpotifyController {
       // Threshold was already reached — song should skip momentarily, refund
       if (voteResult.thresholdAlreadyReached) {
         if (spentSkipCredits) {
-          await creditService.addCredits(spentSkipCredits.authUserId, spentSkipCredits.amount);
+          await creditService.refundCredits(spentSkipCredits.authUserId, spentSkipCredits.spent, {
+            reason: 'REFUND',
+            note: 'Skip threshold was already reached',
+            sessionId,
+          });
           spentSkipCredits = null;
         }
         return res.status(409).json({
@@ -463,10 +511,14 @@ export class SpotifyController {
       }
 
       if (voteResult.alreadyVoted) {
-        const credits = await creditService.addCredits(authUserId, VOTE_REACTION_COST);
+        const credits = await creditService.refundCredits(authUserId, spentSkipCredits!.spent, {
+          reason: 'REFUND',
+          note: 'Already voted to skip this track',
+          sessionId,
+        });
         spentSkipCredits = null;
 
-        if (authUserId === req.auth?.userId) {
+        if (credits && authUserId === req.auth?.userId) {
           actorCredits = credits;
         }
 
@@ -486,9 +538,7 @@ export class SpotifyController {
         return res.status(409).json(conflictPayload);
       }
 
-      const thresholdReached = voteResult.state.skipCount >= skipCounterService.getThreshold();
-
-      if (thresholdReached) {
+      if (voteResult.thresholdReached) {
         try {
           await spotifyService.skipToNext(accessToken);
           const resetResult = await skipCounterService.reset(sessionId);
@@ -537,9 +587,13 @@ export class SpotifyController {
       console.error('Next error:', error);
 
       if (spentSkipCredits) {
-        const { authUserId: refundUserId, amount } = spentSkipCredits;
+        const { authUserId: refundUserId, spent, sessionId: refundSessionId } = spentSkipCredits;
         try {
-          await creditService.addCredits(refundUserId, amount);
+          await creditService.refundCredits(refundUserId, spent, {
+            reason: 'REFUND',
+            note: 'Skip vote could not be recorded',
+            sessionId: refundSessionId,
+          });
         } catch (refundError) {
           console.error('Failed to refund skip credits after error:', refundError);
         }
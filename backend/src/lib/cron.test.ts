@@ -0,0 +1,26 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { cronMatchesDate, parseCron } from './cron';
+
+test('ranges and steps expand to every matching value', () => {
+  const cron = parseCron('*/30 9-10 * * 1-5');
+
+  assert.deepEqual(cron.minutes, [0, 30]);
+  assert.deepEqual(cron.hours, [9, 10]);
+  assert.deepEqual(Array.from(cron.daysOfWeek).sort(), [1, 2, 3, 4, 5]);
+  assert.equal(cronMatchesDate(cron, { month: 1, day: 8, weekday: 1 }), true);
+  assert.equal(cronMatchesDate(cron, { month: 1, day: 6, weekday: 6 }), false);
+});
+
+test('names and Sunday as 7 are accepted', () => {
+  const cron = parseCron('0 12 * jan,jul sun,7');
+
+  assert.deepEqual(Array.from(cron.months).sort((a, b) => a - b), [1, 7]);
+  assert.deepEqual(Array.from(cron.daysOfWeek), [0]);
+});
+
+test('invalid expressions are rejected', () => {
+  for (const expression of ['* * * *', '60 * * * *', '0 24 * * *', '*/0 * * * *', '0 10-9 * * *', '0 9 * * fun']) {
+    assert.throws(() => parseCron(expression), Error, expression);
+  }
+});
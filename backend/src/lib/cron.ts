@@ -0,0 +1,119 @@
+/**
+ * Five-field cron expressions (`minute hour day-of-month month day-of-week`)
+ * with `*`, lists, ranges, steps and three-letter month/day names.
+ */
+
+export type CronSchedule = {
+  minutes: number[];
+  hours: number[];
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  /** 0 = Sunday */
+  daysOfWeek: Set<number>;
+  /** Cron ORs day-of-month and day-of-week when both are restricted */
+  daysOfMonthRestricted: boolean;
+  daysOfWeekRestricted: boolean;
+};
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+type FieldSpec = { name: string; min: number; max: number; names?: string[]; nameOffset?: number };
+
+const FIELDS: FieldSpec[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: MONTH_NAMES, nameOffset: 1 },
+  // 7 is accepted as Sunday and folded to 0
+  { name: 'day of week', min: 0, max: 7, names: DAY_NAMES, nameOffset: 0 },
+];
+
+const parseValue = (raw: string, spec: FieldSpec) => {
+  const named = spec.names?.indexOf(raw.toLowerCase()) ?? -1;
+  const value = named >= 0 ? named + (spec.nameOffset ?? 0) : Number(raw);
+
+  if (!Number.isInteger(value) || value < spec.min || value > spec.max) {
+    throw new Error(`Invalid cron ${spec.name}: ${raw}`);
+  }
+
+  return value;
+};
+
+const parseField = (field: string, spec: FieldSpec) => {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const [range, stepRaw] = part.split('/');
+    const step = stepRaw === undefined ? 1 : Number(stepRaw);
+
+    if (!Number.isInteger(step) || step <= 0) {
+      throw new Error(`Invalid cron step in ${spec.name}: ${part}`);
+    }
+
+    let start: number;
+    let end: number;
+
+    if (range === '*') {
+      start = spec.min;
+      end = spec.max;
+    } else if (range.includes('-')) {
+      const [from, to] = range.split('-');
+      start = parseValue(from, spec);
+      end = parseValue(to, spec);
+      if (start > end) {
+        throw new Error(`Invalid cron range in ${spec.name}: ${range}`);
+      }
+    } else {
+      start = parseValue(range, spec);
+      end = stepRaw === undefined ? start : spec.max;
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+};
+
+export function parseCron(expression: string): CronSchedule {
+  const fields = expression.trim().split(/\s+/);
+
+  if (fields.length !== 5) {
+    throw new Error('Cron expressions need five fields: minute hour day-of-month month day-of-week');
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, index) => parseField(field, FIELDS[index]));
+
+  if (daysOfWeek.has(7)) {
+    daysOfWeek.delete(7);
+    daysOfWeek.add(0);
+  }
+
+  return {
+    minutes: Array.from(minutes).sort((a, b) => a - b),
+    hours: Array.from(hours).sort((a, b) => a - b),
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    daysOfMonthRestricted: fields[2] !== '*',
+    daysOfWeekRestricted: fields[4] !== '*',
+  };
+}
+
+/** Whether the schedule fires on a calendar date (weekday 0 = Sunday) */
+export function cronMatchesDate(cron: CronSchedule, date: { month: number; day: number; weekday: number }) {
+  if (!cron.months.has(date.month)) {
+    return false;
+  }
+
+  const domMatch = cron.daysOfMonth.has(date.day);
+  const dowMatch = cron.daysOfWeek.has(date.weekday);
+
+  if (cron.daysOfMonthRestricted && cron.daysOfWeekRestricted) {
+    return domMatch || dowMatch;
+  }
+
+  return domMatch && dowMatch;
+}
@@ -0,0 +1,79 @@
+/**
+ * Minimal RFC 4180 CSV reader.
+ *
+ * Supports quoted fields (with embedded commas, newlines and doubled
+ * quotes) and both LF and CRLF line endings. The first non-empty row is
+ * treated as the header; each following row becomes an object keyed by
+ * header name. Blank lines are skipped.
+ */
+export function parseCsv(text: string): Array<Record<string, string>> {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  const pushField = () => {
+    row.push(field);
+    field = '';
+  };
+
+  const pushRow = () => {
+    pushField();
+    if (row.some((value) => value.trim().length > 0)) {
+      rows.push(row);
+    }
+    row = [];
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      pushField();
+    } else if (char === '\n') {
+      pushRow();
+    } else if (char !== '\r') {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new Error('CSV contains an unterminated quoted field');
+  }
+
+  if (field.length > 0 || row.length > 0) {
+    pushRow();
+  }
+
+  const [header, ...records] = rows;
+
+  if (!header) {
+    return [];
+  }
+
+  const keys = header.map((key) => key.trim());
+
+  return records.map((values) => {
+    const record: Record<string, string> = {};
+    keys.forEach((key, index) => {
+      record[key] = (values[index] ?? '').trim();
+    });
+    return record;
+  });
+}
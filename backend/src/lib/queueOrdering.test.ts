@@ -0,0 +1,45 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { QueueOrderingMode } from '@prisma/client';
+import { orderQueueItems } from './queueOrdering';
+
+type Item = {
+  id: string;
+  addedById: string | null;
+  addedByGuestId: string | null;
+  voteScore: number;
+  createdAt: Date;
+};
+
+const queued = (requester: string, count: number, startMinute: number): Item[] =>
+  Array.from({ length: count }, (_, index) => ({
+    id: `${requester}-${index}`,
+    addedById: null,
+    addedByGuestId: requester,
+    voteScore: 0,
+    createdAt: new Date(Date.UTC(2024, 0, 1, 12, startMinute + index)),
+  }));
+
+test('round-robin takes turns across promotions instead of favouring the first bulk requester', () => {
+  let items = [...queued('alice', 5, 0), ...queued('bob', 2, 10), ...queued('carol', 1, 20)];
+  const lastPlayedAt = new Map<string, Date>();
+  const played: string[] = [];
+
+  for (let promotion = 0; promotion < 6; promotion++) {
+    const [next] = orderQueueItems(items, QueueOrderingMode.ROUND_ROBIN, lastPlayedAt);
+    played.push(next.addedByGuestId!);
+    lastPlayedAt.set(`guest:${next.addedByGuestId}`, new Date(Date.UTC(2024, 0, 1, 13, promotion)));
+    items = items.filter((item) => item.id !== next.id);
+  }
+
+  assert.deepEqual(played, ['alice', 'bob', 'carol', 'alice', 'bob', 'alice']);
+});
+
+test('round-robin puts requesters who have not been played yet ahead of those who have', () => {
+  const items = [...queued('alice', 2, 0), ...queued('bob', 1, 10)];
+  const lastPlayedAt = new Map([['guest:alice', new Date(Date.UTC(2024, 0, 1, 11))]]);
+
+  const ordered = orderQueueItems(items, QueueOrderingMode.ROUND_ROBIN, lastPlayedAt);
+
+  assert.deepEqual(ordered.map((item) => item.id), ['bob-0', 'alice-0', 'alice-1']);
+});
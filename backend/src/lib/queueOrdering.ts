@@ -0,0 +1,105 @@
+import { QueueOrderingMode } from '@prisma/client';
+
+/** Boost credits that rank the same as one upvote */
+export const BOOST_CREDITS_PER_VOTE = 10;
+
+export type OrderableQueueItem = {
+  id: string;
+  addedById: string | null;
+  addedByGuestId: string | null;
+  voteScore: number;
+  boostTotal?: number;
+  isCelebration?: boolean;
+  pinOrder?: number | null;
+  isAutoFill?: boolean;
+  createdAt: Date;
+};
+
+/** Votes plus boosts, with every `BOOST_CREDITS_PER_VOTE` boosted credits counting as one upvote */
+const rankScore = (item: OrderableQueueItem) => item.voteScore + (item.boostTotal ?? 0) / BOOST_CREDITS_PER_VOTE;
+
+const compareByVotes = (a: OrderableQueueItem, b: OrderableQueueItem) =>
+  rankScore(b) - rankScore(a) || a.createdAt.getTime() - b.createdAt.getTime();
+
+export const requesterKey = (item: Pick<OrderableQueueItem, 'id' | 'addedById' | 'addedByGuestId'>) => {
+  if (item.addedById) return `user:${item.addedById}`;
+  if (item.addedByGuestId) return `guest:${item.addedByGuestId}`;
+  return `item:${item.id}`;
+};
+
+/**
+ * Order unplayed queue items for the given mode.
+ *
+ * Celebration anthems always come first, oldest first, followed by pinned
+ * items in pin order. Round-robin gives each requester one slot per round,
+ * starting with whoever has gone longest without a track played (requesters
+ * not yet played first, in the order they first queued something), so an
+ * early bulk request cannot win every turn. Votes only decide which of a
+ * requester's own tracks fills their next slot; credit boosts count as
+ * extra votes. Auto-filled fallback tracks wait behind everything that was
+ * actually requested.
+ */
+export function orderQueueItems<T extends OrderableQueueItem>(
+  items: T[],
+  mode: QueueOrderingMode,
+  lastPlayedAt: Map<string, Date> = new Map()
+): T[] {
+  const autoFill = items.filter((item) => item.isAutoFill);
+
+  if (autoFill.length > 0) {
+    return [
+      ...orderQueueItems(items.filter((item) => !item.isAutoFill), mode, lastPlayedAt),
+      ...autoFill.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime()),
+    ];
+  }
+
+  const celebrations = items
+    .filter((item) => item.isCelebration)
+    .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+
+  if (celebrations.length > 0) {
+    return [...celebrations, ...orderQueueItems(items.filter((item) => !item.isCelebration), mode, lastPlayedAt)];
+  }
+
+  const pinned = items
+    .filter((item) => item.pinOrder != null)
+    .sort((a, b) => a.pinOrder! - b.pinOrder! || a.createdAt.getTime() - b.createdAt.getTime());
+
+  if (pinned.length > 0) {
+    return [...pinned, ...orderQueueItems(items.filter((item) => item.pinOrder == null), mode, lastPlayedAt)];
+  }
+
+  if (mode !== QueueOrderingMode.ROUND_ROBIN) {
+    return [...items].sort(compareByVotes);
+  }
+
+  const lanes = new Map<string, T[]>();
+  const byRequestTime = [...items].sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+
+  for (const item of byRequestTime) {
+    const key = requesterKey(item);
+    const lane = lanes.get(key);
+    if (lane) {
+      lane.push(item);
+    } else {
+      lanes.set(key, [item]);
+    }
+  }
+
+  const lastPlayed = (lane: T[]) => lastPlayedAt.get(requesterKey(lane[0]))?.getTime() ?? -Infinity;
+  // Stable sort, so requesters tied on last play keep first-request order
+  const sortedLanes = Array.from(lanes.values())
+    .sort((a, b) => lastPlayed(a) - lastPlayed(b))
+    .map((lane) => lane.sort(compareByVotes));
+  const ordered: T[] = [];
+
+  for (let round = 0; ordered.length < items.length; round++) {
+    for (const lane of sortedLanes) {
+      if (round < lane.length) {
+        ordered.push(lane[round]);
+      }
+    }
+  }
+
+  return ordered;
+}
@@ -0,0 +1,29 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { requesterRefund } from './queueRefund';
+
+type Balance = { currentCredits: number; bonusCredits: number };
+
+const removeItem = (balance: Balance, item: Parameters<typeof requesterRefund>[0]): Balance => {
+  const refund = requesterRefund(item);
+  return {
+    currentCredits: balance.currentCredits + refund.daily,
+    bonusCredits: balance.bonusCredits + refund.bonus,
+  };
+};
+
+test('removing a guest celebration anthem leaves their balance unchanged', () => {
+  const balance = { currentCredits: 40, bonusCredits: 3 };
+  const celebration = { creditsSpent: 0, bonusCreditsSpent: 0 };
+
+  assert.deepEqual(removeItem(balance, celebration), balance);
+});
+
+test('removing a paid track gives back what was charged, split as it was paid', () => {
+  const balance = { currentCredits: 40, bonusCredits: 0 };
+
+  assert.deepEqual(removeItem(balance, { creditsSpent: 10, bonusCreditsSpent: 4 }), {
+    currentCredits: 46,
+    bonusCredits: 4,
+  });
+});
@@ -0,0 +1,20 @@
+import type { CreditSplit } from '../services/credit.service';
+
+/** What a requester was charged to queue an item, as stored on the item */
+export type QueueItemCharge = {
+  creditsSpent: number;
+  /** Part of `creditsSpent` paid from earned bonus credits */
+  bonusCreditsSpent: number;
+};
+
+/**
+ * What to pay a requester back when their item leaves the queue early:
+ * exactly what they were charged, split the way it was paid. Items that
+ * cost nothing, such as celebration anthems, refund nothing.
+ */
+export function requesterRefund(item: QueueItemCharge): CreditSplit {
+  const spent = Math.max(0, item.creditsSpent);
+  const bonus = Math.min(Math.max(0, item.bonusCreditsSpent), spent);
+
+  return { daily: spent - bonus, bonus };
+}
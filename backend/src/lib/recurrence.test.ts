@@ -0,0 +1,63 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { nextOccurrence, RecurrenceRule } from './recurrence';
+
+const NEW_YORK = 'America/New_York';
+const NINE_AM = 9 * 60;
+
+const rule = (overrides: Partial<RecurrenceRule>): RecurrenceRule => ({
+  type: 'DAILY',
+  weekdays: null,
+  intervalDays: null,
+  cron: null,
+  startDate: null,
+  endDate: null,
+  ...overrides,
+});
+
+const next = (recurrence: RecurrenceRule, reference: string, timeZone = 'UTC', minutes = NINE_AM) =>
+  nextOccurrence(recurrence, minutes, timeZone, new Date(reference))?.toISOString() ?? null;
+
+test('a daily run keeps its local time when clocks spring forward', () => {
+  // 09:00 EST is 14:00Z; the next day 09:00 EDT is 13:00Z
+  assert.equal(next(rule({}), '2024-03-09T14:00:00Z', NEW_YORK), '2024-03-10T13:00:00.000Z');
+});
+
+test('a daily run keeps its local time when clocks fall back', () => {
+  assert.equal(next(rule({}), '2024-11-02T13:00:00Z', NEW_YORK), '2024-11-03T14:00:00.000Z');
+});
+
+test('a daily run inside the spring-forward gap runs just after it', () => {
+  assert.equal(next(rule({}), '2024-03-09T12:00:00Z', NEW_YORK, 2 * 60 + 30), '2024-03-10T07:30:00.000Z');
+});
+
+test('a weekly rule runs only on its weekdays', () => {
+  const mondayFriday = rule({ type: 'WEEKLY', weekdays: [1, 5] });
+
+  // Wednesday 3 January 2024
+  assert.equal(next(mondayFriday, '2024-01-03T12:00:00Z'), '2024-01-05T09:00:00.000Z');
+  assert.equal(next(mondayFriday, '2024-01-05T09:00:00Z'), '2024-01-08T09:00:00.000Z');
+});
+
+test('every-N-days counts from the start date, not from the reference', () => {
+  const everyThree = rule({ type: 'EVERY_N_DAYS', intervalDays: 3, startDate: '2024-01-10' });
+
+  assert.equal(next(everyThree, '2024-01-01T00:00:00Z'), '2024-01-10T09:00:00.000Z');
+  assert.equal(next(everyThree, '2024-01-11T00:00:00Z'), '2024-01-13T09:00:00.000Z');
+});
+
+test('no occurrence is returned after the end date', () => {
+  const ending = rule({ endDate: '2024-01-05' });
+
+  assert.equal(next(ending, '2024-01-05T08:00:00Z'), '2024-01-05T09:00:00.000Z');
+  assert.equal(next(ending, '2024-01-05T10:00:00Z'), null);
+});
+
+test('a cron rule runs at each of its times on matching days', () => {
+  const weekdayMornings = rule({ type: 'CRON', cron: '*/30 9-10 * * 1-5' });
+
+  // Saturday 6 January 2024
+  assert.equal(next(weekdayMornings, '2024-01-06T12:00:00Z'), '2024-01-08T09:00:00.000Z');
+  assert.equal(next(weekdayMornings, '2024-01-08T09:00:00Z'), '2024-01-08T09:30:00.000Z');
+  assert.equal(next(weekdayMornings, '2024-01-08T10:30:00Z'), '2024-01-09T09:00:00.000Z');
+});
@@ -0,0 +1,194 @@
+import { cronMatchesDate, parseCron } from './cron';
+import { addDays, fromZonedDateTime, toZonedDateTime, ZonedDateTime } from './timezone';
+
+/** Mirrors the `ScheduleRecurrence` Prisma enum */
+export type RecurrenceType = 'DAILY' | 'WEEKLY' | 'EVERY_N_DAYS' | 'CRON';
+
+export const RECURRENCE_TYPES: RecurrenceType[] = ['DAILY', 'WEEKLY', 'EVERY_N_DAYS', 'CRON'];
+
+export type RecurrenceRule = {
+  type: RecurrenceType;
+  /** WEEKLY: days to run on, 0 = Sunday */
+  weekdays: number[] | null;
+  /** EVERY_N_DAYS: counted from `startDate` */
+  intervalDays: number | null;
+  /** CRON: five-field expression; its hour/minute replace the time of day */
+  cron: string | null;
+  /** Inclusive local dates (YYYY-MM-DD) in the schedule's zone */
+  startDate: string | null;
+  endDate: string | null;
+};
+
+export type RecurrenceInput = {
+  type?: unknown;
+  weekdays?: unknown;
+  intervalDays?: unknown;
+  cron?: unknown;
+  startDate?: unknown;
+  endDate?: unknown;
+};
+
+const MAX_INTERVAL_DAYS = 365;
+/** Far enough for yearly cron rules such as Feb 29 */
+const MAX_LOOKAHEAD_DAYS = 366 * 8;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+const parseLocalDate = (value: string) => {
+  const match = DATE_PATTERN.exec(value);
+  if (!match) {
+    return null;
+  }
+
+  const [year, month, day] = match.slice(1).map(Number);
+  const check = new Date(Date.UTC(year, month - 1, day));
+
+  if (check.getUTCFullYear() !== year || check.getUTCMonth() !== month - 1 || check.getUTCDate() !== day) {
+    return null;
+  }
+
+  return { year, month, day };
+};
+
+const dayNumber = (date: { year: number; month: number; day: number }) =>
+  Math.floor(Date.UTC(date.year, date.month - 1, date.day) / MS_PER_DAY);
+
+export const formatLocalDate = (date: { year: number; month: number; day: number }) =>
+  `${date.year}-${String(date.month).padStart(2, '0')}-${String(date.day).padStart(2, '0')}`;
+
+const normalizeDate = (value: unknown, field: string) => {
+  if (value === undefined || value === null || value === '') {
+    return null;
+  }
+
+  if (typeof value !== 'string' || !parseLocalDate(value)) {
+    throw new Error(`${field} must be a date in YYYY-MM-DD format.`);
+  }
+
+  return value;
+};
+
+/**
+ * Validate a recurrence from the API. `today` (YYYY-MM-DD in the schedule's
+ * zone) anchors every-N-days rules that don't give a start date.
+ */
+export function normalizeRecurrence(input: RecurrenceInput | undefined, today: string): RecurrenceRule {
+  const type = (input?.type ?? 'DAILY') as RecurrenceType;
+
+  if (!RECURRENCE_TYPES.includes(type)) {
+    throw new Error(`Recurrence type must be one of ${RECURRENCE_TYPES.join(', ')}.`);
+  }
+
+  const rule: RecurrenceRule = {
+    type,
+    weekdays: null,
+    intervalDays: null,
+    cron: null,
+    startDate: normalizeDate(input?.startDate, 'startDate'),
+    endDate: normalizeDate(input?.endDate, 'endDate'),
+  };
+
+  if (rule.startDate && rule.endDate && rule.endDate < rule.startDate) {
+    throw new Error('endDate must be on or after startDate.');
+  }
+
+  if (type === 'WEEKLY') {
+    const weekdays = Array.isArray(input?.weekdays) ? input.weekdays : [];
+    const valid = weekdays.every((day) => Number.isInteger(day) && day >= 0 && day <= 6);
+
+    if (weekdays.length === 0 || !valid) {
+      throw new Error('Weekly schedules need at least one weekday (0 = Sunday … 6 = Saturday).');
+    }
+
+    rule.weekdays = Array.from(new Set(weekdays as number[])).sort((a, b) => a - b);
+  }
+
+  if (type === 'EVERY_N_DAYS') {
+    const interval = input?.intervalDays;
+
+    if (typeof interval !== 'number' || !Number.isInteger(interval) || interval < 1 || interval > MAX_INTERVAL_DAYS) {
+      throw new Error(`intervalDays must be a whole number between 1 and ${MAX_INTERVAL_DAYS}.`);
+    }
+
+    rule.intervalDays = interval;
+    rule.startDate = rule.startDate ?? today;
+  }
+
+  if (type === 'CRON') {
+    if (typeof input?.cron !== 'string' || input.cron.trim().length === 0) {
+      throw new Error('A cron expression is required for cron schedules.');
+    }
+
+    parseCron(input.cron);
+    rule.cron = input.cron.trim().replace(/\s+/g, ' ');
+  }
+
+  return rule;
+}
+
+const matchesDay = (rule: RecurrenceRule, date: ZonedDateTime, cron: ReturnType<typeof parseCron> | null) => {
+  const weekday = new Date(Date.UTC(date.year, date.month - 1, date.day)).getUTCDay();
+
+  switch (rule.type) {
+    case 'WEEKLY':
+      return rule.weekdays?.includes(weekday) ?? false;
+    case 'EVERY_N_DAYS': {
+      const anchor = rule.startDate ? parseLocalDate(rule.startDate) : null;
+      if (!anchor || !rule.intervalDays) return false;
+      return (dayNumber(date) - dayNumber(anchor)) % rule.intervalDays === 0;
+    }
+    case 'CRON':
+      return cron ? cronMatchesDate(cron, { month: date.month, day: date.day, weekday }) : false;
+    default:
+      return true;
+  }
+};
+
+/**
+ * The first occurrence strictly after `reference`, or null once the rule
+ * has passed its end date.
+ */
+export function nextOccurrence(
+  rule: RecurrenceRule,
+  timeOfDayMinutes: number,
+  timeZone: string,
+  reference: Date,
+): Date | null {
+  const cron = rule.type === 'CRON' && rule.cron ? parseCron(rule.cron) : null;
+  const times = cron
+    ? cron.hours.flatMap((hour) => cron.minutes.map((minute) => ({ hour, minute })))
+    : [{ hour: Math.floor(timeOfDayMinutes / 60), minute: timeOfDayMinutes % 60 }];
+
+  const referenceLocal = toZonedDateTime(reference, timeZone);
+  const start = rule.startDate ? parseLocalDate(rule.startDate) : null;
+  const end = rule.endDate ? parseLocalDate(rule.endDate) : null;
+
+  const firstDayOffset = start ? Math.max(0, dayNumber(start) - dayNumber(referenceLocal)) : 0;
+
+  for (let offset = firstDayOffset; offset <= firstDayOffset + MAX_LOOKAHEAD_DAYS; offset += 1) {
+    const day = addDays(referenceLocal, offset);
+
+    if (end && dayNumber(day) > dayNumber(end)) {
+      return null;
+    }
+
+    if (!matchesDay(rule, day, cron)) {
+      continue;
+    }
+
+    for (const time of times) {
+      const candidate = fromZonedDateTime({ ...day, ...time }, timeZone);
+      if (candidate.getTime() > reference.getTime()) {
+        return candidate;
+      }
+    }
+  }
+
+  return null;
+}
+
+/** Today's date (YYYY-MM-DD) in a zone */
+export function localDateIn(timeZone: string, reference = new Date()) {
+  return formatLocalDate(toZonedDateTime(reference, timeZone));
+}
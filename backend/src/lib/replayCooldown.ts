@@ -0,0 +1,112 @@
+export type ReplayCooldownSettings = {
+  /** Minutes; 0 turns the cooldown off */
+  trackCooldownMinutes: number;
+  artistCooldownMinutes: number;
+};
+
+export type PlayedTrack = {
+  spotifyTrackId: string;
+  artistSpotifyIds: string[];
+  playedAt: Date;
+};
+
+/** When each recently played track and artist can be requested again */
+export type ReplayCooldowns = {
+  tracks: Map<string, Date>;
+  artists: Map<string, Date>;
+};
+
+export type ReplayCooldown = {
+  reason: 'track' | 'artist';
+  availableAt: Date;
+};
+
+const MINUTE_MS = 60 * 1000;
+
+/** Artist IDs are stored as a JSON array string; anything unreadable counts as none */
+export function parseArtistIds(value: string | null | undefined): string[] {
+  try {
+    const parsed = JSON.parse(value ?? '[]');
+    return Array.isArray(parsed) ? parsed.filter((id): id is string => typeof id === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+/** The oldest play that can still hold a cooldown, or null when both are off */
+export function cooldownCutoff(settings: ReplayCooldownSettings, now = new Date()) {
+  const longest = Math.max(settings.trackCooldownMinutes, settings.artistCooldownMinutes);
+  return longest > 0 ? new Date(now.getTime() - longest * MINUTE_MS) : null;
+}
+
+export function buildReplayCooldowns(
+  played: PlayedTrack[],
+  settings: ReplayCooldownSettings,
+  now = new Date()
+): ReplayCooldowns {
+  const cooldowns: ReplayCooldowns = { tracks: new Map(), artists: new Map() };
+
+  const extend = (map: Map<string, Date>, id: string, availableAt: Date) => {
+    const current = map.get(id);
+    if (availableAt > now && (!current || availableAt > current)) {
+      map.set(id, availableAt);
+    }
+  };
+
+  for (const item of played) {
+    if (settings.trackCooldownMinutes > 0) {
+      extend(cooldowns.tracks, item.spotifyTrackId, new Date(item.playedAt.getTime() + settings.trackCooldownMinutes * MINUTE_MS));
+    }
+
+    if (settings.artistCooldownMinutes > 0) {
+      const availableAt = new Date(item.playedAt.getTime() + settings.artistCooldownMinutes * MINUTE_MS);
+      item.artistSpotifyIds.forEach((artistId) => extend(cooldowns.artists, artistId, availableAt));
+    }
+  }
+
+  return cooldowns;
+}
+
+/** The cooldown holding a track back, preferring whichever lasts longer */
+export function findReplayCooldown(
+  spotifyTrackId: string,
+  artistSpotifyIds: string[],
+  cooldowns: ReplayCooldowns
+): ReplayCooldown | null {
+  let result: ReplayCooldown | null = null;
+  const trackAvailableAt = cooldowns.tracks.get(spotifyTrackId);
+
+  if (trackAvailableAt) {
+    result = { reason: 'track', availableAt: trackAvailableAt };
+  }
+
+  for (const artistId of artistSpotifyIds) {
+    const availableAt = cooldowns.artists.get(artistId);
+    if (availableAt && (!result || availableAt > result.availableAt)) {
+      result = { reason: 'artist', availableAt };
+    }
+  }
+
+  return result;
+}
+
+/** "45 min" or "2 h 15 min" until the cooldown ends */
+export function formatCooldownWait(availableAt: Date, now = new Date()) {
+  const minutes = Math.max(1, Math.ceil((availableAt.getTime() - now.getTime()) / MINUTE_MS));
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+
+  if (hours === 0) {
+    return `${minutes} min`;
+  }
+
+  return rest === 0 ? `${hours} h` : `${hours} h ${rest} min`;
+}
+
+export function replayCooldownMessage(cooldown: ReplayCooldown, now = new Date()) {
+  const wait = formatCooldownWait(cooldown.availableAt, now);
+
+  return cooldown.reason === 'track'
+    ? `Track was played recently and can be requested again in ${wait}`
+    : `This artist was played recently and can be requested again in ${wait}`;
+}
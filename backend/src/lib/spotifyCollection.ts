@@ -0,0 +1,42 @@
+export type SpotifyCollectionKind = 'playlist' | 'album';
+
+export type SpotifyCollectionRef = {
+  kind: SpotifyCollectionKind;
+  id: string;
+};
+
+const ID_PATTERN = /^[A-Za-z0-9]{22}$/;
+const KINDS: SpotifyCollectionKind[] = ['playlist', 'album'];
+
+/**
+ * Pull a playlist or album out of whatever the host pasted: a share link
+ * (`https://open.spotify.com/intl-de/playlist/<id>?si=...`) or a URI
+ * (`spotify:album:<id>`, including legacy `spotify:user:<name>:playlist:<id>`).
+ */
+export function parseSpotifyCollection(input: string): SpotifyCollectionRef | null {
+  const value = input.trim();
+  let segments: string[];
+
+  if (value.startsWith('spotify:')) {
+    segments = value.split(':').slice(1);
+  } else {
+    try {
+      const url = new URL(value);
+      if (url.hostname !== 'spotify.com' && !url.hostname.endsWith('.spotify.com')) {
+        return null;
+      }
+      segments = url.pathname.split('/').filter(Boolean);
+    } catch {
+      return null;
+    }
+  }
+
+  const kindIndex = segments.findIndex((segment) => KINDS.includes(segment as SpotifyCollectionKind));
+  const id = kindIndex >= 0 ? segments[kindIndex + 1] : undefined;
+
+  if (!id || !ID_PATTERN.test(id)) {
+    return null;
+  }
+
+  return { kind: segments[kindIndex] as SpotifyCollectionKind, id };
+}
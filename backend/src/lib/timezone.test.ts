@@ -0,0 +1,32 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { fromZonedDateTime } from './timezone';
+
+const NEW_YORK = 'America/New_York';
+
+test('wall-clock times map to the zone offset in force on that date', () => {
+  assert.equal(
+    fromZonedDateTime({ year: 2024, month: 1, day: 15, hour: 9, minute: 0 }, NEW_YORK).toISOString(),
+    '2024-01-15T14:00:00.000Z',
+  );
+  assert.equal(
+    fromZonedDateTime({ year: 2024, month: 7, day: 1, hour: 9, minute: 0 }, NEW_YORK).toISOString(),
+    '2024-07-01T13:00:00.000Z',
+  );
+});
+
+test('a time skipped when clocks spring forward lands just after the gap', () => {
+  // 02:30 never happens on 10 March 2024; it becomes 03:30 EDT
+  assert.equal(
+    fromZonedDateTime({ year: 2024, month: 3, day: 10, hour: 2, minute: 30 }, NEW_YORK).toISOString(),
+    '2024-03-10T07:30:00.000Z',
+  );
+});
+
+test('a time repeated when clocks fall back resolves to its earlier occurrence', () => {
+  // 01:30 happens twice on 3 November 2024; the EDT one comes first
+  assert.equal(
+    fromZonedDateTime({ year: 2024, month: 11, day: 3, hour: 1, minute: 30 }, NEW_YORK).toISOString(),
+    '2024-11-03T05:30:00.000Z',
+  );
+});
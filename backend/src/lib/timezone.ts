@@ -0,0 +1,128 @@
+/**
+ * Minimal IANA time zone helpers built on Intl, so schedules follow each
+ * zone's DST rules without pulling in a date library.
+ */
+
+export type ZonedDateTime = {
+  year: number;
+  /** 1-12 */
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+};
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string) => {
+  let formatter = formatterCache.get(timeZone);
+
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+
+  return formatter;
+};
+
+export function isValidTimeZone(timeZone: unknown): timeZone is string {
+  if (typeof timeZone !== 'string' || timeZone.trim().length === 0) {
+    return false;
+  }
+
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Wall-clock date and time of `instant` in `timeZone` */
+export function toZonedDateTime(instant: Date, timeZone: string): ZonedDateTime & { second: number } {
+  const parts = Object.fromEntries(
+    getFormatter(timeZone)
+      .formatToParts(instant)
+      .filter((part) => part.type !== 'literal')
+      .map((part) => [part.type, Number(part.value)]),
+  );
+
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second,
+  };
+}
+
+/** UTC offset of `timeZone` at `instant`, in minutes east of UTC */
+export function getTimeZoneOffsetMinutes(instant: Date, timeZone: string) {
+  const local = toZonedDateTime(instant, timeZone);
+  const asUtc = Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute, local.second);
+  const truncated = Math.floor(instant.getTime() / 1000) * 1000;
+  return Math.round((asUtc - truncated) / 60000);
+}
+
+const sameWallClock = (a: ZonedDateTime, b: ZonedDateTime) =>
+  a.year === b.year && a.month === b.month && a.day === b.day && a.hour === b.hour && a.minute === b.minute;
+
+/**
+ * The instant a wall-clock time occurs in `timeZone`. When clocks fall back
+ * the earlier occurrence wins; when they spring forward over the time, the
+ * result lands just after the gap (02:30 becomes 03:30).
+ */
+export function fromZonedDateTime(local: ZonedDateTime, timeZone: string): Date {
+  const asUtc = Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute);
+
+  const candidates = Array.from(new Set([
+    asUtc - getTimeZoneOffsetMinutes(new Date(asUtc), timeZone) * 60000,
+    asUtc - getTimeZoneOffsetMinutes(new Date(asUtc - 24 * 60 * 60000), timeZone) * 60000,
+    asUtc - getTimeZoneOffsetMinutes(new Date(asUtc + 24 * 60 * 60000), timeZone) * 60000,
+  ])).sort((a, b) => a - b);
+
+  const exact = candidates.find((candidate) => sameWallClock(toZonedDateTime(new Date(candidate), timeZone), local));
+
+  return new Date(exact ?? candidates[candidates.length - 1]);
+}
+
+/** Calendar arithmetic on a zoned date, ignoring the time of day */
+export function addDays(local: ZonedDateTime, days: number): ZonedDateTime {
+  const shifted = new Date(Date.UTC(local.year, local.month - 1, local.day + days));
+
+  return {
+    ...local,
+    year: shifted.getUTCFullYear(),
+    month: shifted.getUTCMonth() + 1,
+    day: shifted.getUTCDate(),
+  };
+}
+
+/**
+ * Closest IANA zone for a fixed `Date#getTimezoneOffset()` value. Only whole
+ * hours have `Etc/GMT±N` names; other offsets return null. Note the POSIX
+ * sign inversion: `Etc/GMT+5` is UTC-5.
+ */
+export function timeZoneForFixedOffset(timezoneOffsetMinutes: number): string | null {
+  if (timezoneOffsetMinutes === 0) {
+    return 'UTC';
+  }
+
+  if (timezoneOffsetMinutes % 60 !== 0) {
+    return null;
+  }
+
+  const hours = timezoneOffsetMinutes / 60;
+  const zone = `Etc/GMT${hours > 0 ? '+' : '-'}${Math.abs(hours)}`;
+  return isValidTimeZone(zone) ? zone : null;
+}
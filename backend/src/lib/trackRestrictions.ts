@@ -0,0 +1,61 @@
+/** Session rules a Spotify track must pass before guests or the host can queue it */
+export type TrackRestrictions = {
+  allowExplicit: boolean;
+  /** Minutes; null for no limit */
+  maxSongDuration: number | null;
+  bannedTrackIds: string[];
+  bannedArtistIds: string[];
+};
+
+/**
+ * Why a Spotify track object breaks the session rules, or null if it may be
+ * queued. Messages match the ones the queue raises when adding a track.
+ */
+export function trackRejectionReason(track: any, restrictions: TrackRestrictions): string | null {
+  if (!restrictions.allowExplicit && track?.explicit) {
+    return 'Explicit tracks are disabled for this session';
+  }
+
+  if (restrictions.bannedTrackIds.includes(track?.id)) {
+    return 'Track has been banned by the host';
+  }
+
+  const artists: any[] = Array.isArray(track?.artists) ? track.artists : [];
+  const bannedArtist = artists.find((artist) => artist?.id && restrictions.bannedArtistIds.includes(artist.id));
+
+  if (bannedArtist) {
+    return `Artist "${bannedArtist.name}" has been banned by the host`;
+  }
+
+  if (restrictions.maxSongDuration && track?.duration_ms) {
+    const trackDurationMinutes = track.duration_ms / 60000;
+    if (trackDurationMinutes > restrictions.maxSongDuration) {
+      return `Track duration (${Math.ceil(trackDurationMinutes)} min) exceeds the session limit of ${restrictions.maxSongDuration} minutes`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Split tracks into the ones that may be queued and the ones that may not,
+ * keeping order. Repeats of a track are rejected after its first appearance.
+ */
+export function screenTracks(tracks: any[], restrictions: TrackRestrictions) {
+  const accepted: any[] = [];
+  const rejected: Array<{ track: any; reason: string }> = [];
+  const seen = new Set<string>();
+
+  for (const track of tracks) {
+    const reason = seen.has(track?.id) ? 'Listed more than once' : trackRejectionReason(track, restrictions);
+    seen.add(track?.id);
+
+    if (reason) {
+      rejected.push({ track, reason });
+    } else {
+      accepted.push(track);
+    }
+  }
+
+  return { accepted, rejected };
+}
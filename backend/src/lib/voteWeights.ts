@@ -0,0 +1,57 @@
+/** Logto role name (lower-cased) → how many points one vote from that role is worth */
+export type VoteWeights = Record<string, number>;
+
+export const MAX_VOTE_WEIGHT = 10;
+const MAX_WEIGHTED_ROLES = 20;
+
+/** Weights are stored as a JSON object string; anything unreadable counts as none */
+export function parseVoteWeights(value: string | null | undefined): VoteWeights {
+  try {
+    const parsed = JSON.parse(value ?? '{}');
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      return {};
+    }
+
+    return Object.fromEntries(
+      Object.entries(parsed).filter((entry): entry is [string, number] => typeof entry[1] === 'number')
+    );
+  } catch {
+    return {};
+  }
+}
+
+/** Validate weights sent by a host; throws with a message fit for a 400 */
+export function normalizeVoteWeights(input: unknown): VoteWeights {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    throw new Error('voteWeights must be an object of role names to weights');
+  }
+
+  const entries = Object.entries(input as Record<string, unknown>);
+
+  if (entries.length > MAX_WEIGHTED_ROLES) {
+    throw new Error(`voteWeights can list at most ${MAX_WEIGHTED_ROLES} roles`);
+  }
+
+  const weights: VoteWeights = {};
+
+  for (const [role, weight] of entries) {
+    const key = role.trim().toLowerCase();
+
+    if (!key) {
+      throw new Error('voteWeights role names cannot be empty');
+    }
+
+    if (typeof weight !== 'number' || !Number.isInteger(weight) || weight < 1 || weight > MAX_VOTE_WEIGHT) {
+      throw new Error(`Vote weight for "${role}" must be a whole number from 1 to ${MAX_VOTE_WEIGHT}`);
+    }
+
+    weights[key] = weight;
+  }
+
+  return weights;
+}
+
+/** The heaviest weight any of the roles carries; 1 when none are weighted */
+export function voteWeightForRoles(weights: VoteWeights, roles: string[] | undefined) {
+  return (roles ?? []).reduce((weight, role) => Math.max(weight, weights[role.toLowerCase()] ?? 1), 1);
+}
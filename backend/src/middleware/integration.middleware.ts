@@ -0,0 +1,36 @@
+import crypto from 'crypto';
+import type { Request, Response, NextFunction } from 'express';
+import { config } from '../config';
+import { hasElevatedRole } from '../services/credit.service';
+
+function matchesIntegrationKey(candidate: string): boolean {
+  const expected = config.integrations.apiKey;
+  if (!expected || candidate.length !== expected.length) {
+    return false;
+  }
+
+  return crypto.timingSafeEqual(Buffer.from(candidate), Buffer.from(expected));
+}
+
+/**
+ * Route-level middleware for server-to-server endpoints (CRM webhooks,
+ * metrics ingestion).
+ *
+ * Accepts either the shared `X-Integration-Key` header, or a Logto JWT whose
+ * roles include Manager / Super Admin so the same endpoints can be driven
+ * by hand from an authenticated browser.
+ */
+export function requireIntegrationAuth(req: Request, res: Response, next: NextFunction) {
+  const header = req.headers['x-integration-key'];
+  const key = Array.isArray(header) ? header[0] : header;
+
+  if (typeof key === 'string' && key.length > 0 && matchesIntegrationKey(key)) {
+    return next();
+  }
+
+  if (req.auth?.userId && hasElevatedRole(req.auth.roles)) {
+    return next();
+  }
+
+  return res.status(401).json({ error: 'Not authorized for integration access' });
+}
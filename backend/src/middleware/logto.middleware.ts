@@ -1,6 +1,7 @@
 import type { Request, Response, NextFunction, RequestHandler } from 'express';
 import { PrismaClient } from '@prisma/client';
 import { verifyLogtoToken } from '../lib/logto';
+import { hasElevatedRole } from '../services/credit.service';
 
 const prisma = new PrismaClient();
 
@@ -75,6 +76,23 @@ export function requireLogtoAuth(req: Request, res: Response, next: NextFunction
   return res.status(401).json({ error: 'Not authenticated' });
 }
 
+/**
+ * Route-level middleware that requires a Logto JWT carrying the Manager or
+ * Super Admin role. Unlike `requireLogtoAuth` there is no host-session
+ * fallback — roles only exist on the token.
+ */
+export function requireElevatedRole(req: Request, res: Response, next: NextFunction) {
+  if (!req.auth?.userId) {
+    return res.status(401).json({ error: 'Not authenticated' });
+  }
+
+  if (!hasElevatedRole(req.auth.roles)) {
+    return res.status(403).json({ error: 'Manager role required' });
+  }
+
+  return next();
+}
+
 /**
  * Session-repair middleware.
  *
@@ -126,7 +144,8 @@ export const repairSession: RequestHandler = async (req, _res, next) => {
     if (!req.session.guestSessions || Object.keys(req.session.guestSessions).length === 0) {
       try {
         const guests = await prisma.guest.findMany({
-          where: { clerkUserId: logtoUserId },
+          // Kicked guests have to join again rather than being restored
+          where: { clerkUserId: logtoUserId, kickedAt: null },
           include: { session: { select: { isActive: true } } },
         });
         if (guests.length > 0) {
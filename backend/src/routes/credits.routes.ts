@@ -0,0 +1,15 @@
+import { Router } from 'express';
+import { creditController } from '../controllers/credit.controller';
+import { requireElevatedRole, requireLogtoAuth } from '../middleware/logto.middleware';
+
+const router = Router();
+
+router.get('/me/history', requireLogtoAuth, creditController.getMyHistory);
+router.get('/me/grants', requireLogtoAuth, creditController.getMyGrants);
+router.get('/users/:userId/history', requireLogtoAuth, creditController.getUserHistory);
+router.get('/rules', requireElevatedRole, creditController.listRules);
+router.post('/rules', requireElevatedRole, creditController.createRule);
+router.patch('/rules/:ruleId', requireElevatedRole, creditController.updateRule);
+router.delete('/rules/:ruleId', requireElevatedRole, creditController.deleteRule);
+
+export default router;
@@ -1,13 +1,18 @@
 import { Router } from 'express';
 import { queueController } from '../controllers/queue.controller';
-import { optionalAuth } from '../middleware/auth.middleware';
+import { optionalAuth, requireAuth } from '../middleware/auth.middleware';
 import { requireLogtoAuth } from '../middleware/logto.middleware';
 
 const router = Router();
 
 router.post('/:sessionId/add', requireLogtoAuth, optionalAuth, queueController.add);
+router.post('/:sessionId/import', requireLogtoAuth, optionalAuth, queueController.importCollection);
 router.get('/:sessionId', queueController.get);
 router.delete('/:queueItemId', requireLogtoAuth, optionalAuth, queueController.remove);
 router.post('/:queueItemId/vote', requireLogtoAuth, optionalAuth, queueController.vote);
+router.post('/:queueItemId/boost', requireLogtoAuth, optionalAuth, queueController.boost);
+router.post('/:queueItemId/veto', requireLogtoAuth, optionalAuth, queueController.veto);
+router.post('/:queueItemId/move', requireLogtoAuth, requireAuth, queueController.move);
+router.delete('/:queueItemId/pin', requireLogtoAuth, requireAuth, queueController.unpin);
 
 export default router;
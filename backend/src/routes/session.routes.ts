@@ -4,6 +4,11 @@ import { requireAuth } from '../middleware/auth.middleware';
 import { requireLogtoAuth } from '../middleware/logto.middleware';
 import { scheduledPlaybackController } from '../controllers/scheduledPlayback.controller';
 import { bannedTrackController } from '../controllers/bannedTrack.controller';
+import { leaderboardController } from '../controllers/leaderboard.controller';
+import { celebrationController } from '../controllers/celebration.controller';
+import { fallbackController } from '../controllers/fallback.controller';
+import { moderationController } from '../controllers/moderation.controller';
+import { requireIntegrationAuth } from '../middleware/integration.middleware';
 
 const router = Router();
 
@@ -15,13 +20,32 @@ router.get('/recent', requireLogtoAuth, requireAuth, sessionController.getRecent
 router.get('/:id/scheduled-playback', requireLogtoAuth, scheduledPlaybackController.list);
 router.get('/:id/banned-track-lists', requireLogtoAuth, requireAuth, bannedTrackController.list);
 router.get('/:id/participant', requireLogtoAuth, sessionController.getParticipant);
+router.get('/:id/presence', requireLogtoAuth, requireAuth, sessionController.getPresence);
+router.get('/:id/leaderboard', requireLogtoAuth, leaderboardController.getForSession);
+router.get('/:id/anthem', requireLogtoAuth, celebrationController.getMyAnthem);
+router.put('/:id/anthem', requireLogtoAuth, celebrationController.setMyAnthem);
+router.delete('/:id/anthem', requireLogtoAuth, celebrationController.removeMyAnthem);
+router.post('/:id/celebrate', requireIntegrationAuth, celebrationController.celebrate);
 router.post('/:id/scheduled-playback', requireLogtoAuth, requireAuth, scheduledPlaybackController.create);
+router.get('/:id/scheduled-playback/:scheduleId/runs', requireLogtoAuth, scheduledPlaybackController.runs);
+router.post('/:id/scheduled-playback/:scheduleId/rerun', requireLogtoAuth, requireAuth, scheduledPlaybackController.rerun);
+router.patch('/:id/scheduled-playback/:scheduleId', requireLogtoAuth, requireAuth, scheduledPlaybackController.update);
 router.delete('/:id/scheduled-playback/:scheduleId', requireLogtoAuth, requireAuth, scheduledPlaybackController.cancel);
 router.post('/:id/banned-track-lists', requireLogtoAuth, requireAuth, bannedTrackController.createList);
 router.post('/:id/banned-track-lists/:listId/tracks', requireLogtoAuth, requireAuth, bannedTrackController.addTrack);
 router.delete('/:id/banned-track-lists/:listId/tracks/:trackId', requireLogtoAuth, requireAuth, bannedTrackController.removeTrack);
 router.post('/:id/banned-track-lists/:listId/artists', requireLogtoAuth, requireAuth, bannedTrackController.addArtist);
 router.delete('/:id/banned-track-lists/:listId/artists/:artistId', requireLogtoAuth, requireAuth, bannedTrackController.removeArtist);
+router.get('/:id/fallback', requireLogtoAuth, requireAuth, fallbackController.get);
+router.put('/:id/fallback', requireLogtoAuth, requireAuth, fallbackController.update);
+router.post('/:id/fallback/tracks', requireLogtoAuth, requireAuth, fallbackController.addTrack);
+router.delete('/:id/fallback/tracks/:trackId', requireLogtoAuth, requireAuth, fallbackController.removeTrack);
+router.get('/:id/guests', requireLogtoAuth, requireAuth, moderationController.list);
+router.post('/:id/guests/:guestId/kick', requireLogtoAuth, requireAuth, moderationController.kick);
+router.post('/:id/guests/:guestId/mute', requireLogtoAuth, requireAuth, moderationController.mute);
+router.delete('/:id/guests/:guestId/mute', requireLogtoAuth, requireAuth, moderationController.unmute);
+router.post('/:id/guests/:guestId/ban', requireLogtoAuth, requireAuth, moderationController.ban);
+router.delete('/:id/guest-bans/:banId', requireLogtoAuth, requireAuth, moderationController.liftBan);
 router.get('/:id', sessionController.getById);
 router.get('/code/:code', sessionController.getByCode);
 router.delete('/:id', requireLogtoAuth, requireAuth, sessionController.delete);
@@ -8,6 +8,7 @@ const router = Router();
 router.get('/token', requireLogtoAuth, requireAuth, spotifyController.getPlaybackToken);
 router.get('/search', requireLogtoAuth, optionalAuth, spotifyController.search);
 router.get('/search-artists', requireLogtoAuth, optionalAuth, spotifyController.searchArtists);
+router.get('/collection', requireLogtoAuth, requireAuth, spotifyController.previewCollection);
 router.get('/playback', requireLogtoAuth, optionalAuth, spotifyController.getCurrentPlayback);
 router.post('/play', requireLogtoAuth, requireAuth, spotifyController.play);
 router.post('/pause', requireLogtoAuth, requireAuth, spotifyController.pause);
@@ -0,0 +1,16 @@
+import express, { Router } from 'express';
+import { leaderboardController } from '../controllers/leaderboard.controller';
+import { requireLogtoAuth } from '../middleware/logto.middleware';
+import { requireIntegrationAuth } from '../middleware/integration.middleware';
+
+const router = Router();
+
+router.get('/leaderboard', requireLogtoAuth, leaderboardController.getGlobal);
+router.post(
+  '/metrics',
+  express.text({ type: ['text/csv', 'application/csv'], limit: '1mb' }),
+  requireIntegrationAuth,
+  leaderboardController.ingest,
+);
+
+export default router;
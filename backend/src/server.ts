@@ -8,6 +8,7 @@ import { config } from './config';
 import { setupSocketHandlers } from './sockets/handlers';
 import { playbackService } from './services/playback.service';
 import { scheduledPlaybackProcessor } from './services/scheduledPlaybackProcessor';
+import { voteScoreReconciler } from './services/voteScoreReconciler';
 import { logtoMiddleware, repairSession } from './middleware/logto.middleware';
 
 // Import routes
@@ -16,6 +17,8 @@ import sessionRoutes from './routes/session.routes';
 import queueRoutes from './routes/queue.routes';
 import spotifyRoutes from './routes/spotify.routes';
 import configRoutes from './routes/config.routes';
+import statsRoutes from './routes/stats.routes';
+import creditsRoutes from './routes/credits.routes';
 
 // Create Express app
 const app = express();
@@ -66,19 +69,22 @@ app.use(express.urlencoded({ extended: true }));
 app.use(logtoMiddleware);
 
 // Session configuration
-app.use(
-  session({
-    secret: config.session.secret,
-    resave: false,
-    saveUninitialized: false,
-    cookie: {
-      secure: config.server.nodeEnv === 'production',
-      httpOnly: true,
-      maxAge: 1000 * 60 * 60 * 24 * 7, // 7 days
-      sameSite: config.server.nodeEnv === 'production' ? 'none' : 'lax',
-    },
-  })
-);
+const sessionMiddleware = session({
+  secret: config.session.secret,
+  resave: false,
+  saveUninitialized: false,
+  cookie: {
+    secure: config.server.nodeEnv === 'production',
+    httpOnly: true,
+    maxAge: 1000 * 60 * 60 * 24 * 7, // 7 days
+    sameSite: config.server.nodeEnv === 'production' ? 'none' : 'lax',
+  },
+});
+
+app.use(sessionMiddleware);
+
+// Share the session with Socket.IO so the host's cookie authenticates sockets
+io.engine.use(sessionMiddleware);
 
 // Restore express-session data from the Logto JWT after container restarts
 app.use(repairSession);
@@ -92,6 +98,8 @@ app.use('/api/sessions', sessionRoutes);
 app.use('/api/queue', queueRoutes);
 app.use('/api/spotify', spotifyRoutes);
 app.use('/api/config', configRoutes);
+app.use('/api/stats', statsRoutes);
+app.use('/api/credits', creditsRoutes);
 
 // Health check
 app.get('/api/health', (req, res) => {
@@ -114,7 +122,9 @@ app.use((err: any, req: express.Request, res: express.Response, next: express.Ne
 // Setup Socket.IO handlers
 setupSocketHandlers(io);
 playbackService.setSocketServer(io);
+void playbackService.restoreMonitors();
 scheduledPlaybackProcessor.start();
+voteScoreReconciler.start();
 
 // Start server
 const PORT = config.server.port;
@@ -130,6 +140,8 @@ httpServer.listen(PORT, () => {
 process.on('SIGTERM', () => {
   console.log('SIGTERM signal received: closing HTTP server');
   scheduledPlaybackProcessor.stop();
+  voteScoreReconciler.stop();
+  playbackService.stopAll();
   httpServer.close(() => {
     console.log('HTTP server closed');
     process.exit(0);
@@ -1,4 +1,5 @@
 import { PrismaClient } from '@prisma/client';
+import type { TrackRestrictions } from '../lib/trackRestrictions';
 
 const prisma = new PrismaClient();
 const bannedTrackListModel = (prisma as any).bannedTrackList;
@@ -225,6 +226,25 @@ class BannedTracksService {
     return this.getBannedArtistIdsForHost(hostId);
   }
 
+  /** Bans plus the session's explicit and length settings, for filtering Spotify results */
+  async getTrackRestrictions(session: {
+    id: string;
+    allowExplicit?: boolean | null;
+    maxSongDuration?: number | null;
+  }): Promise<TrackRestrictions> {
+    const [bannedTrackIds, bannedArtistIds] = await Promise.all([
+      this.getBannedTrackIdsForSession(session.id),
+      this.getBannedArtistIdsForSession(session.id),
+    ]);
+
+    return {
+      allowExplicit: session.allowExplicit ?? true,
+      maxSongDuration: session.maxSongDuration ?? null,
+      bannedTrackIds,
+      bannedArtistIds,
+    };
+  }
+
   async isTrackBanned(sessionId: string, spotifyTrackId: string): Promise<boolean> {
     const hostId = await this.getSessionHostId(sessionId);
     const found = await bannedTrackModel.findFirst({
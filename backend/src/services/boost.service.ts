@@ -0,0 +1,110 @@
+import { PrismaClient } from '@prisma/client';
+import { creditService, CreditState } from './credit.service';
+
+const prisma = new PrismaClient();
+
+type BoostableItem = {
+  id: string;
+  played: boolean;
+  isNextUp: boolean;
+  isAutoFill: boolean;
+  isCelebration: boolean;
+  pinOrder: number | null;
+};
+
+type BoostRecord = {
+  userId: string;
+  amount: number;
+  bonusAmount: number;
+};
+
+/**
+ * Credits listeners spend to lift a queued track. Each boost is kept so it
+ * can be paid back to whoever made it, daily and bonus credits separately,
+ * if the track is removed before it plays.
+ */
+class BoostService {
+  /** Boosts only matter where votes decide the order */
+  assertBoostable(queueItem: BoostableItem) {
+    if (queueItem.played) {
+      throw new Error('Queue item not found');
+    }
+
+    if (queueItem.isNextUp) {
+      throw new Error('This track is already up next');
+    }
+
+    if (queueItem.isAutoFill) {
+      throw new Error('Auto-filled tracks cannot be boosted');
+    }
+
+    if (queueItem.isCelebration || queueItem.pinOrder != null) {
+      throw new Error('Pinned tracks play in the host\'s order and cannot be boosted');
+    }
+  }
+
+  /** Store a paid boost and return the item's new boost total */
+  async recordBoost(queueItemId: string, boost: BoostRecord) {
+    const [, queueItem] = await prisma.$transaction([
+      prisma.queueBoost.create({
+        data: { queueItemId, ...boost },
+      }),
+      prisma.queueItem.update({
+        where: { id: queueItemId },
+        data: { boostTotal: { increment: boost.amount } },
+        select: { boostTotal: true },
+      }),
+    ]);
+
+    return queueItem.boostTotal;
+  }
+
+  async listBoosts(queueItemId: string): Promise<BoostRecord[]> {
+    return prisma.queueBoost.findMany({
+      where: { queueItemId },
+      select: { userId: true, amount: true, bonusAmount: true },
+    });
+  }
+
+  /**
+   * Pay boosts back once their track is gone. Returns each booster's new
+   * balance; one failed refund is logged and does not stop the rest.
+   */
+  async refundBoosts(
+    boosts: BoostRecord[],
+    context: { trackName: string; sessionId: string; queueItemId: string; actorId?: string | null }
+  ) {
+    const totals = new Map<string, { daily: number; bonus: number }>();
+
+    for (const boost of boosts) {
+      const total = totals.get(boost.userId) ?? { daily: 0, bonus: 0 };
+      total.daily += boost.amount - boost.bonusAmount;
+      total.bonus += boost.bonusAmount;
+      totals.set(boost.userId, total);
+    }
+
+    const balances = new Map<string, CreditState>();
+    const ledger = {
+      reason: 'REFUND' as const,
+      note: `Boost refunded: "${context.trackName}" was removed from the queue`,
+      sessionId: context.sessionId,
+      queueItemId: context.queueItemId,
+      actorId: context.actorId ?? null,
+    };
+
+    for (const [userId, total] of totals) {
+      try {
+        const balance = await creditService.refundCredits(userId, total, ledger);
+        if (balance) {
+          balances.set(userId, balance);
+        }
+      } catch (error) {
+        console.error(`Failed to refund boost credits to ${userId}:`, error);
+      }
+    }
+
+    return balances;
+  }
+}
+
+export const boostService = new BoostService();
@@ -0,0 +1,177 @@
+import { PrismaClient } from '@prisma/client';
+import { config } from '../config';
+import { queueService } from './queue.service';
+
+const prisma = new PrismaClient();
+
+export class CelebrationError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = 'CelebrationError';
+  }
+}
+
+/** Subset of a Spotify track object needed to store an anthem */
+export type AnthemTrack = {
+  id: string;
+  name: string;
+  explicit?: boolean;
+  duration_ms: number;
+  artists: Array<{ id?: string | null; name: string }>;
+  album: { name: string; images: Array<{ url: string }> };
+};
+
+export type CelebrationEvent = {
+  queueItemId: string;
+  name: string;
+  message: string | null;
+  trackName: string;
+  trackArtist: string;
+  trackImage: string | null;
+  celebratedAt: string;
+};
+
+const MAX_MESSAGE_LENGTH = 140;
+
+class CelebrationService {
+  async getAnthem(userId: string) {
+    return prisma.userAnthem.findUnique({ where: { userId } });
+  }
+
+  async setAnthem(userId: string, track: AnthemTrack) {
+    const data = {
+      spotifyTrackId: track.id,
+      trackName: track.name,
+      trackArtist: track.artists.map((artist) => artist.name).join(', '),
+      trackAlbum: track.album?.name ?? null,
+      trackImage: track.album?.images?.[0]?.url ?? null,
+      trackDuration: track.duration_ms,
+      artistSpotifyIds: JSON.stringify(
+        track.artists.map((artist) => artist.id).filter((id): id is string => Boolean(id)),
+      ),
+      explicit: Boolean(track.explicit),
+    };
+
+    return prisma.userAnthem.upsert({
+      where: { userId },
+      create: { userId, ...data },
+      update: data,
+    });
+  }
+
+  async removeAnthem(userId: string) {
+    await prisma.userAnthem.deleteMany({ where: { userId } });
+  }
+
+  /** Who to credit the anthem to — the session host or a guest, else nobody */
+  private async resolveCelebrant(sessionId: string, userId: string) {
+    const session = await prisma.session.findUnique({
+      where: { id: sessionId },
+      include: { host: { select: { displayName: true, logtoUserId: true } } },
+    });
+
+    if (!session || !session.isActive) {
+      throw new CelebrationError('Session not found or inactive', 404);
+    }
+
+    if (session.host.logtoUserId === userId) {
+      return { session, actor: { userId: session.hostId }, name: session.host.displayName };
+    }
+
+    // clerkUserId is the DB column name (kept for migration compat); stores Logto user ID
+    const guest = await prisma.guest.findFirst({
+      where: { sessionId, clerkUserId: userId },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    if (guest) {
+      return { session, actor: { guestId: guest.id }, name: guest.name };
+    }
+
+    const metric = await prisma.userDailyMetric.findFirst({
+      where: { userId },
+      orderBy: { date: 'desc' },
+      select: { fullName: true },
+    });
+
+    return { session, actor: {}, name: metric?.fullName ?? 'A teammate' };
+  }
+
+  /**
+   * Jump a user's anthem to the front of the session queue.
+   *
+   * The cooldown is claimed with a conditional update before queueing so two
+   * webhook calls racing each other can't both succeed; it is released again
+   * if the track turns out to be blocked.
+   */
+  async celebrate(sessionId: string, userId: string, message?: string | null) {
+    const { session, actor, name } = await this.resolveCelebrant(sessionId, userId);
+
+    if (!session.celebrationsEnabled) {
+      throw new CelebrationError('Celebrations are turned off for this session', 409);
+    }
+
+    const anthem = await this.getAnthem(userId);
+
+    if (!anthem) {
+      throw new CelebrationError('No anthem registered for this user', 404);
+    }
+
+    if (!session.allowExplicit && anthem.explicit) {
+      throw new CelebrationError('Explicit tracks are disabled for this session');
+    }
+
+    const now = new Date();
+    const cooldownMs = config.celebrations.cooldownMinutes * 60 * 1000;
+    const cutoff = new Date(now.getTime() - cooldownMs);
+
+    const claimed = await prisma.userAnthem.updateMany({
+      where: {
+        id: anthem.id,
+        OR: [{ lastCelebratedAt: null }, { lastCelebratedAt: { lte: cutoff } }],
+      },
+      data: { lastCelebratedAt: now },
+    });
+
+    if (claimed.count === 0) {
+      const availableAt = (anthem.lastCelebratedAt?.getTime() ?? now.getTime()) + cooldownMs;
+      const minutesLeft = Math.max(1, Math.ceil((availableAt - now.getTime()) / 60000));
+      throw new CelebrationError(`Anthem is cooling down — try again in ${minutesLeft} min`, 429);
+    }
+
+    let queueItem;
+    try {
+      queueItem = await queueService.addCelebration(sessionId, {
+        spotifyTrackId: anthem.spotifyTrackId,
+        trackName: anthem.trackName,
+        trackArtist: anthem.trackArtist,
+        trackAlbum: anthem.trackAlbum,
+        trackImage: anthem.trackImage,
+        trackDuration: anthem.trackDuration,
+        artistSpotifyIds: JSON.parse(anthem.artistSpotifyIds) as string[],
+      }, actor);
+    } catch (error: any) {
+      await prisma.userAnthem.update({
+        where: { id: anthem.id },
+        data: { lastCelebratedAt: anthem.lastCelebratedAt },
+      });
+      throw new CelebrationError(error?.message || 'Failed to queue anthem');
+    }
+
+    const trimmedMessage = typeof message === 'string' ? message.trim().slice(0, MAX_MESSAGE_LENGTH) : '';
+
+    const event: CelebrationEvent = {
+      queueItemId: queueItem.id,
+      name,
+      message: trimmedMessage || null,
+      trackName: anthem.trackName,
+      trackArtist: anthem.trackArtist,
+      trackImage: anthem.trackImage,
+      celebratedAt: now.toISOString(),
+    };
+
+    return { session, queueItem, event };
+  }
+}
+
+export const celebrationService = new CelebrationService();
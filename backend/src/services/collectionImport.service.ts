@@ -0,0 +1,77 @@
+import { parseSpotifyCollection } from '../lib/spotifyCollection';
+import { screenTracks } from '../lib/trackRestrictions';
+import { bannedTracksService } from './bannedTracks.service';
+import { queueService } from './queue.service';
+import { spotifyService } from './spotify.service';
+
+/** Enough for a long playlist without tying up the request on huge ones */
+export const MAX_IMPORT_TRACKS = 200;
+
+type ImportSession = {
+  id: string;
+  hostId: string;
+  allowExplicit?: boolean | null;
+  maxSongDuration?: number | null;
+};
+
+export type ImportRejection = {
+  track: any;
+  reason: string;
+};
+
+/**
+ * Bring a Spotify playlist or album into a session: fetch its tracks, screen
+ * them against the session's bans, explicit and length rules, and report
+ * what was left out.
+ */
+export class CollectionImportService {
+  async preview(session: ImportSession, link: string) {
+    const ref = parseSpotifyCollection(link);
+
+    if (!ref) {
+      throw new Error('Enter a Spotify playlist or album link');
+    }
+
+    const accessToken = await spotifyService.ensureValidToken(session.hostId);
+    const [collection, restrictions] = await Promise.all([
+      spotifyService.getCollectionTracks(ref, accessToken, MAX_IMPORT_TRACKS),
+      bannedTracksService.getTrackRestrictions(session),
+    ]);
+    const { tracks, ...summary } = collection;
+    const { accepted, rejected } = screenTracks(tracks, restrictions);
+
+    return {
+      collection: summary,
+      accepted,
+      rejected: rejected as ImportRejection[],
+    };
+  }
+
+  /** Append the accepted tracks to the live queue as the host, in order */
+  async addToQueue(session: ImportSession, link: string) {
+    const { collection, accepted, rejected } = await this.preview(session, link);
+    const added = [];
+
+    for (const track of accepted) {
+      try {
+        added.push(await queueService.addToQueue(
+          session.id,
+          track.id,
+          track.name,
+          track.artists.map((artist: any) => artist.name).join(', '),
+          track.album?.name ?? null,
+          track.album?.images?.[0]?.url ?? null,
+          track.duration_ms,
+          track.artists.map((artist: any) => artist.id).filter(Boolean),
+          { userId: session.hostId }
+        ));
+      } catch (error: any) {
+        rejected.push({ track, reason: error?.message ?? 'Failed to add to the queue' });
+      }
+    }
+
+    return { collection, added, rejected };
+  }
+}
+
+export const collectionImportService = new CollectionImportService();
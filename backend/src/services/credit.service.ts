@@ -1,17 +1,22 @@
-import { PrismaClient } from '@prisma/client';
+import { Prisma, PrismaClient, CreditTransactionReason } from '@prisma/client';
 
 export const GUEST_DAILY_CREDIT_LIMIT = 100;
 export const MANAGER_DAILY_CREDIT_LIMIT = 5000;
 export const GUEST_TRACK_COST = 10;
 export const VOTE_REACTION_COST = 5;
+export const MIN_BOOST_AMOUNT = 5;
 
 /** Logto role names that grant elevated credits */
 const ELEVATED_ROLES = ['manager', 'super admin'];
 
+/** True when any of the Logto roles is Manager / Super Admin */
+export function hasElevatedRole(roles: string[] | undefined): boolean {
+  return (roles ?? []).some((r) => ELEVATED_ROLES.includes(r.toLowerCase()));
+}
+
 /** Determine the correct daily credit total based on Logto roles */
 function creditLimitForRoles(roles: string[]): number {
-  const lower = roles.map((r) => r.toLowerCase());
-  if (lower.some((r) => ELEVATED_ROLES.includes(r))) {
+  if (hasElevatedRole(roles)) {
     return MANAGER_DAILY_CREDIT_LIMIT;
   }
   return GUEST_DAILY_CREDIT_LIMIT;
@@ -29,14 +34,59 @@ export class CreditError extends Error {
 export interface CreditState {
   totalCredits: number;
   currentCredits: number;
+  /** Earned credits that survive the daily refresh */
+  bonusCredits: number;
   refreshDate: string;
 }
 
+/** How much of a spend came out of daily and earned bonus credits */
+export interface CreditSplit {
+  daily: number;
+  bonus: number;
+}
+
+export interface CreditSpend extends CreditState {
+  /** Refund this split with `refundCredits` so each part goes back where it came from */
+  spent: CreditSplit;
+}
+
+/** Why a balance changed, written to the CreditTransaction ledger */
+export interface CreditLedgerContext {
+  reason: CreditTransactionReason;
+  note?: string | null;
+  sessionId?: string | null;
+  queueItemId?: string | null;
+  actorId?: string | null;
+}
+
+const MAX_HISTORY_PAGE_SIZE = 100;
+
 class CreditService {
   private todayDateString(): string {
     return new Date().toISOString().slice(0, 10);
   }
 
+  private recordTransaction(
+    userId: string,
+    amount: number,
+    balanceAfter: number,
+    ledger: CreditLedgerContext,
+    db: Prisma.TransactionClient = prisma,
+  ) {
+    return db.creditTransaction.create({
+      data: {
+        userId,
+        amount,
+        balanceAfter,
+        reason: ledger.reason,
+        note: ledger.note ?? null,
+        sessionId: ledger.sessionId ?? null,
+        queueItemId: ledger.queueItemId ?? null,
+        actorId: ledger.actorId ?? null,
+      },
+    });
+  }
+
   private isBefore(dateString: string, reference: string): boolean {
     if (!dateString) return true;
     const candidate = new Date(dateString);
@@ -74,14 +124,25 @@ class CreditService {
 
     if (creditsDisabled) {
       if (record.currentCredits !== 0 || record.refreshDate !== today) {
-        record = await prisma.userCredit.update({
-          where: { userId },
-          data: { currentCredits: 0, refreshDate: today },
-        });
+        const previousCurrent = record.currentCredits;
+        const [updated] = await prisma.$transaction([
+          prisma.userCredit.update({
+            where: { userId },
+            data: { currentCredits: 0, refreshDate: today },
+          }),
+          ...(previousCurrent !== 0
+            ? [this.recordTransaction(userId, -previousCurrent, record.bonusCredits, {
+              reason: 'ADJUSTMENT',
+              note: 'Credits disabled',
+            })]
+            : []),
+        ]);
+        record = updated;
       }
       return {
         totalCredits: -1,
         currentCredits: 0,
+        bonusCredits: record.bonusCredits,
         refreshDate: today,
       };
     }
@@ -90,6 +151,7 @@ class CreditService {
     let current = record.currentCredits;
     let refreshDate = record.refreshDate;
     let changed = false;
+    let refreshed = false;
 
     // Sync total with current role – upgrades AND downgrades
     if (roleLimit !== null && total !== -1 && roleLimit !== total) {
@@ -116,6 +178,7 @@ class CreditService {
       current = total;
       refreshDate = today;
       changed = true;
+      refreshed = true;
     }
 
     if (current > total) {
@@ -128,56 +191,157 @@ class CreditService {
     }
 
     if (changed) {
-      await prisma.userCredit.update({
-        where: { userId },
-        data: { totalCredits: total, currentCredits: current, refreshDate },
-      });
+      const delta = current - record.currentCredits;
+
+      await prisma.$transaction([
+        prisma.userCredit.update({
+          where: { userId },
+          data: { totalCredits: total, currentCredits: current, refreshDate },
+        }),
+        ...(delta !== 0
+          ? [this.recordTransaction(userId, delta, current + record.bonusCredits, refreshed
+            ? { reason: 'DAILY_REFRESH', note: `Daily credits reset to ${total}` }
+            : { reason: 'ADJUSTMENT', note: `Daily total changed to ${total}` })]
+          : []),
+      ]);
     }
 
-    return { totalCredits: total, currentCredits: current, refreshDate };
+    return { totalCredits: total, currentCredits: current, bonusCredits: record.bonusCredits, refreshDate };
   }
 
   async ensureDailyCredits(userId: string, roles?: string[]): Promise<CreditState> {
     return this.loadAndNormalize(userId, roles);
   }
 
-  async spendCredits(userId: string, amount: number, roles?: string[]): Promise<CreditState> {
+  async spendCredits(
+    userId: string,
+    amount: number,
+    ledger: CreditLedgerContext,
+    roles?: string[],
+  ): Promise<CreditSpend> {
     const spendAmount = Math.floor(amount);
     if (!Number.isFinite(spendAmount) || spendAmount <= 0) {
       throw new CreditError('Credit amount must be greater than zero');
     }
 
-    const state = await this.loadAndNormalize(userId, roles);
+    await this.loadAndNormalize(userId, roles);
 
-    if (state.totalCredits === -1) {
+    return prisma.$transaction((tx) => this.spendCreditsInTransaction(tx, userId, spendAmount, ledger));
+  }
+
+  /**
+   * Spend as part of the caller's transaction, so the charge commits or
+   * rolls back with the caller's own writes. Call `ensureDailyCredits`
+   * first, outside the transaction, so the balance is already refreshed.
+   */
+  async spendCreditsInTransaction(
+    tx: Prisma.TransactionClient,
+    userId: string,
+    amount: number,
+    ledger: CreditLedgerContext,
+  ): Promise<CreditSpend> {
+    const spendAmount = Math.floor(amount);
+    if (!Number.isFinite(spendAmount) || spendAmount <= 0) {
+      throw new CreditError('Credit amount must be greater than zero');
+    }
+
+    const state = await tx.userCredit.findUnique({ where: { userId } });
+
+    if (state?.totalCredits === -1) {
       throw new CreditError('Credits are disabled for this user.', 403);
     }
 
-    if (state.currentCredits < spendAmount) {
+    if (!state || state.currentCredits + state.bonusCredits < spendAmount) {
       throw new CreditError(
         'Not enough credits remaining to add this track. Credits refresh daily.',
         403,
       );
     }
 
-    const nextCurrent = state.currentCredits - spendAmount;
+    // Daily credits go first; earned bonus credits only cover the shortfall
+    const fromDaily = Math.min(state.currentCredits, spendAmount);
+    const nextCurrent = state.currentCredits - fromDaily;
+    const nextBonus = state.bonusCredits - (spendAmount - fromDaily);
+
+    await tx.userCredit.update({
+      where: { userId },
+      data: { currentCredits: nextCurrent, bonusCredits: nextBonus },
+    });
+    await this.recordTransaction(userId, -spendAmount, nextCurrent + nextBonus, ledger, tx);
+
+    return {
+      totalCredits: state.totalCredits,
+      currentCredits: nextCurrent,
+      bonusCredits: nextBonus,
+      refreshDate: state.refreshDate,
+      spent: { daily: fromDaily, bonus: spendAmount - fromDaily },
+    };
+  }
+
+  /** `refundCredits` as part of the caller's transaction; returns null if nothing was refunded */
+  async refundCreditsInTransaction(
+    tx: Prisma.TransactionClient,
+    userId: string,
+    spent: CreditSplit,
+    ledger: CreditLedgerContext,
+  ): Promise<CreditState | null> {
+    const state = await tx.userCredit.findUnique({ where: { userId } });
+
+    if (!state || state.totalCredits === -1 || spent.daily + spent.bonus <= 0) {
+      return null;
+    }
+
+    // Daily credits still can't go over the day's total
+    const nextCurrent = Math.min(state.totalCredits, state.currentCredits + spent.daily);
+    const nextBonus = state.bonusCredits + spent.bonus;
 
-    await prisma.userCredit.update({
+    await tx.userCredit.update({
       where: { userId },
-      data: { currentCredits: nextCurrent },
+      data: { currentCredits: nextCurrent, bonusCredits: nextBonus },
     });
+    await this.recordTransaction(
+      userId,
+      nextCurrent - state.currentCredits + spent.bonus,
+      nextCurrent + nextBonus,
+      ledger,
+      tx,
+    );
 
     return {
       totalCredits: state.totalCredits,
       currentCredits: nextCurrent,
+      bonusCredits: nextBonus,
       refreshDate: state.refreshDate,
     };
   }
 
+  /**
+   * Pay back a spend, daily part to daily credits and bonus part to bonus
+   * credits. Returns the new balance, or null if there was nothing to refund.
+   */
+  async refundCredits(userId: string, spent: CreditSplit, ledger: CreditLedgerContext): Promise<CreditState | null> {
+    let state: CreditState | null = null;
+
+    if (spent.daily > 0) {
+      state = await this.addCredits(userId, spent.daily, ledger);
+    }
+    if (spent.bonus > 0) {
+      state = await this.addCredits(userId, spent.bonus, ledger, { bonus: true });
+    }
+
+    return state;
+  }
+
   async addCredits(
     userId: string,
     amount: number,
-    options?: { increaseTotal?: boolean },
+    ledger: CreditLedgerContext,
+    options?: {
+      increaseTotal?: boolean;
+      bonus?: boolean;
+      /** Performance grant recorded in the same transaction as a bonus, so it is paid once or not at all */
+      grant?: Prisma.CreditGrantUncheckedCreateInput;
+    },
   ): Promise<CreditState> {
     const addAmount = Math.floor(amount);
     if (!Number.isFinite(addAmount) || addAmount <= 0) {
@@ -190,22 +354,47 @@ class CreditService {
       throw new CreditError('Credits are disabled for this user.', 403);
     }
 
+    if (options?.bonus) {
+      const nextBonus = state.bonusCredits + addAmount;
+
+      await prisma.$transaction([
+        ...(options.grant ? [prisma.creditGrant.create({ data: options.grant })] : []),
+        prisma.userCredit.update({
+          where: { userId },
+          data: { bonusCredits: { increment: addAmount } },
+        }),
+        this.recordTransaction(userId, addAmount, state.currentCredits + nextBonus, ledger),
+      ]);
+
+      return { ...state, bonusCredits: nextBonus };
+    }
+
     const nextTotal = options?.increaseTotal
       ? state.totalCredits + addAmount
       : state.totalCredits;
     const nextCurrent = Math.min(nextTotal, state.currentCredits + addAmount);
 
-    await prisma.userCredit.update({
-      where: { userId },
-      data: {
-        totalCredits: nextTotal,
-        currentCredits: nextCurrent,
-      },
-    });
+    await prisma.$transaction([
+      prisma.userCredit.update({
+        where: { userId },
+        data: {
+          totalCredits: nextTotal,
+          currentCredits: nextCurrent,
+        },
+      }),
+      // Amount is what actually landed after the cap, not what was requested
+      this.recordTransaction(
+        userId,
+        nextCurrent - state.currentCredits,
+        nextCurrent + state.bonusCredits,
+        ledger,
+      ),
+    ]);
 
     return {
       totalCredits: nextTotal,
       currentCredits: nextCurrent,
+      bonusCredits: state.bonusCredits,
       refreshDate: state.refreshDate,
     };
   }
@@ -213,6 +402,7 @@ class CreditService {
   async setTotalCredits(
     userId: string,
     total: number,
+    ledger: CreditLedgerContext,
     options?: { refill?: boolean },
   ): Promise<CreditState> {
     const requestedTotal = Math.floor(total);
@@ -249,21 +439,47 @@ class CreditService {
           ? today
           : state.refreshDate;
 
-    await prisma.userCredit.update({
-      where: { userId },
-      data: {
-        totalCredits: normalizedTotal,
-        currentCredits: nextCurrent,
-        refreshDate: nextRefresh,
-      },
-    });
+    await prisma.$transaction([
+      prisma.userCredit.update({
+        where: { userId },
+        data: {
+          totalCredits: normalizedTotal,
+          currentCredits: nextCurrent,
+          refreshDate: nextRefresh,
+        },
+      }),
+      this.recordTransaction(
+        userId,
+        nextCurrent - state.currentCredits,
+        nextCurrent + state.bonusCredits,
+        {
+          ...ledger,
+          note: ledger.note ?? (normalizedTotal === -1 ? 'Credits disabled' : `Daily total set to ${normalizedTotal}`),
+        },
+      ),
+    ]);
 
     return {
       totalCredits: normalizedTotal,
       currentCredits: nextCurrent,
+      bonusCredits: state.bonusCredits,
       refreshDate: nextRefresh,
     };
   }
+
+  /** Newest first; pass the last row's `createdAt` as `before` to page back */
+  async getHistory(userId: string, options?: { limit?: number; before?: Date }) {
+    const limit = Math.min(Math.max(options?.limit ?? 50, 1), MAX_HISTORY_PAGE_SIZE);
+
+    return prisma.creditTransaction.findMany({
+      where: {
+        userId,
+        ...(options?.before ? { createdAt: { lt: options.before } } : {}),
+      },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    });
+  }
 }
 
 export const creditService = new CreditService();
@@ -0,0 +1,216 @@
+import { Prisma, PrismaClient, CreditRule } from '@prisma/client';
+import { creditService, CreditError } from './credit.service';
+import type { AppliedMetric, MetricCounts } from './leaderboard.service';
+
+const prisma = new PrismaClient();
+
+export type CreditRuleMetric = keyof MetricCounts;
+
+export const CREDIT_RULE_METRICS: CreditRuleMetric[] = ['dials', 'appOuts', 'underwriting'];
+
+const METRIC_LABELS: Record<CreditRuleMetric, [singular: string, plural: string]> = {
+  dials: ['dial', 'dials'],
+  appOuts: ['app-out', 'app-outs'],
+  underwriting: ['underwriting submission', 'underwriting submissions'],
+};
+
+export type CreditRuleInput = {
+  name?: string;
+  metric?: string;
+  metricStep?: number;
+  creditsPerStep?: number;
+  dailyCap?: number | null;
+  isActive?: boolean;
+};
+
+export type AppliedGrant = {
+  userId: string;
+  ruleId: string;
+  metric: CreditRuleMetric;
+  metricDate: string;
+  credits: number;
+  reason: string;
+};
+
+const isMetric = (value: unknown): value is CreditRuleMetric =>
+  typeof value === 'string' && (CREDIT_RULE_METRICS as string[]).includes(value);
+
+const assertPositiveInt = (value: unknown, field: string) => {
+  if (typeof value !== 'number' || !Number.isInteger(value) || value <= 0) {
+    throw new CreditError(`${field} must be a positive whole number`);
+  }
+  return value;
+};
+
+const describeMetric = (metric: CreditRuleMetric, count: number) =>
+  `${count} ${METRIC_LABELS[metric][count === 1 ? 0 : 1]}`;
+
+class CreditRulesService {
+  async listRules() {
+    return prisma.creditRule.findMany({ orderBy: { createdAt: 'asc' } });
+  }
+
+  async createRule(createdById: string, input: CreditRuleInput) {
+    const name = input.name?.trim();
+    if (!name) {
+      throw new CreditError('name is required');
+    }
+
+    if (!isMetric(input.metric)) {
+      throw new CreditError(`metric must be one of ${CREDIT_RULE_METRICS.join(', ')}`);
+    }
+
+    return prisma.creditRule.create({
+      data: {
+        name,
+        metric: input.metric,
+        metricStep: input.metricStep === undefined ? 1 : assertPositiveInt(input.metricStep, 'metricStep'),
+        creditsPerStep: assertPositiveInt(input.creditsPerStep, 'creditsPerStep'),
+        dailyCap: input.dailyCap == null ? null : assertPositiveInt(input.dailyCap, 'dailyCap'),
+        isActive: input.isActive ?? true,
+        createdById,
+      },
+    });
+  }
+
+  async updateRule(ruleId: string, input: CreditRuleInput) {
+    const existing = await prisma.creditRule.findUnique({ where: { id: ruleId } });
+
+    if (!existing) {
+      throw new CreditError('Credit rule not found', 404);
+    }
+
+    const data: Partial<Pick<CreditRule, 'name' | 'metric' | 'metricStep' | 'creditsPerStep' | 'dailyCap' | 'isActive'>> = {};
+
+    if (input.name !== undefined) {
+      const name = input.name.trim();
+      if (!name) {
+        throw new CreditError('name cannot be empty');
+      }
+      data.name = name;
+    }
+
+    if (input.metric !== undefined) {
+      if (!isMetric(input.metric)) {
+        throw new CreditError(`metric must be one of ${CREDIT_RULE_METRICS.join(', ')}`);
+      }
+      data.metric = input.metric;
+    }
+
+    if (input.metricStep !== undefined) data.metricStep = assertPositiveInt(input.metricStep, 'metricStep');
+    if (input.creditsPerStep !== undefined) data.creditsPerStep = assertPositiveInt(input.creditsPerStep, 'creditsPerStep');
+    if (input.dailyCap !== undefined) data.dailyCap = input.dailyCap === null ? null : assertPositiveInt(input.dailyCap, 'dailyCap');
+    if (input.isActive !== undefined) data.isActive = Boolean(input.isActive);
+
+    return prisma.creditRule.update({ where: { id: ruleId }, data });
+  }
+
+  async deleteRule(ruleId: string) {
+    const existing = await prisma.creditRule.findUnique({ where: { id: ruleId } });
+
+    if (!existing) {
+      throw new CreditError('Credit rule not found', 404);
+    }
+
+    // Grants keep their reason text; ruleId is nulled by the relation
+    await prisma.creditRule.delete({ where: { id: ruleId } });
+  }
+
+  async getGrantsForUser(userId: string, limit = 50) {
+    return prisma.creditGrant.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+      select: {
+        id: true,
+        metric: true,
+        metricDate: true,
+        metricTotal: true,
+        credits: true,
+        reason: true,
+        createdAt: true,
+      },
+    });
+  }
+
+  /**
+   * Award credits for freshly ingested metrics.
+   *
+   * Grants are computed from the day's running total rather than the delta,
+   * so re-sending the same export (or a corrected lower total) never pays
+   * out twice — each rule only tops a user up to what that total is worth.
+   * The grant row and the bonus are written together, and the unique
+   * running total stops overlapping ingests paying the same top-up.
+   */
+  async applyMetricUpdates(applied: AppliedMetric[]): Promise<AppliedGrant[]> {
+    const rules = await prisma.creditRule.findMany({ where: { isActive: true } });
+
+    if (rules.length === 0) {
+      return [];
+    }
+
+    const grants: AppliedGrant[] = [];
+
+    for (const row of applied) {
+      for (const rule of rules) {
+        if (!isMetric(rule.metric) || row.delta[rule.metric] <= 0) continue;
+
+        const metricTotal = row.totals[rule.metric];
+        let due = Math.floor(metricTotal / rule.metricStep) * rule.creditsPerStep;
+        if (rule.dailyCap !== null) {
+          due = Math.min(due, rule.dailyCap);
+        }
+
+        const alreadyGranted = await prisma.creditGrant.aggregate({
+          where: { ruleId: rule.id, userId: row.userId, metricDate: row.date },
+          _sum: { credits: true },
+        });
+
+        const granted = alreadyGranted._sum.credits ?? 0;
+        const owed = due - granted;
+        if (owed <= 0) continue;
+
+        const reason = `+${owed} credits: ${describeMetric(rule.metric, metricTotal)} on ${row.date} (${rule.name})`;
+
+        try {
+          await creditService.addCredits(row.userId, owed, { reason: 'PERFORMANCE_BONUS', note: reason }, {
+            bonus: true,
+            grant: {
+              userId: row.userId,
+              ruleId: rule.id,
+              metric: rule.metric,
+              metricDate: row.date,
+              metricTotal,
+              credits: owed,
+              grantedTotal: granted + owed,
+              reason,
+            },
+          });
+        } catch (error) {
+          if (error instanceof CreditError) {
+            // Credits disabled for this user — nothing to grant
+            continue;
+          }
+          if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+            // An overlapping ingest already paid this top-up
+            continue;
+          }
+          throw error;
+        }
+
+        grants.push({
+          userId: row.userId,
+          ruleId: rule.id,
+          metric: rule.metric,
+          metricDate: row.date,
+          credits: owed,
+          reason,
+        });
+      }
+    }
+
+    return grants;
+  }
+}
+
+export const creditRulesService = new CreditRulesService();
@@ -0,0 +1,229 @@
+import { PrismaClient } from '@prisma/client';
+import { config } from '../config';
+import { findReplayCooldown, parseArtistIds } from '../lib/replayCooldown';
+import { parseSpotifyCollection } from '../lib/spotifyCollection';
+import { trackRejectionReason } from '../lib/trackRestrictions';
+import { bannedTracksService } from './bannedTracks.service';
+import { MAX_IMPORT_TRACKS } from './collectionImport.service';
+import { queueService, TrackDetails } from './queue.service';
+import { spotifyService } from './spotify.service';
+
+const prisma = new PrismaClient();
+
+/** How long a fallback playlist's tracks are reused before fetching it again */
+const PLAYLIST_CACHE_MS = 10 * 60 * 1000;
+
+type FallbackCandidate = TrackDetails & { explicit: boolean };
+
+type FallbackSession = {
+  id: string;
+  hostId: string;
+  allowExplicit?: boolean | null;
+  maxSongDuration?: number | null;
+};
+
+const fromSpotifyTrack = (track: any): FallbackCandidate => ({
+  spotifyTrackId: track.id,
+  trackName: track.name,
+  trackArtist: (track.artists ?? []).map((artist: any) => artist.name).join(', '),
+  trackAlbum: track.album?.name ?? null,
+  trackImage: track.album?.images?.[0]?.url ?? null,
+  trackDuration: track.duration_ms,
+  artistSpotifyIds: (track.artists ?? []).map((artist: any) => artist.id).filter(Boolean),
+  explicit: Boolean(track.explicit),
+});
+
+/**
+ * The source the playback monitor falls back to when nobody has queued
+ * anything: either a pool of tracks the host picked, or a Spotify playlist
+ * or album. Draws are random, skip anything the session's rules reject, and
+ * avoid tracks played within the no-repeat window or the session's replay
+ * cooldowns.
+ */
+class FallbackService {
+  private playlistCache = new Map<string, { fetchedAt: number; name: string; tracks: FallbackCandidate[] }>();
+
+  async getSource(sessionId: string) {
+    const session = await prisma.session.findUnique({
+      where: { id: sessionId },
+      select: {
+        fallbackEnabled: true,
+        fallbackPlaylistLink: true,
+        fallbackPlaylistName: true,
+        fallbackTracks: { orderBy: { createdAt: 'asc' } },
+      },
+    });
+
+    if (!session) {
+      throw new Error('Session not found');
+    }
+
+    return {
+      enabled: session.fallbackEnabled,
+      playlist: session.fallbackPlaylistLink
+        ? { link: session.fallbackPlaylistLink, name: session.fallbackPlaylistName }
+        : null,
+      tracks: session.fallbackTracks.map((track) => ({
+        ...track,
+        artistSpotifyIds: parseArtistIds(track.artistSpotifyIds),
+      })),
+    };
+  }
+
+  /** `playlistLink: null` switches back to the track pool */
+  async updateSource(session: FallbackSession, changes: { enabled?: boolean; playlistLink?: string | null }) {
+    const data: {
+      fallbackEnabled?: boolean;
+      fallbackPlaylistLink?: string | null;
+      fallbackPlaylistName?: string | null;
+    } = {};
+
+    if (changes.enabled !== undefined) {
+      data.fallbackEnabled = changes.enabled;
+    }
+
+    if (changes.playlistLink === null) {
+      data.fallbackPlaylistLink = null;
+      data.fallbackPlaylistName = null;
+    } else if (changes.playlistLink !== undefined) {
+      const link = changes.playlistLink.trim();
+      const tracks = await this.fetchPlaylist(session.hostId, link);
+
+      if (tracks.length === 0) {
+        throw new Error('That playlist has no playable tracks');
+      }
+
+      data.fallbackPlaylistLink = link;
+      data.fallbackPlaylistName = this.playlistCache.get(link)?.name ?? null;
+    }
+
+    await prisma.session.update({
+      where: { id: session.id },
+      data,
+    });
+
+    return this.getSource(session.id);
+  }
+
+  async addTrack(session: FallbackSession, spotifyTrackId: string) {
+    const existing = await prisma.fallbackTrack.findUnique({
+      where: { sessionId_spotifyTrackId: { sessionId: session.id, spotifyTrackId } },
+    });
+
+    if (existing) {
+      throw new Error('Track is already in the fallback pool');
+    }
+
+    const accessToken = await spotifyService.ensureValidToken(session.hostId);
+    const track = fromSpotifyTrack(await spotifyService.getTrack(spotifyTrackId, accessToken));
+
+    return prisma.fallbackTrack.create({
+      data: {
+        sessionId: session.id,
+        spotifyTrackId: track.spotifyTrackId,
+        trackName: track.trackName,
+        trackArtist: track.trackArtist,
+        trackAlbum: track.trackAlbum,
+        trackImage: track.trackImage,
+        trackDuration: track.trackDuration,
+        explicit: track.explicit,
+        artistSpotifyIds: JSON.stringify(track.artistSpotifyIds),
+      },
+    });
+  }
+
+  async removeTrack(sessionId: string, fallbackTrackId: string) {
+    const { count } = await prisma.fallbackTrack.deleteMany({
+      where: { id: fallbackTrackId, sessionId },
+    });
+
+    if (count === 0) {
+      throw new Error('Fallback track not found');
+    }
+  }
+
+  async isEnabled(sessionId: string) {
+    const session = await prisma.session.findUnique({
+      where: { id: sessionId },
+      select: { fallbackEnabled: true },
+    });
+
+    return session?.fallbackEnabled ?? false;
+  }
+
+  /**
+   * Queue one random track from the fallback source. Returns null when the
+   * source is off, empty, or every track is banned or still cooling down.
+   */
+  async drawNext(sessionId: string) {
+    const session = await prisma.session.findUnique({
+      where: { id: sessionId },
+      include: { fallbackTracks: true },
+    });
+
+    if (!session?.fallbackEnabled) {
+      return null;
+    }
+
+    const candidates = session.fallbackPlaylistLink
+      ? await this.fetchPlaylist(session.hostId, session.fallbackPlaylistLink)
+      : session.fallbackTracks.map((track) => ({
+        ...track,
+        artistSpotifyIds: parseArtistIds(track.artistSpotifyIds),
+      }));
+
+    const cutoff = new Date(Date.now() - config.fallback.noRepeatMinutes * 60 * 1000);
+    const [restrictions, cooldowns, recent] = await Promise.all([
+      bannedTracksService.getTrackRestrictions(session),
+      queueService.getReplayCooldowns(sessionId),
+      prisma.queueItem.findMany({
+        where: {
+          sessionId,
+          OR: [{ played: false }, { playedAt: { gte: cutoff } }],
+        },
+        select: { spotifyTrackId: true },
+      }),
+    ]);
+    const recentIds = new Set(recent.map((item) => item.spotifyTrackId));
+
+    const eligible = candidates.filter((candidate) => !recentIds.has(candidate.spotifyTrackId)
+      && !findReplayCooldown(candidate.spotifyTrackId, candidate.artistSpotifyIds, cooldowns)
+      && !trackRejectionReason({
+        id: candidate.spotifyTrackId,
+        explicit: candidate.explicit,
+        duration_ms: candidate.trackDuration,
+        artists: candidate.artistSpotifyIds.map((id) => ({ id })),
+      }, restrictions));
+
+    if (eligible.length === 0) {
+      console.warn(`Fallback source for session ${sessionId} has no eligible tracks right now`);
+      return null;
+    }
+
+    const pick = eligible[Math.floor(Math.random() * eligible.length)];
+    return queueService.addAutoFill(sessionId, pick);
+  }
+
+  private async fetchPlaylist(hostId: string, link: string) {
+    const cached = this.playlistCache.get(link);
+
+    if (cached && Date.now() - cached.fetchedAt < PLAYLIST_CACHE_MS) {
+      return cached.tracks;
+    }
+
+    const ref = parseSpotifyCollection(link);
+
+    if (!ref) {
+      throw new Error('Enter a Spotify playlist or album link');
+    }
+
+    const accessToken = await spotifyService.ensureValidToken(hostId);
+    const collection = await spotifyService.getCollectionTracks(ref, accessToken, MAX_IMPORT_TRACKS);
+    const tracks = collection.tracks.map(fromSpotifyTrack);
+
+    this.playlistCache.set(link, { fetchedAt: Date.now(), name: collection.name, tracks });
+    return tracks;
+  }
+}
+
+export const fallbackService = new FallbackService();
@@ -0,0 +1,187 @@
+import { PrismaClient } from '@prisma/client';
+import { formatCooldownWait } from '../lib/replayCooldown';
+
+const prisma = new PrismaClient();
+
+/** Mutes top out at a day */
+export const MAX_MUTE_MINUTES = 24 * 60;
+
+export type GuestBanScope = 'session' | 'host';
+
+/** Why a guest can't take part right now; a muted guest can still listen */
+export type GuestRestriction =
+  | { state: 'kicked' }
+  | { state: 'banned'; scope: GuestBanScope; reason: string | null }
+  | { state: 'muted'; until: Date };
+
+type ModeratedGuest = {
+  id: string;
+  sessionId: string;
+  clerkUserId: string | null;
+  mutedUntil: Date | null;
+  kickedAt: Date | null;
+};
+
+export function restrictionMessage(restriction: GuestRestriction) {
+  switch (restriction.state) {
+    case 'kicked':
+      return 'The host removed you from this session';
+    case 'banned':
+      return restriction.scope === 'host'
+        ? 'You are banned from this host\'s sessions'
+        : 'You are banned from this session';
+    case 'muted':
+      return `The host muted you; you can add, vote and skip again in ${formatCooldownWait(restriction.until)}`;
+  }
+}
+
+/**
+ * Host controls over guests. Kicks and bans take effect on the guest's next
+ * request, which also drops their guest entry from the express session;
+ * bans follow the Logto user ID so joining again does not get round them.
+ */
+class GuestModerationService {
+  async findBan(hostId: string, sessionId: string, authUserId: string) {
+    // clerkUserId is the DB column name (kept for migration compat); stores Logto user ID
+    return prisma.guestBan.findFirst({
+      where: {
+        hostId,
+        clerkUserId: authUserId,
+        OR: [{ sessionId }, { sessionId: null }],
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  /** Checked before joining, when there is no guest row yet */
+  async getBanRestriction(hostId: string, sessionId: string, authUserId: string): Promise<GuestRestriction | null> {
+    const ban = await this.findBan(hostId, sessionId, authUserId);
+    return ban ? { state: 'banned', scope: ban.sessionId ? 'session' : 'host', reason: ban.reason } : null;
+  }
+
+  /** Bans win over kicks, and kicks over mutes */
+  async getRestriction(guest: ModeratedGuest, hostId: string): Promise<GuestRestriction | null> {
+    const banned = guest.clerkUserId
+      ? await this.getBanRestriction(hostId, guest.sessionId, guest.clerkUserId)
+      : null;
+
+    if (banned) {
+      return banned;
+    }
+
+    if (guest.kickedAt) {
+      return { state: 'kicked' };
+    }
+
+    if (guest.mutedUntil && guest.mutedUntil > new Date()) {
+      return { state: 'muted', until: guest.mutedUntil };
+    }
+
+    return null;
+  }
+
+  /** Guests still in the session; banned guests are kicked too, so they drop out */
+  async listGuests(sessionId: string) {
+    const guests = await prisma.guest.findMany({
+      where: { sessionId, kickedAt: null },
+      orderBy: { createdAt: 'asc' },
+    });
+    const now = new Date();
+
+    return guests.map((guest) => ({
+      id: guest.id,
+      name: guest.name,
+      joinedAt: guest.createdAt,
+      signedIn: Boolean(guest.clerkUserId),
+      mutedUntil: guest.mutedUntil && guest.mutedUntil > now ? guest.mutedUntil : null,
+    }));
+  }
+
+  private async getSessionGuest(sessionId: string, guestId: string) {
+    const guest = await prisma.guest.findUnique({ where: { id: guestId } });
+
+    if (!guest || guest.sessionId !== sessionId || guest.kickedAt) {
+      throw new Error('Guest not found');
+    }
+
+    return guest;
+  }
+
+  async kickGuest(sessionId: string, guestId: string) {
+    await this.getSessionGuest(sessionId, guestId);
+
+    return prisma.guest.update({
+      where: { id: guestId },
+      data: { kickedAt: new Date() },
+    });
+  }
+
+  async muteGuest(sessionId: string, guestId: string, minutes: number) {
+    await this.getSessionGuest(sessionId, guestId);
+
+    return prisma.guest.update({
+      where: { id: guestId },
+      data: { mutedUntil: new Date(Date.now() + minutes * 60 * 1000) },
+    });
+  }
+
+  async unmuteGuest(sessionId: string, guestId: string) {
+    await this.getSessionGuest(sessionId, guestId);
+
+    return prisma.guest.update({
+      where: { id: guestId },
+      data: { mutedUntil: null },
+    });
+  }
+
+  /** Ban the guest's Logto user and remove them from the session */
+  async banGuest(
+    session: { id: string; hostId: string },
+    guestId: string,
+    options: { scope: GuestBanScope; reason: string | null }
+  ) {
+    const guest = await this.getSessionGuest(session.id, guestId);
+
+    if (!guest.clerkUserId) {
+      throw new Error('This guest is not signed in, so they can only be kicked');
+    }
+
+    const [ban] = await prisma.$transaction([
+      prisma.guestBan.create({
+        data: {
+          hostId: session.hostId,
+          sessionId: options.scope === 'session' ? session.id : null,
+          clerkUserId: guest.clerkUserId,
+          guestName: guest.name,
+          reason: options.reason,
+        },
+      }),
+      prisma.guest.update({
+        where: { id: guestId },
+        data: { kickedAt: new Date() },
+      }),
+    ]);
+
+    return ban;
+  }
+
+  /** Bans covering this session: its own and the host's everywhere bans */
+  async listBans(sessionId: string, hostId: string) {
+    return prisma.guestBan.findMany({
+      where: { hostId, OR: [{ sessionId }, { sessionId: null }] },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  async liftBan(hostId: string, banId: string) {
+    const ban = await prisma.guestBan.findUnique({ where: { id: banId } });
+
+    if (!ban || ban.hostId !== hostId) {
+      throw new Error('Ban not found');
+    }
+
+    await prisma.guestBan.delete({ where: { id: banId } });
+  }
+}
+
+export const guestModerationService = new GuestModerationService();
@@ -0,0 +1,199 @@
+import { PrismaClient } from '@prisma/client';
+import { config } from '../config';
+
+const prisma = new PrismaClient();
+
+export type LeaderboardPeriod = 'day' | 'week' | 'month';
+
+export const LEADERBOARD_PERIODS: LeaderboardPeriod[] = ['day', 'week', 'month'];
+
+export type MetricCounts = {
+  dials: number;
+  appOuts: number;
+  underwriting: number;
+};
+
+export type MetricInput = Partial<MetricCounts> & {
+  userId: string;
+  fullName?: string | null;
+  date: string;
+};
+
+/**
+ * `replace` treats each row as the user's running total for that day (what
+ * most CRM exports produce); `increment` adds the row on top of it.
+ */
+export type MetricIngestMode = 'replace' | 'increment';
+
+export type AppliedMetric = {
+  userId: string;
+  fullName: string;
+  date: string;
+  totals: MetricCounts;
+  /** Change versus the stored row — never negative for increments */
+  delta: MetricCounts;
+};
+
+export type LeaderboardEntry = MetricCounts & {
+  id: string;
+  fullName: string;
+  totalPoints: number;
+};
+
+const METRIC_KEYS: Array<keyof MetricCounts> = ['dials', 'appOuts', 'underwriting'];
+
+const toDateString = (date: Date) => date.toISOString().slice(0, 10);
+
+class LeaderboardService {
+  computePoints(counts: MetricCounts): number {
+    const { points } = config.leaderboard;
+    const total = counts.dials * points.dials
+      + counts.appOuts * points.appOuts
+      + counts.underwriting * points.underwriting;
+    return Math.round(total * 100) / 100;
+  }
+
+  /** Inclusive ISO date range covered by a period, in UTC */
+  getPeriodRange(period: LeaderboardPeriod, reference = new Date()) {
+    const end = toDateString(reference);
+    const start = new Date(Date.UTC(
+      reference.getUTCFullYear(),
+      reference.getUTCMonth(),
+      reference.getUTCDate(),
+    ));
+
+    if (period === 'week') {
+      // Weeks start on Monday
+      const daysSinceMonday = (start.getUTCDay() + 6) % 7;
+      start.setUTCDate(start.getUTCDate() - daysSinceMonday);
+    } else if (period === 'month') {
+      start.setUTCDate(1);
+    }
+
+    return { start: toDateString(start), end };
+  }
+
+  async ingest(rows: MetricInput[], mode: MetricIngestMode): Promise<AppliedMetric[]> {
+    const applied: AppliedMetric[] = [];
+
+    // Sequential so duplicate rows for the same user/day accumulate correctly
+    for (const row of rows) {
+      const result = await prisma.$transaction(async (tx) => {
+        const existing = await tx.userDailyMetric.findUnique({
+          where: { userId_date: { userId: row.userId, date: row.date } },
+        });
+
+        const previous: MetricCounts = {
+          dials: existing?.dials ?? 0,
+          appOuts: existing?.appOuts ?? 0,
+          underwriting: existing?.underwriting ?? 0,
+        };
+        const totals = { ...previous };
+
+        for (const key of METRIC_KEYS) {
+          const value = row[key];
+          if (typeof value !== 'number') continue;
+          totals[key] = mode === 'increment' ? previous[key] + value : value;
+        }
+
+        const fullName = row.fullName?.trim() || existing?.fullName || row.userId;
+
+        await tx.userDailyMetric.upsert({
+          where: { userId_date: { userId: row.userId, date: row.date } },
+          create: { userId: row.userId, date: row.date, fullName, ...totals },
+          update: { fullName, ...totals },
+        });
+
+        return {
+          userId: row.userId,
+          fullName,
+          date: row.date,
+          totals,
+          delta: {
+            dials: totals.dials - previous.dials,
+            appOuts: totals.appOuts - previous.appOuts,
+            underwriting: totals.underwriting - previous.underwriting,
+          },
+        };
+      });
+
+      applied.push(result);
+    }
+
+    return applied;
+  }
+
+  async getLeaderboard(
+    period: LeaderboardPeriod,
+    options?: { userIds?: string[]; reference?: Date },
+  ): Promise<LeaderboardEntry[]> {
+    const { start, end } = this.getPeriodRange(period, options?.reference);
+
+    const rows = await prisma.userDailyMetric.findMany({
+      where: {
+        date: { gte: start, lte: end },
+        ...(options?.userIds ? { userId: { in: options.userIds } } : {}),
+      },
+      orderBy: { date: 'asc' },
+    });
+
+    const byUser = new Map<string, LeaderboardEntry>();
+
+    for (const row of rows) {
+      const entry = byUser.get(row.userId) ?? {
+        id: row.userId,
+        fullName: row.fullName,
+        dials: 0,
+        appOuts: 0,
+        underwriting: 0,
+        totalPoints: 0,
+      };
+
+      entry.fullName = row.fullName;
+      entry.dials += row.dials;
+      entry.appOuts += row.appOuts;
+      entry.underwriting += row.underwriting;
+      byUser.set(row.userId, entry);
+    }
+
+    return Array.from(byUser.values())
+      .map((entry) => ({ ...entry, totalPoints: this.computePoints(entry) }))
+      .sort((a, b) => b.totalPoints - a.totalPoints || a.fullName.localeCompare(b.fullName));
+  }
+
+  /** Leaderboard restricted to the host and guests who joined the session */
+  async getSessionLeaderboard(sessionId: string, period: LeaderboardPeriod, reference?: Date) {
+    const session = await prisma.session.findUnique({
+      where: { id: sessionId },
+      select: {
+        host: { select: { logtoUserId: true } },
+        guests: { select: { clerkUserId: true } },
+      },
+    });
+
+    if (!session) {
+      throw new Error('Session not found');
+    }
+
+    const userIds = new Set<string>();
+
+    if (session.host.logtoUserId) {
+      userIds.add(session.host.logtoUserId);
+    }
+
+    // clerkUserId is the DB column name (kept for migration compat); stores Logto user ID
+    for (const guest of session.guests) {
+      if (guest.clerkUserId) {
+        userIds.add(guest.clerkUserId);
+      }
+    }
+
+    if (userIds.size === 0) {
+      return [];
+    }
+
+    return this.getLeaderboard(period, { userIds: Array.from(userIds), reference });
+  }
+}
+
+export const leaderboardService = new LeaderboardService();
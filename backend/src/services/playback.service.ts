@@ -3,6 +3,10 @@ import { queueService } from './queue.service';
 import { spotifyService } from './spotify.service';
 import { broadcastQueueUpdate, broadcastPlaybackUpdate } from '../sockets/handlers';
 import { skipCounterService } from './skipCounter.service';
+import { presenceService } from './presence.service';
+import { sessionService } from './session.service';
+import { fallbackService } from './fallback.service';
+import { config } from '../config';
 
 interface MonitorState {
   hostId: string;
@@ -10,12 +14,16 @@ interface MonitorState {
   processing: boolean;
   lastQueuedItemId: string | null;
   pauseUntil: number | null;
+  /** Last time something was playing, someone was connected or the API touched the session */
+  lastActiveAt: number;
 }
 
 const MIN_POLL_DELAY_MS = 3000;
 const DEFAULT_IDLE_POLL_MS = 15000;
 const POST_TRACK_END_DELAY_MS = 5000;
 const POST_SKIP_DELAY_MS = 3000;
+/** Auto-fill this close to the end of the current track, so requests made meanwhile still win */
+const AUTO_FILL_LEAD_MS = 45000;
 
 class PlaybackService {
   private io: SocketIOServer | null = null;
@@ -61,6 +69,7 @@ class PlaybackService {
 
     if (existing) {
       existing.hostId = hostId;
+      existing.lastActiveAt = Date.now();
       if (!existing.timeout && !existing.processing) {
         this.schedulePoll(sessionId, 0);
       }
@@ -73,11 +82,39 @@ class PlaybackService {
       processing: false,
       lastQueuedItemId: null,
       pauseUntil: null,
+      lastActiveAt: Date.now(),
     });
 
     this.schedulePoll(sessionId, 0);
   }
 
+  /**
+   * Monitors only live in memory, so after a restart resume every active
+   * session that is still its host's current one instead of waiting for
+   * someone to search, add or skip.
+   */
+  async restoreMonitors() {
+    try {
+      const sessions = await sessionService.getResumableSessions();
+
+      for (const { sessionId, hostId } of sessions) {
+        this.ensureMonitor(sessionId, hostId);
+      }
+
+      if (sessions.length > 0) {
+        console.log(`Resumed playback monitoring for ${sessions.length} active session(s)`);
+      }
+    } catch (error) {
+      console.error('Failed to restore playback monitors:', error);
+    }
+  }
+
+  stopAll() {
+    for (const sessionId of Array.from(this.monitors.keys())) {
+      this.stopMonitor(sessionId);
+    }
+  }
+
   stopMonitor(sessionId: string) {
     const monitor = this.monitors.get(sessionId);
 
@@ -113,6 +150,22 @@ class PlaybackService {
     this.schedulePoll(sessionId, delayMs);
   }
 
+  /** Checked before each poll, so it also ends monitors stuck retrying Spotify errors */
+  private shouldStopIdleMonitor(sessionId: string, monitor: MonitorState) {
+    const idleMs = config.playback.monitorIdleMinutes * 60 * 1000;
+
+    if (idleMs <= 0) {
+      return false;
+    }
+
+    if (presenceService.countPresent(sessionId) > 0) {
+      monitor.lastActiveAt = Date.now();
+      return false;
+    }
+
+    return Date.now() - monitor.lastActiveAt >= idleMs;
+  }
+
   private schedulePoll(sessionId: string, delayMs: number) {
     const monitor = this.monitors.get(sessionId);
 
@@ -146,6 +199,12 @@ class PlaybackService {
       monitor.pauseUntil = null;
     }
 
+    if (this.shouldStopIdleMonitor(sessionId, monitor)) {
+      console.log(`Stopping idle playback monitor for session ${sessionId}`);
+      this.stopMonitor(sessionId);
+      return;
+    }
+
     if (!this.io) {
       return;
     }
@@ -164,6 +223,10 @@ class PlaybackService {
       const accessToken = await spotifyService.ensureValidToken(monitor.hostId);
       const playback = await spotifyService.getCurrentPlayback(accessToken);
 
+      if (playback?.is_playing) {
+        monitor.lastActiveAt = now;
+      }
+
       let queueState = await queueService.getQueueWithNext(sessionId);
       let nextDelay = DEFAULT_IDLE_POLL_MS;
       const requester = await this.resolveRequester(sessionId, playback?.item?.id);
@@ -200,6 +263,25 @@ class PlaybackService {
         nextDelay = POST_TRACK_END_DELAY_MS;
       }
 
+      const remainingMs = playback?.item && playback.is_playing
+        ? Math.max(0, (playback.item.duration_ms ?? 0) - (playback.progress_ms ?? 0))
+        : 0;
+      let autoFillDueInMs: number | null = null;
+
+      if (!queueState.nextUp && await fallbackService.isEnabled(sessionId)) {
+        if (remainingMs > AUTO_FILL_LEAD_MS) {
+          autoFillDueInMs = remainingMs - AUTO_FILL_LEAD_MS;
+        } else {
+          try {
+            if (await fallbackService.drawNext(sessionId)) {
+              queueState = await queueService.getQueueWithNext(sessionId);
+            }
+          } catch (fillError) {
+            console.warn(`Failed to auto-fill queue for session ${sessionId}:`, fillError);
+          }
+        }
+      }
+
       if (queueState.nextUp && queueState.nextUp.id !== monitor.lastQueuedItemId) {
         const trackUri = `spotify:track:${queueState.nextUp.spotifyTrackId}`;
         try {
@@ -244,6 +326,10 @@ class PlaybackService {
           nextDelay = Math.max(MIN_POLL_DELAY_MS, remaining + POST_TRACK_END_DELAY_MS);
         }
       }
+
+      if (autoFillDueInMs !== null) {
+        nextDelay = Math.max(MIN_POLL_DELAY_MS, Math.min(nextDelay, autoFillDueInMs));
+      }
       this.schedulePoll(sessionId, nextDelay);
     } catch (error: any) {
       if (error?.statusCode === 429) {
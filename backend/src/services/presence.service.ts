@@ -0,0 +1,176 @@
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+export type PresenceMember =
+  | { role: 'host'; userId: string }
+  | { role: 'guest'; guestId: string };
+
+export interface PresenceEntry {
+  /** `host:<userId>` or `guest:<guestId>` — stable across devices */
+  id: string;
+  role: 'host' | 'guest';
+  name: string;
+  connectedSince: string;
+  deviceCount: number;
+}
+
+interface PresenceRecord {
+  role: 'host' | 'guest';
+  name: string;
+  connectedSince: Date;
+  sockets: Set<string>;
+}
+
+const memberKey = (member: PresenceMember) =>
+  member.role === 'host' ? `host:${member.userId}` : `guest:${member.guestId}`;
+
+/**
+ * In-memory roster of who is connected to each session, keyed by the
+ * authenticated host User or Guest so several tabs/devices count once.
+ */
+class PresenceService {
+  private sessions = new Map<string, Map<string, PresenceRecord>>();
+  /** socketId → sessionId → member key, for cleanup on disconnect */
+  private sockets = new Map<string, Map<string, string>>();
+
+  private async resolveName(member: PresenceMember) {
+    if (member.role === 'host') {
+      const user = await prisma.user.findUnique({
+        where: { id: member.userId },
+        select: { displayName: true },
+      });
+      return user?.displayName ?? 'Host';
+    }
+
+    const guest = await prisma.guest.findUnique({
+      where: { id: member.guestId },
+      select: { name: true },
+    });
+    return guest?.name ?? 'Guest';
+  }
+
+  /**
+   * Returns true when the roster changed (new person or new device). The
+   * socket is recorded before the name lookup, so a disconnect during the
+   * lookup still finds it to remove.
+   */
+  async join(sessionId: string, socketId: string, member: PresenceMember) {
+    const key = memberKey(member);
+    const socketSessions = this.sockets.get(socketId) ?? new Map<string, string>();
+
+    if (socketSessions.get(sessionId) === key) {
+      return false;
+    }
+
+    const roster = this.sessions.get(sessionId) ?? new Map<string, PresenceRecord>();
+    let record = roster.get(key);
+
+    if (record) {
+      record.sockets.add(socketId);
+    } else {
+      record = {
+        role: member.role,
+        name: member.role === 'host' ? 'Host' : 'Guest',
+        connectedSince: new Date(),
+        sockets: new Set([socketId]),
+      };
+      roster.set(key, record);
+    }
+
+    this.sessions.set(sessionId, roster);
+    socketSessions.set(sessionId, key);
+    this.sockets.set(socketId, socketSessions);
+
+    const name = await this.resolveName(member);
+
+    // Only name the record if the member didn't leave in the meantime
+    if (this.sessions.get(sessionId)?.get(key) === record) {
+      record.name = name;
+    }
+
+    return true;
+  }
+
+  /** Returns true when the roster changed */
+  leave(sessionId: string, socketId: string) {
+    const socketSessions = this.sockets.get(socketId);
+    const key = socketSessions?.get(sessionId);
+
+    if (!socketSessions || !key) {
+      return false;
+    }
+
+    socketSessions.delete(sessionId);
+    if (socketSessions.size === 0) {
+      this.sockets.delete(socketId);
+    }
+
+    const roster = this.sessions.get(sessionId);
+    const record = roster?.get(key);
+
+    if (!roster || !record) {
+      return false;
+    }
+
+    record.sockets.delete(socketId);
+
+    if (record.sockets.size === 0) {
+      roster.delete(key);
+    }
+
+    if (roster.size === 0) {
+      this.sessions.delete(sessionId);
+    }
+
+    return true;
+  }
+
+  /** Remove a disconnected socket everywhere; returns the affected session IDs */
+  leaveAll(socketId: string) {
+    const sessionIds = Array.from(this.sockets.get(socketId)?.keys() ?? []);
+    return sessionIds.filter((sessionId) => this.leave(sessionId, socketId));
+  }
+
+  isPresent(sessionId: string, socketId: string) {
+    return this.sockets.get(socketId)?.has(sessionId) ?? false;
+  }
+
+  /** Host first, then everyone else in the order they arrived */
+  getRoster(sessionId: string): PresenceEntry[] {
+    const roster = this.sessions.get(sessionId);
+
+    if (!roster) {
+      return [];
+    }
+
+    return Array.from(roster.entries())
+      .map(([id, record]) => ({
+        id,
+        role: record.role,
+        name: record.name,
+        connectedSince: record.connectedSince.toISOString(),
+        deviceCount: record.sockets.size,
+      }))
+      .sort((a, b) => (a.role === b.role
+        ? a.connectedSince.localeCompare(b.connectedSince)
+        : a.role === 'host' ? -1 : 1));
+  }
+
+  /** Distinct people connected to the session, optionally of one role */
+  countPresent(sessionId: string, role?: PresenceEntry['role']) {
+    const roster = this.sessions.get(sessionId);
+
+    if (!roster) {
+      return 0;
+    }
+
+    if (!role) {
+      return roster.size;
+    }
+
+    return Array.from(roster.values()).filter((record) => record.role === role).length;
+  }
+}
+
+export const presenceService = new PresenceService();
@@ -1,8 +1,97 @@
-import { PrismaClient } from '@prisma/client';
+import { Prisma, PrismaClient, QueueOrderingMode, SkipThresholdMode } from '@prisma/client';
+import {
+  buildReplayCooldowns,
+  cooldownCutoff,
+  findReplayCooldown,
+  formatCooldownWait,
+  parseArtistIds,
+  replayCooldownMessage,
+} from '../lib/replayCooldown';
+import { orderQueueItems, requesterKey } from '../lib/queueOrdering';
 import { bannedTracksService } from './bannedTracks.service';
+import type { CreditSplit } from './credit.service';
+import { presenceService } from './presence.service';
 
 const prisma = new PrismaClient();
 
+export const QUEUE_ORDERING_MODES: QueueOrderingMode[] = [
+  QueueOrderingMode.VOTES,
+  QueueOrderingMode.ROUND_ROBIN,
+];
+
+/** A guest's use of the session's queue limits; a null limit means unlimited */
+export type GuestQueueQuota = {
+  active: { used: number; limit: number | null };
+  hourly: { used: number; limit: number | null };
+};
+
+const QUOTA_WINDOW_MS = 60 * 60 * 1000;
+
+/** A guest's requests inside the quota window: items they added, or auto-filled items they claimed */
+const requestedSince = (sessionId: string, guestId: string, since: Date) => ({
+  sessionId,
+  addedByGuestId: guestId,
+  OR: [{ createdAt: { gte: since } }, { claimedAt: { gte: since } }],
+});
+
+/** A track the session's rules turn away (length, ban, cooldown, duplicate), as opposed to a failure worth retrying */
+export class TrackRejectedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TrackRejectedError';
+  }
+}
+
+const countVoteScore = (votes: { voteType: number; weight: number }[]) =>
+  votes.reduce((sum, vote) => sum + vote.voteType * vote.weight, 0);
+
+export const VOTE_CONFLICT_MESSAGE = 'Your vote changed while it was being recorded, please try again';
+
+export interface BuryThresholdSettings {
+  mode: SkipThresholdMode;
+  /** Net downvotes for ABSOLUTE, percent (1-100) of present guests for PERCENTAGE */
+  value: number;
+}
+
+/** A track removed by downvotes, with what is needed to refund and tell its requester */
+export type BuriedQueueItem = {
+  id: string;
+  sessionId: string;
+  trackName: string;
+  addedById: string | null;
+  addedByGuestId: string | null;
+  creditsSpent: number;
+  bonusCreditsSpent: number;
+  threshold: number;
+  refundRequester: boolean;
+  boosts: { userId: string; amount: number; bonusAmount: number }[];
+};
+
+/** Net downvotes that bury a track right now, given how many guests are connected */
+export function computeBuryThreshold(settings: BuryThresholdSettings, presentGuests: number) {
+  const target = settings.mode === SkipThresholdMode.PERCENTAGE
+    ? Math.ceil((presentGuests * settings.value) / 100)
+    : settings.value;
+
+  return Math.max(1, target);
+}
+
+/** Where the host wants a queue item: a slot in the upcoming list, one step either way, or next up */
+export type QueueMoveTarget =
+  | { position: number }
+  | { direction: 'up' | 'down' }
+  | { nextUp: true };
+
+export type TrackDetails = {
+  spotifyTrackId: string;
+  trackName: string;
+  trackArtist: string;
+  trackAlbum: string | null;
+  trackImage: string | null;
+  trackDuration: number;
+  artistSpotifyIds: string[];
+};
+
 export class QueueService {
   private includeRelations() {
     return {
@@ -22,18 +111,59 @@ export class QueueService {
     };
   }
 
+  async getOrderingMode(sessionId: string): Promise<QueueOrderingMode> {
+    const session = await prisma.session.findUnique({
+      where: { id: sessionId },
+      select: { queueOrderingMode: true },
+    });
+
+    return session?.queueOrderingMode ?? QueueOrderingMode.VOTES;
+  }
+
   private async getOrderedQueue(sessionId: string) {
-    return prisma.queueItem.findMany({
+    const [mode, items] = await Promise.all([
+      this.getOrderingMode(sessionId),
+      prisma.queueItem.findMany({
+        where: {
+          sessionId,
+          played: false,
+        },
+        include: this.includeRelations(),
+      }),
+    ]);
+
+    const lastPlayedAt = mode === QueueOrderingMode.ROUND_ROBIN
+      ? await this.getLastPlayedByRequester(sessionId)
+      : undefined;
+
+    return orderQueueItems(items, mode, lastPlayedAt);
+  }
+
+  /** When each requester last had a track played in the session, for round-robin turns */
+  private async getLastPlayedByRequester(sessionId: string) {
+    const groups = await prisma.queueItem.groupBy({
+      by: ['addedById', 'addedByGuestId'],
       where: {
         sessionId,
-        played: false,
+        played: true,
+        playedAt: { not: null },
+        OR: [{ addedById: { not: null } }, { addedByGuestId: { not: null } }],
       },
-      include: this.includeRelations(),
-      orderBy: [
-        { voteScore: 'desc' },
-        { createdAt: 'asc' },
-      ],
+      _max: { playedAt: true },
     });
+    const lastPlayedAt = new Map<string, Date>();
+
+    for (const group of groups) {
+      const key = requesterKey({ id: '', addedById: group.addedById, addedByGuestId: group.addedByGuestId });
+      const playedAt = group._max.playedAt;
+      const previous = lastPlayedAt.get(key);
+
+      if (playedAt && (!previous || playedAt > previous)) {
+        lastPlayedAt.set(key, playedAt);
+      }
+    }
+
+    return lastPlayedAt;
   }
 
   private async getCurrentNextUp(sessionId: string) {
@@ -65,8 +195,11 @@ export class QueueService {
 
   private async promoteNextTrack(sessionId: string) {
     const existing = await this.getCurrentNextUp(sessionId);
+    // A requested track takes the slot back from an auto-filled one
+    const displaced = existing?.isAutoFill
+      && (await this.getOrderedQueue(sessionId)).some((item) => !item.isAutoFill);
 
-    if (existing) {
+    if (existing && !displaced) {
       await prisma.queueItem.updateMany({
         where: {
           sessionId,
@@ -78,16 +211,7 @@ export class QueueService {
       return existing;
     }
 
-    const next = await prisma.queueItem.findFirst({
-      where: {
-        sessionId,
-        played: false,
-      } as any,
-      orderBy: [
-        { voteScore: 'desc' },
-        { createdAt: 'asc' },
-      ],
-    });
+    const [next] = await this.getOrderedQueue(sessionId);
 
     if (!next) {
       return null;
@@ -116,18 +240,10 @@ export class QueueService {
       nextUp = await this.promoteNextTrack(sessionId);
     }
 
-    const queue = await prisma.queueItem.findMany({
-      where: {
-        sessionId,
-        played: false,
-        ...(nextUp ? { id: { not: nextUp.id } } : {}),
-      } as any,
-      include: this.includeRelations(),
-      orderBy: [
-        { voteScore: 'desc' },
-        { createdAt: 'asc' },
-      ],
-    });
+    // Order the full unplayed set so the next-up track still counts as its
+    // requester's turn in round-robin mode, then drop it from the list.
+    const ordered = await this.getOrderedQueue(sessionId);
+    const queue = nextUp ? ordered.filter((item) => item.id !== nextUp!.id) : ordered;
 
     return {
       nextUp: nextUp || null,
@@ -144,6 +260,35 @@ export class QueueService {
     });
   }
 
+  /**
+   * Count a guest's unplayed tracks and the tracks they added in the last
+   * hour against the session's limits. Auto-filled tracks a guest claimed
+   * count from when they were auto-filled.
+   */
+  async getGuestQuota(
+    sessionId: string,
+    guestId: string,
+    db: Prisma.TransactionClient = prisma
+  ): Promise<GuestQueueQuota> {
+    const [session, active, hourly] = await Promise.all([
+      db.session.findUnique({
+        where: { id: sessionId },
+        select: { guestMaxActiveItems: true, guestMaxItemsPerHour: true },
+      }),
+      db.queueItem.count({
+        where: { sessionId, addedByGuestId: guestId, played: false },
+      }),
+      db.queueItem.count({
+        where: requestedSince(sessionId, guestId, new Date(Date.now() - QUOTA_WINDOW_MS)),
+      }),
+    ]);
+
+    return {
+      active: { used: active, limit: session?.guestMaxActiveItems ?? null },
+      hourly: { used: hourly, limit: session?.guestMaxItemsPerHour ?? null },
+    };
+  }
+
   async addToQueue(
     sessionId: string,
     spotifyTrackId: string,
@@ -153,79 +298,351 @@ export class QueueService {
     trackImage: string | null,
     trackDuration: number,
     artistSpotifyIds: string[],
+    actor: { userId?: string; guestId?: string },
+    options: { exemptFromQuota?: boolean; spent?: CreditSplit } = {}
+  ) {
+    await this.assertTrackAllowed(sessionId, spotifyTrackId, trackDuration, artistSpotifyIds);
+
+    const spent = options.spent ?? { daily: 0, bonus: 0 };
+
+    const cooldown = findReplayCooldown(spotifyTrackId, artistSpotifyIds, await this.getReplayCooldowns(sessionId));
+
+    if (cooldown) {
+      throw new TrackRejectedError(replayCooldownMessage(cooldown));
+    }
+
+    // The duplicate and quota checks commit with the insert, so parallel
+    // adds from one guest can't all pass them
+    const queueItem = await prisma.$transaction(async (tx) => {
+      const existing = await tx.queueItem.findFirst({
+        where: {
+          sessionId,
+          spotifyTrackId,
+          played: false,
+        },
+      });
+
+      if (existing && !existing.isAutoFill) {
+        throw new TrackRejectedError('Track already in queue');
+      }
+
+      if (actor.guestId && !options.exemptFromQuota) {
+        await this.assertWithinGuestQuota(tx, sessionId, actor.guestId);
+      }
+
+      if (existing) {
+        // Requesting an auto-filled track claims it instead of duplicating it
+        return tx.queueItem.update({
+          where: { id: existing.id },
+          data: {
+            isAutoFill: false,
+            addedById: actor.userId ?? null,
+            addedByGuestId: actor.guestId ?? null,
+            creditsSpent: spent.daily + spent.bonus,
+            bonusCreditsSpent: spent.bonus,
+            claimedAt: new Date(),
+          },
+          include: this.includeRelations(),
+        });
+      }
+
+      const data: any = {
+        sessionId,
+        spotifyTrackId,
+        trackName,
+        trackArtist,
+        trackAlbum,
+        trackImage,
+        trackDuration,
+        artistSpotifyIds: JSON.stringify(artistSpotifyIds),
+        creditsSpent: spent.daily + spent.bonus,
+        bonusCreditsSpent: spent.bonus,
+      };
+
+      if (actor.userId) {
+        data.addedById = actor.userId;
+      }
+
+      if (actor.guestId) {
+        data.addedByGuestId = actor.guestId;
+      }
+
+      return tx.queueItem.create({
+        data,
+        include: this.includeRelations(),
+      });
+    });
+
+    await this.promoteNextTrack(sessionId);
+
+    const refreshed = await prisma.queueItem.findUnique({
+      where: { id: queueItem.id },
+      include: this.includeRelations(),
+    });
+
+    return refreshed ?? queueItem;
+  }
+
+  /**
+   * Queue a celebration anthem straight into the next-up slot, skipping
+   * vote ordering. An unplayed copy of the same track is promoted instead
+   * of being rejected as a duplicate.
+   */
+  async addCelebration(
+    sessionId: string,
+    track: TrackDetails,
     actor: { userId?: string; guestId?: string }
   ) {
-    // Check session settings first
-    const session = await prisma.session.findUnique({
-      where: { id: sessionId },
-      select: { maxSongDuration: true },
+    await this.assertTrackAllowed(sessionId, track.spotifyTrackId, track.trackDuration, track.artistSpotifyIds);
+
+    const existing = await prisma.queueItem.findFirst({
+      where: {
+        sessionId,
+        spotifyTrackId: track.spotifyTrackId,
+        played: false,
+      },
     });
 
-    if (session?.maxSongDuration) {
-      const trackDurationMinutes = trackDuration / 60000; // Convert ms to minutes
-      if (trackDurationMinutes > session.maxSongDuration) {
-        throw new Error(`Track duration (${Math.ceil(trackDurationMinutes)} min) exceeds the session limit of ${session.maxSongDuration} minutes`);
+    return prisma.$transaction(async (tx) => {
+      await tx.queueItem.updateMany({
+        where: { sessionId, isNextUp: true },
+        data: { isNextUp: false },
+      });
+
+      if (existing) {
+        return tx.queueItem.update({
+          where: { id: existing.id },
+          data: { isCelebration: true, isNextUp: true },
+          include: this.includeRelations(),
+        });
       }
-    }
 
-    const bannedArtist = await bannedTracksService.findBannedArtist(sessionId, artistSpotifyIds);
+      return tx.queueItem.create({
+        data: {
+          sessionId,
+          spotifyTrackId: track.spotifyTrackId,
+          trackName: track.trackName,
+          trackArtist: track.trackArtist,
+          trackAlbum: track.trackAlbum,
+          trackImage: track.trackImage,
+          trackDuration: track.trackDuration,
+          artistSpotifyIds: JSON.stringify(track.artistSpotifyIds),
+          addedById: actor.userId ?? null,
+          addedByGuestId: actor.guestId ?? null,
+          isCelebration: true,
+          isNextUp: true,
+        },
+        include: this.includeRelations(),
+      });
+    });
+  }
 
-    if (bannedArtist) {
-      throw new Error(`Artist "${bannedArtist.artistName}" has been banned by the host`);
+  /**
+   * Queue tracks pinned ahead of vote ordering, in the order given. With
+   * `ahead` they also go before items that are already pinned. An unplayed
+   * copy of a track is pinned in place rather than duplicated; tracks that
+   * break session rules are skipped and reported. The current next-up item
+   * gives up its slot unless it is a celebration — if the monitor already
+   * handed it to Spotify it will still play from there.
+   */
+  async addPinned(
+    sessionId: string,
+    tracks: TrackDetails[],
+    actor: { userId?: string; guestId?: string },
+    options: { ahead: boolean }
+  ) {
+    const allowed: TrackDetails[] = [];
+    const skipped: Array<{ spotifyTrackId: string; reason: string }> = [];
+
+    for (const track of tracks) {
+      try {
+        await this.assertTrackAllowed(sessionId, track.spotifyTrackId, track.trackDuration, track.artistSpotifyIds);
+        allowed.push(track);
+      } catch (error: any) {
+        skipped.push({ spotifyTrackId: track.spotifyTrackId, reason: error?.message ?? 'Track not allowed' });
+      }
     }
 
-    const banned = await bannedTracksService.isTrackBanned(sessionId, spotifyTrackId);
+    const queued = await prisma.$transaction(async (tx) => {
+      const bounds = await tx.queueItem.aggregate({
+        where: { sessionId, played: false, pinOrder: { not: null } },
+        _min: { pinOrder: true },
+        _max: { pinOrder: true },
+      });
 
-    if (banned) {
-      throw new Error('Track has been banned by the host');
-    }
+      const firstPin = options.ahead
+        ? (bounds._min.pinOrder ?? 0) - allowed.length
+        : (bounds._max.pinOrder ?? -1) + 1;
 
-    // Check for duplicates in unplayed queue
-    const existing = await prisma.queueItem.findFirst({
-      where: {
+      const items = [];
+
+      for (const [index, track] of allowed.entries()) {
+        const existing = await tx.queueItem.findFirst({
+          where: { sessionId, spotifyTrackId: track.spotifyTrackId, played: false },
+        });
+
+        items.push(existing
+          ? await tx.queueItem.update({
+            where: { id: existing.id },
+            data: { pinOrder: firstPin + index },
+          })
+          : await tx.queueItem.create({
+            data: {
+              sessionId,
+              spotifyTrackId: track.spotifyTrackId,
+              trackName: track.trackName,
+              trackArtist: track.trackArtist,
+              trackAlbum: track.trackAlbum,
+              trackImage: track.trackImage,
+              trackDuration: track.trackDuration,
+              artistSpotifyIds: JSON.stringify(track.artistSpotifyIds),
+              addedById: actor.userId ?? null,
+              addedByGuestId: actor.guestId ?? null,
+              pinOrder: firstPin + index,
+            },
+          }));
+      }
+
+      if (items.length > 0) {
+        await tx.queueItem.updateMany({
+          where: { sessionId, isNextUp: true, isCelebration: false },
+          data: { isNextUp: false },
+        });
+      }
+
+      return items;
+    });
+
+    await this.promoteNextTrack(sessionId);
+
+    return { queued, skipped };
+  }
+
+  /**
+   * Queue a track drawn from the session's fallback source. It carries no
+   * requester and gives way to anything guests or the host queue.
+   */
+  async addAutoFill(sessionId: string, track: TrackDetails) {
+    await this.assertTrackAllowed(sessionId, track.spotifyTrackId, track.trackDuration, track.artistSpotifyIds);
+
+    const queueItem = await prisma.queueItem.create({
+      data: {
         sessionId,
-        spotifyTrackId,
+        spotifyTrackId: track.spotifyTrackId,
+        trackName: track.trackName,
+        trackArtist: track.trackArtist,
+        trackAlbum: track.trackAlbum,
+        trackImage: track.trackImage,
+        trackDuration: track.trackDuration,
+        artistSpotifyIds: JSON.stringify(track.artistSpotifyIds),
+        isAutoFill: true,
+      },
+    });
+
+    await this.promoteNextTrack(sessionId);
+
+    return queueItem;
+  }
+
+  /** Drop an unplayed auto-filled item whose score fell to `threshold`; true if it went */
+  async removeVotedAwayAutoFill(queueItemId: string, threshold: number) {
+    const { count } = await prisma.queueItem.deleteMany({
+      where: {
+        id: queueItemId,
+        isAutoFill: true,
         played: false,
+        voteScore: { lte: threshold },
       },
     });
 
-    if (existing) {
-      throw new Error('Track already in queue');
+    return count > 0;
+  }
+
+  /**
+   * When recently played tracks and artists can be requested again, from the
+   * session's cooldown settings. Only guest and host requests are held back;
+   * celebrations and scheduled pins play regardless.
+   */
+  async getReplayCooldowns(sessionId: string) {
+    const session = await prisma.session.findUnique({
+      where: { id: sessionId },
+      select: { trackCooldownMinutes: true, artistCooldownMinutes: true },
+    });
+
+    const settings = session ?? { trackCooldownMinutes: 0, artistCooldownMinutes: 0 };
+    const cutoff = cooldownCutoff(settings);
+
+    if (!cutoff) {
+      return buildReplayCooldowns([], settings);
     }
 
-    const queueModel = (prisma as any).queueItem;
+    const played = await prisma.queueItem.findMany({
+      where: { sessionId, played: true, playedAt: { gte: cutoff } },
+      select: { spotifyTrackId: true, artistSpotifyIds: true, playedAt: true },
+    });
 
-    const data: any = {
-      sessionId,
-      spotifyTrackId,
-      trackName,
-      trackArtist,
-      trackAlbum,
-      trackImage,
-      trackDuration,
-    };
+    return buildReplayCooldowns(
+      played.map((item) => ({
+        spotifyTrackId: item.spotifyTrackId,
+        artistSpotifyIds: parseArtistIds(item.artistSpotifyIds),
+        playedAt: item.playedAt!,
+      })),
+      settings
+    );
+  }
 
-    if (actor.userId) {
-      data.addedById = actor.userId;
+  private async assertWithinGuestQuota(db: Prisma.TransactionClient, sessionId: string, guestId: string) {
+    const { active, hourly } = await this.getGuestQuota(sessionId, guestId, db);
+
+    if (active.limit !== null && active.used >= active.limit) {
+      throw new Error(`Queue limit reached: you already have ${active.used} of ${active.limit} tracks waiting`);
     }
 
-    if (actor.guestId) {
-      data.addedByGuestId = actor.guestId;
+    if (hourly.limit !== null && hourly.used >= hourly.limit) {
+      const since = new Date(Date.now() - QUOTA_WINDOW_MS);
+      const recent = await db.queueItem.findMany({
+        where: requestedSince(sessionId, guestId, since),
+        select: { createdAt: true, claimedAt: true },
+      });
+      const requestTimes = recent
+        .map((item) => (item.claimedAt && item.claimedAt >= since ? item.claimedAt : item.createdAt).getTime());
+      const oldest = requestTimes.length > 0 ? Math.min(...requestTimes) : Date.now();
+      const freesAt = new Date(oldest + QUOTA_WINDOW_MS);
+
+      throw new Error(`Hourly limit reached: you can add another track in ${formatCooldownWait(freesAt)}`);
     }
+  }
 
-    const queueItem = await queueModel.create({
-      data,
-      include: this.includeRelations(),
+  /** Session length limit and host bans, shared by every way a track enters the queue */
+  private async assertTrackAllowed(
+    sessionId: string,
+    spotifyTrackId: string,
+    trackDuration: number,
+    artistSpotifyIds: string[]
+  ) {
+    const session = await prisma.session.findUnique({
+      where: { id: sessionId },
+      select: { maxSongDuration: true },
     });
 
-    await this.promoteNextTrack(sessionId);
+    if (session?.maxSongDuration) {
+      const trackDurationMinutes = trackDuration / 60000; // Convert ms to minutes
+      if (trackDurationMinutes > session.maxSongDuration) {
+        throw new TrackRejectedError(`Track duration (${Math.ceil(trackDurationMinutes)} min) exceeds the session limit of ${session.maxSongDuration} minutes`);
+      }
+    }
 
-    const refreshed = await prisma.queueItem.findUnique({
-      where: { id: queueItem.id },
-      include: this.includeRelations(),
-    });
+    const bannedArtist = await bannedTracksService.findBannedArtist(sessionId, artistSpotifyIds);
 
-    return refreshed ?? queueItem;
+    if (bannedArtist) {
+      throw new TrackRejectedError(`Artist "${bannedArtist.artistName}" has been banned by the host`);
+    }
+
+    const banned = await bannedTracksService.isTrackBanned(sessionId, spotifyTrackId);
+
+    if (banned) {
+      throw new TrackRejectedError('Track has been banned by the host');
+    }
   }
 
   async getQueue(sessionId: string) {
@@ -263,30 +680,144 @@ export class QueueService {
     await this.promoteNextTrack(queueItem.sessionId);
   }
 
+  /**
+   * Host reordering. The moved item and every item ahead of it (plus any
+   * pinned items behind it) are re-pinned in their new order, so the result
+   * sticks however votes change. Celebrations stay in front and auto-filled
+   * tracks stay behind requested ones; moving an auto-filled track claims it
+   * for the host. A next-up track the monitor already handed to Spotify will
+   * still play from there.
+   */
+  async moveQueueItem(queueItemId: string, actor: { userId?: string; guestId?: string }, target: QueueMoveTarget) {
+    const queueItem = await prisma.queueItem.findUnique({
+      where: { id: queueItemId },
+      include: { session: true },
+    });
+
+    if (!queueItem || queueItem.played) {
+      throw new Error('Queue item not found');
+    }
+
+    if (!actor.userId || queueItem.session.hostId !== actor.userId) {
+      throw new Error('Only the host can reorder the queue');
+    }
+
+    const { nextUp, queue } = await this.getQueueWithNext(queueItem.sessionId);
+    const full = nextUp ? [nextUp, ...queue] : queue;
+    const current = full.findIndex((entry) => entry.id === queueItemId);
+    const offset = nextUp ? 1 : 0;
+
+    const requestedIndex = 'nextUp' in target ? 0
+      : 'position' in target ? target.position + offset
+      : target.direction === 'up' ? Math.max(current - 1, offset)
+      : current + 1;
+
+    const others = full.filter((entry) => entry.id !== queueItemId);
+    const celebrations = others.filter((entry) => entry.isCelebration).length;
+    const requested = others.filter((entry) => !entry.isAutoFill).length;
+    const index = Math.min(Math.max(requestedIndex, celebrations), requested);
+    const reordered = [...others.slice(0, index), queueItem, ...others.slice(index)];
+
+    let end = index;
+    reordered.forEach((entry, position) => {
+      if (entry.pinOrder != null && !entry.isCelebration) {
+        end = Math.max(end, position);
+      }
+    });
+
+    await prisma.$transaction(async (tx) => {
+      for (let position = celebrations; position <= end; position++) {
+        const entry = reordered[position];
+
+        // An untouched next-up item keeps its slot without being pinned
+        if (position === 0 && entry.id === nextUp?.id && entry.id !== queueItemId) {
+          continue;
+        }
+
+        await tx.queueItem.update({
+          where: { id: entry.id },
+          data: entry.id === queueItemId
+            ? {
+              pinOrder: position,
+              isCelebration: false,
+              ...(queueItem.isAutoFill ? { isAutoFill: false, addedById: actor.userId } : {}),
+            }
+            : { pinOrder: position },
+        });
+      }
+
+      if (reordered[0].id !== nextUp?.id) {
+        await tx.queueItem.updateMany({
+          where: { sessionId: queueItem.sessionId, isNextUp: true },
+          data: { isNextUp: false },
+        });
+        await tx.queueItem.update({
+          where: { id: reordered[0].id },
+          data: { isNextUp: true },
+        });
+      }
+    });
+
+    return queueItem;
+  }
+
+  /** Hand a host-pinned item back to vote ordering */
+  async unpinQueueItem(queueItemId: string, actor: { userId?: string; guestId?: string }) {
+    const queueItem = await prisma.queueItem.findUnique({
+      where: { id: queueItemId },
+      include: { session: true },
+    });
+
+    if (!queueItem || queueItem.played) {
+      throw new Error('Queue item not found');
+    }
+
+    if (!actor.userId || queueItem.session.hostId !== actor.userId) {
+      throw new Error('Only the host can reorder the queue');
+    }
+
+    await prisma.queueItem.update({
+      where: { id: queueItemId },
+      data: { pinOrder: null },
+    });
+
+    await this.promoteNextTrack(queueItem.sessionId);
+
+    return queueItem;
+  }
+
   async vote(
     queueItemId: string,
     actor: { userId?: string; guestId?: string },
     voteType: number,
     hooks?: {
+      /**
+       * Runs inside the vote's transaction; whatever it writes through `tx`
+       * commits or rolls back with the vote. May return the bonus part of
+       * what an added vote cost, so withdrawing it refunds the same split.
+       */
       beforeChange?: (intent: {
         action: 'add' | 'remove' | 'change';
         voteType: number;
         previousVoteType: number | null;
+        /** Bonus credits the vote being removed was paid with */
+        previousBonusCreditsSpent: number;
         actorType: 'user' | 'guest';
-      }) => Promise<void> | void;
+      }, tx: Prisma.TransactionClient) => Promise<{ bonusCreditsSpent: number } | void> | { bonusCreditsSpent: number } | void;
       afterChange?: (result: {
         action: 'added' | 'removed' | 'changed';
         voteType: number;
         previousVoteType: number | null;
         actorType: 'user' | 'guest';
       }) => Promise<void> | void;
-    }
+    },
+    options: { weight?: number } = {}
   ) {
     if (!actor.userId && !actor.guestId) {
       throw new Error('Not authorized to vote');
     }
 
-    const voteModel = (prisma as any).vote;
+    const weight = options.weight ?? 1;
 
     const applyChange = async (
       actorType: 'user' | 'guest',
@@ -306,7 +837,7 @@ export class QueueService {
             },
           };
 
-      const existingVote = await voteModel.findUnique({
+      const existingVote = await prisma.vote.findUnique({
         where: whereKey,
       });
 
@@ -319,39 +850,68 @@ export class QueueService {
         action: intent,
         voteType,
         previousVoteType: existingVote?.voteType ?? null,
+        previousBonusCreditsSpent: existingVote?.bonusCreditsSpent ?? 0,
         actorType,
       } as const;
 
-      await hooks?.beforeChange?.(voteIntent);
-
-      let resultAction: 'added' | 'removed' | 'changed';
-
-      if (intent === 'remove' && existingVote) {
-        await voteModel.delete({
-          where: { id: existingVote.id },
-        });
-        resultAction = 'removed';
-      } else if (intent === 'change' && existingVote) {
-        await voteModel.update({
-          where: { id: existingVote.id },
-          data: { voteType },
-        });
-        resultAction = 'changed';
-      } else {
-        await voteModel.create({
-          data: {
-            queueItemId,
-            voteType,
-            ...(actorType === 'user'
-              ? { userId: (identifier as { userId: string }).userId }
-              : { guestId: (identifier as { guestId: string }).guestId }),
-          },
+      // The vote, its effect on the score and anything the hook charges
+      // commit together. Writes only match the vote as it was read above, so
+      // a concurrent click from the same voter fails here instead of being
+      // counted twice.
+      const { resultAction, voteScore } = await prisma.$transaction(async (tx) => {
+        const charged = await hooks?.beforeChange?.(voteIntent, tx);
+        let action: 'added' | 'removed' | 'changed';
+        let delta: number;
+
+        if (intent === 'remove' && existingVote) {
+          const { count } = await tx.vote.deleteMany({
+            where: { id: existingVote.id, voteType: existingVote.voteType, weight: existingVote.weight },
+          });
+          if (count === 0) {
+            throw new Error(VOTE_CONFLICT_MESSAGE);
+          }
+          action = 'removed';
+          delta = -existingVote.voteType * existingVote.weight;
+        } else if (intent === 'change' && existingVote) {
+          const { count } = await tx.vote.updateMany({
+            where: { id: existingVote.id, voteType: existingVote.voteType, weight: existingVote.weight },
+            data: { voteType, weight },
+          });
+          if (count === 0) {
+            throw new Error(VOTE_CONFLICT_MESSAGE);
+          }
+          action = 'changed';
+          delta = voteType * weight - existingVote.voteType * existingVote.weight;
+        } else {
+          await tx.vote.create({
+            data: {
+              queueItemId,
+              voteType,
+              weight,
+              bonusCreditsSpent: charged?.bonusCreditsSpent ?? 0,
+              ...(actorType === 'user'
+                ? { userId: (identifier as { userId: string }).userId }
+                : { guestId: (identifier as { guestId: string }).guestId }),
+            },
+          });
+          action = 'added';
+          delta = voteType * weight;
+        }
+
+        const queueItem = await tx.queueItem.update({
+          where: { id: queueItemId },
+          data: { voteScore: { increment: delta } },
+          select: { voteScore: true },
         });
-        resultAction = 'added';
-      }
 
-      await this.updateVoteScore(queueItemId);
-      const voteScore = await this.getVoteScore(queueItemId);
+        return { resultAction: action, voteScore: queueItem.voteScore };
+      }).catch((error) => {
+        // Another request created this voter's vote first
+        if (error?.code === 'P2002') {
+          throw new Error(VOTE_CONFLICT_MESSAGE);
+        }
+        throw error;
+      });
 
       await hooks?.afterChange?.({
         action: resultAction,
@@ -360,7 +920,9 @@ export class QueueService {
         actorType,
       });
 
-      return { action: resultAction, voteType, voteScore };
+      const buried = await this.buryIfPastThreshold(queueItemId, voteScore);
+
+      return { action: resultAction, voteType, voteScore, buried };
     };
 
     if (actor.userId) {
@@ -370,26 +932,136 @@ export class QueueService {
     return applyChange('guest', { guestId: actor.guestId! });
   }
 
-  private async updateVoteScore(queueItemId: string) {
-    const votes = await prisma.vote.findMany({
-      where: { queueItemId },
-    });
+  /**
+   * Recount unplayed items' scores from their votes and repair any that
+   * drifted. Each repair re-reads the votes and score and writes in one
+   * transaction, so a vote landing mid-run can't be overwritten by a stale
+   * recount. Returns the sessions whose queues changed.
+   */
+  async reconcileVoteScores() {
+    // One snapshot, so scores and vote rows are read as of the same moment
+    const [items] = await prisma.$transaction([
+      prisma.queueItem.findMany({
+        where: { played: false },
+        select: {
+          id: true,
+          sessionId: true,
+          voteScore: true,
+          votes: { select: { voteType: true, weight: true } },
+        },
+      }),
+    ]);
 
-    const score = votes.reduce((sum, vote) => sum + vote.voteType, 0);
+    const repairedSessions = new Set<string>();
 
-    await prisma.queueItem.update({
-      where: { id: queueItemId },
-      data: { voteScore: score },
-    });
+    for (const item of items) {
+      if (countVoteScore(item.votes) === item.voteScore) {
+        continue;
+      }
+
+      const repaired = await prisma.$transaction(async (tx) => {
+        const current = await tx.queueItem.findUnique({
+          where: { id: item.id },
+          select: { voteScore: true, votes: { select: { voteType: true, weight: true } } },
+        });
+
+        if (!current) {
+          return null;
+        }
+
+        const score = countVoteScore(current.votes);
+
+        if (score === current.voteScore) {
+          return null;
+        }
+
+        await tx.queueItem.update({
+          where: { id: item.id },
+          data: { voteScore: score },
+        });
+
+        return { from: current.voteScore, to: score };
+      });
+
+      if (repaired) {
+        console.warn(`Repaired vote score for queue item ${item.id}: ${repaired.from} -> ${repaired.to}`);
+        repairedSessions.add(item.sessionId);
+      }
+    }
+
+    return [...repairedSessions];
   }
 
-  private async getVoteScore(queueItemId: string) {
+  /**
+   * Remove a requested track once its score falls to the session's bury
+   * threshold. Auto-fill items are voted away separately, and celebrations
+   * and pinned tracks play where the host put them.
+   */
+  private async buryIfPastThreshold(queueItemId: string, voteScore: number): Promise<BuriedQueueItem | null> {
+    if (voteScore >= 0) {
+      return null;
+    }
+
     const queueItem = await prisma.queueItem.findUnique({
       where: { id: queueItemId },
-      select: { voteScore: true },
+      include: {
+        session: {
+          select: { buryThresholdMode: true, buryThresholdValue: true, buryRefundRequester: true },
+        },
+      },
+    });
+
+    if (
+      !queueItem
+      || queueItem.played
+      || queueItem.isAutoFill
+      || queueItem.isCelebration
+      || queueItem.pinOrder != null
+      || queueItem.session.buryThresholdValue == null
+    ) {
+      return null;
+    }
+
+    const threshold = computeBuryThreshold(
+      { mode: queueItem.session.buryThresholdMode, value: queueItem.session.buryThresholdValue },
+      presenceService.countPresent(queueItem.sessionId, 'guest')
+    );
+
+    if (voteScore > -threshold) {
+      return null;
+    }
+
+    // Boosts go with the item, so read them first for the refund
+    const boosts = await prisma.$transaction(async (tx) => {
+      const itemBoosts = await tx.queueBoost.findMany({
+        where: { queueItemId },
+        select: { userId: true, amount: true, bonusAmount: true },
+      });
+      const { count } = await tx.queueItem.deleteMany({
+        where: { id: queueItemId, played: false, voteScore: { lte: -threshold } },
+      });
+
+      return count > 0 ? itemBoosts : null;
     });
 
-    return queueItem?.voteScore ?? 0;
+    if (!boosts) {
+      return null;
+    }
+
+    await this.promoteNextTrack(queueItem.sessionId);
+
+    return {
+      id: queueItem.id,
+      sessionId: queueItem.sessionId,
+      trackName: queueItem.trackName,
+      addedById: queueItem.addedById,
+      addedByGuestId: queueItem.addedByGuestId,
+      creditsSpent: queueItem.creditsSpent,
+      bonusCreditsSpent: queueItem.bonusCreditsSpent,
+      threshold,
+      refundRequester: queueItem.session.buryRefundRequester,
+      boosts,
+    };
   }
 
   async markAsPlayed(queueItemId: string) {
@@ -448,6 +1120,42 @@ export class QueueService {
     return nextUp;
   }
 
+  /**
+   * Strike a track from the queue, keeping a record of who vetoed it and
+   * why. Returns the record so the requester can be told.
+   */
+  async vetoQueueItem(queueItemId: string, vetoedBy: string, reason: string | null) {
+    const queueItem = await prisma.queueItem.findUnique({
+      where: { id: queueItemId },
+    });
+
+    if (!queueItem || queueItem.played) {
+      throw new Error('Queue item not found');
+    }
+
+    const [veto] = await prisma.$transaction([
+      prisma.queueVeto.create({
+        data: {
+          sessionId: queueItem.sessionId,
+          spotifyTrackId: queueItem.spotifyTrackId,
+          trackName: queueItem.trackName,
+          trackArtist: queueItem.trackArtist,
+          requestedById: queueItem.addedById,
+          requestedByGuestId: queueItem.addedByGuestId,
+          vetoedBy,
+          reason,
+        },
+      }),
+      prisma.queueItem.delete({
+        where: { id: queueItemId },
+      }),
+    ]);
+
+    await this.promoteNextTrack(queueItem.sessionId);
+
+    return veto;
+  }
+
   async getQueueItemWithSession(queueItemId: string) {
     return prisma.queueItem.findUnique({
       where: { id: queueItemId },
@@ -1,4 +1,19 @@
-import { PrismaClient, ScheduledPlaybackStatus } from '@prisma/client';
+import {
+  PrismaClient,
+  ScheduledDeliveryMode,
+  ScheduledPlaybackStatus,
+  ScheduledRunOutcome,
+} from '@prisma/client';
+import { config } from '../config';
+import { parseCron } from '../lib/cron';
+import {
+  localDateIn,
+  nextOccurrence,
+  normalizeRecurrence,
+  RecurrenceInput,
+  RecurrenceRule,
+} from '../lib/recurrence';
+import { isValidTimeZone, timeZoneForFixedOffset } from '../lib/timezone';
 
 const prisma = new PrismaClient();
 const scheduledPlaybackModel = (prisma as any).scheduledPlayback;
@@ -13,12 +28,34 @@ export type ScheduledTrackInput = {
   trackDuration: number;
 };
 
+/** What happened to one track during a run */
+export type ScheduledTrackResult = {
+  spotifyTrackId: string;
+  trackName: string;
+  status: 'queued' | 'skipped' | 'failed';
+  reason?: string;
+};
+
+export type ScheduledRunReport = {
+  startedAt: Date;
+  trackResults: ScheduledTrackResult[];
+};
+
 const ACTIVE_STATUSES: ScheduledPlaybackStatus[] = [
   ScheduledPlaybackStatus.PENDING,
   ScheduledPlaybackStatus.PROCESSING,
 ];
 
 const MINUTES_PER_DAY = 24 * 60;
+const MAX_RETRIES = 10;
+const MIN_RETRY_BACKOFF_SECONDS = 10;
+const MAX_RETRY_DELAY_SECONDS = 6 * 60 * 60;
+
+export const SCHEDULED_DELIVERY_MODES: ScheduledDeliveryMode[] = [
+  ScheduledDeliveryMode.APPEND,
+  ScheduledDeliveryMode.JUMP_TO_FRONT,
+  ScheduledDeliveryMode.INTERRUPT,
+];
 
 const clampMinutes = (minutes: number) => {
   if (!Number.isFinite(minutes)) {
@@ -44,41 +81,171 @@ const clampTimezoneOffset = (offsetMinutes: number) => {
   return Math.round(offsetMinutes);
 };
 
+const normalizeRetryPolicy = (policy: { maxRetries?: number; retryBackoffSeconds?: number }) => {
+  const normalized: { maxRetries?: number; retryBackoffSeconds?: number } = {};
+
+  if (policy.maxRetries !== undefined) {
+    if (!Number.isInteger(policy.maxRetries) || policy.maxRetries < 0 || policy.maxRetries > MAX_RETRIES) {
+      throw new Error(`maxRetries must be a whole number between 0 and ${MAX_RETRIES}.`);
+    }
+    normalized.maxRetries = policy.maxRetries;
+  }
+
+  if (policy.retryBackoffSeconds !== undefined) {
+    const backoff = policy.retryBackoffSeconds;
+    if (!Number.isInteger(backoff) || backoff < MIN_RETRY_BACKOFF_SECONDS || backoff > MAX_RETRY_DELAY_SECONDS) {
+      throw new Error(`retryBackoffSeconds must be between ${MIN_RETRY_BACKOFF_SECONDS} and ${MAX_RETRY_DELAY_SECONDS}.`);
+    }
+    normalized.retryBackoffSeconds = backoff;
+  }
+
+  return normalized;
+};
+
+/** Where a schedule's time of day is interpreted */
+export type ScheduleZone =
+  | { timezone: string }
+  /** Legacy rows created before zones were stored; never adjusts for DST */
+  | { timezoneOffsetMinutes: number };
+
+const normalizeTimezone = (timezone: string) => {
+  if (!isValidTimeZone(timezone)) {
+    throw new Error('Timezone must be a valid IANA zone name such as America/New_York.');
+  }
+
+  return timezone;
+};
+
+export type ScheduleUpdateInput = {
+  timeOfDayMinutes?: number;
+  zone?: ScheduleZone;
+  recurrence?: RecurrenceInput;
+  tracks?: ScheduledTrackInput[];
+} & ScheduleOptions;
+
+/** How a schedule delivers its tracks and retries failed runs */
+export type ScheduleOptions = {
+  deliveryMode?: ScheduledDeliveryMode;
+  maxRetries?: number;
+  retryBackoffSeconds?: number;
+};
+
+const DAILY_RULE: RecurrenceRule = {
+  type: 'DAILY',
+  weekdays: null,
+  intervalDays: null,
+  cron: null,
+  startDate: null,
+  endDate: null,
+};
+
+const ruleFromSchedule = (schedule: any): RecurrenceRule => ({
+  type: schedule.recurrenceType ?? 'DAILY',
+  weekdays: schedule.recurrenceWeekdays ? JSON.parse(schedule.recurrenceWeekdays) as number[] : null,
+  intervalDays: schedule.recurrenceIntervalDays ?? null,
+  cron: schedule.recurrenceCron ?? null,
+  startDate: schedule.startDate ?? null,
+  endDate: schedule.endDate ?? null,
+});
+
+/** API shape: weekdays are stored as JSON but returned as an array */
+const serializeSchedule = (schedule: any) => schedule && {
+  ...schedule,
+  recurrenceWeekdays: schedule.recurrenceWeekdays ? JSON.parse(schedule.recurrenceWeekdays) as number[] : null,
+};
+
+const toTrackRows = (tracks: ScheduledTrackInput[]) => tracks.map((track, index) => ({
+  order: index,
+  spotifyTrackId: track.spotifyTrackId,
+  spotifyUri: track.spotifyUri ?? `spotify:track:${track.spotifyTrackId}`,
+  trackName: track.trackName,
+  trackArtist: track.trackArtist,
+  trackAlbum: track.trackAlbum ?? null,
+  trackImage: track.trackImage ?? null,
+  trackDuration: track.trackDuration,
+}));
+
+const isRecurring = (schedule: any) => schedule.isRecurringDaily || (schedule.recurrenceType ?? 'DAILY') !== 'DAILY';
+
 export class ScheduledPlaybackService {
-  private computeNextRun(timeOfDayMinutes: number, timezoneOffsetMinutes: number, reference: Date) {
+  /** Null once the rule has no further occurrences (e.g. past its end date) */
+  private computeNextRun(timeOfDayMinutes: number, zone: ScheduleZone, rule: RecurrenceRule, reference: Date) {
     const minutes = clampMinutes(timeOfDayMinutes);
-    const offset = clampTimezoneOffset(timezoneOffsetMinutes);
 
-    const offsetMs = offset * 60 * 1000;
-    const referenceUtcMs = reference.getTime();
-    const localReferenceMs = referenceUtcMs - offsetMs;
+    if ('timezoneOffsetMinutes' in zone) {
+      // Shift into the fixed local frame and use UTC accessors so the server's
+      // own zone never leaks into the calculation. Only daily rules get here.
+      const offsetMs = clampTimezoneOffset(zone.timezoneOffsetMinutes) * 60 * 1000;
+      const target = new Date(reference.getTime() - offsetMs);
+      target.setUTCHours(Math.floor(minutes / 60), minutes % 60, 0, 0);
 
-    const localReference = new Date(localReferenceMs);
-    const targetLocal = new Date(localReferenceMs);
-    const hours = Math.floor(minutes / 60);
-    const mins = minutes % 60;
-    targetLocal.setHours(hours, mins, 0, 0);
+      let scheduledUtcMs = target.getTime() + offsetMs;
+      if (scheduledUtcMs <= reference.getTime()) {
+        scheduledUtcMs += MINUTES_PER_DAY * 60 * 1000;
+      }
 
-    let scheduledLocalMs = targetLocal.getTime();
-    if (scheduledLocalMs <= localReferenceMs) {
-      scheduledLocalMs += MINUTES_PER_DAY * 60 * 1000;
+      return new Date(scheduledUtcMs);
     }
 
-    const scheduledUtcMs = scheduledLocalMs + offsetMs;
-    return new Date(scheduledUtcMs);
+    // Resolve the wall-clock time on each calendar day so DST changes move
+    // the UTC instant instead of the local time
+    return nextOccurrence(rule, minutes, zone.timezone, reference);
   }
 
-  private computeNextRunFromSchedule(schedule: any, reference: Date) {
+  private computeNextRunFromSchedule(schedule: any, reference: Date): Date | null {
+    if (schedule.timeOfDayMinutes != null && schedule.timezone) {
+      return this.computeNextRun(
+        schedule.timeOfDayMinutes,
+        { timezone: schedule.timezone },
+        ruleFromSchedule(schedule),
+        reference,
+      );
+    }
+
     if (schedule.timeOfDayMinutes != null && schedule.timezoneOffsetMinutes != null) {
-      return this.computeNextRun(schedule.timeOfDayMinutes, schedule.timezoneOffsetMinutes, reference);
+      return this.computeNextRun(
+        schedule.timeOfDayMinutes,
+        { timezoneOffsetMinutes: schedule.timezoneOffsetMinutes },
+        DAILY_RULE,
+        reference,
+      );
     }
 
     const next = new Date(reference.getTime() + MINUTES_PER_DAY * 60 * 1000);
     return next;
   }
 
+  /**
+   * Give schedules created before zones were stored an IANA name. Whole-hour
+   * offsets map to `Etc/GMT±N`, which behaves exactly like the old fixed
+   * offset; anything else keeps the offset until the host picks a zone.
+   */
+  async migrateLegacyTimezones() {
+    const legacy: Array<{ id: string; timezoneOffsetMinutes: number }> = await scheduledPlaybackModel.findMany({
+      where: { timezone: null, timezoneOffsetMinutes: { not: null } },
+      select: { id: true, timezoneOffsetMinutes: true },
+    });
+
+    let migrated = 0;
+
+    for (const schedule of legacy) {
+      const timezone = timeZoneForFixedOffset(schedule.timezoneOffsetMinutes);
+      if (!timezone) continue;
+
+      await scheduledPlaybackModel.update({
+        where: { id: schedule.id },
+        data: { timezone },
+      });
+      migrated += 1;
+    }
+
+    if (migrated > 0) {
+      console.log(`Assigned time zones to ${migrated} legacy scheduled playback(s)`);
+    }
+  }
+
   async listUpcoming(sessionId: string) {
-    return scheduledPlaybackModel.findMany({
+    const schedules = await scheduledPlaybackModel.findMany({
       where: {
         sessionId,
         status: {
@@ -94,10 +261,12 @@ export class ScheduledPlaybackService {
         scheduledFor: 'asc',
       },
     });
+
+    return schedules.map(serializeSchedule);
   }
 
   async listSessionHistory(sessionId: string, limit = 20) {
-    return scheduledPlaybackModel.findMany({
+    const schedules = await scheduledPlaybackModel.findMany({
       where: {
         sessionId,
         status: {
@@ -118,24 +287,72 @@ export class ScheduledPlaybackService {
       },
       take: limit,
     });
+
+    return schedules.map(serializeSchedule);
   }
 
-  async scheduleDailyPlayback(
+  /**
+   * Validate a schedule's time, zone and recurrence and work out its next run,
+   * returning the columns to store
+   */
+  private resolveTiming(timeOfDayMinutes: number, zone: ScheduleZone, recurrence: RecurrenceInput | undefined) {
+    let normalizedZone: ScheduleZone;
+    let rule: RecurrenceRule;
+
+    if ('timezone' in zone) {
+      normalizedZone = { timezone: normalizeTimezone(zone.timezone) };
+      rule = normalizeRecurrence(recurrence, localDateIn(normalizedZone.timezone));
+    } else {
+      normalizedZone = { timezoneOffsetMinutes: clampTimezoneOffset(zone.timezoneOffsetMinutes) };
+      const hasRule = recurrence && ((recurrence.type ?? 'DAILY') !== 'DAILY' || recurrence.startDate || recurrence.endDate);
+      if (hasRule) {
+        throw new Error('A timezone is required for schedules that do not simply repeat every day.');
+      }
+      rule = DAILY_RULE;
+    }
+
+    // Cron rules carry their own times; keep the earliest for display and ordering
+    const cron = rule.cron ? parseCron(rule.cron) : null;
+    const normalizedMinutes = cron
+      ? cron.hours[0] * 60 + cron.minutes[0]
+      : clampMinutes(timeOfDayMinutes);
+
+    const nextRun = this.computeNextRun(normalizedMinutes, normalizedZone, rule, new Date());
+
+    if (!nextRun) {
+      throw new Error('This schedule has no upcoming runs. Check its dates and days.');
+    }
+
+    return {
+      scheduledFor: nextRun,
+      isRecurringDaily: rule.type === 'DAILY',
+      timeOfDayMinutes: normalizedMinutes,
+      timezone: 'timezone' in normalizedZone ? normalizedZone.timezone : null,
+      timezoneOffsetMinutes: 'timezoneOffsetMinutes' in normalizedZone ? normalizedZone.timezoneOffsetMinutes : null,
+      recurrenceType: rule.type,
+      recurrenceWeekdays: rule.weekdays ? JSON.stringify(rule.weekdays) : null,
+      recurrenceIntervalDays: rule.intervalDays,
+      recurrenceCron: rule.cron,
+      startDate: rule.startDate,
+      endDate: rule.endDate,
+    };
+  }
+
+  async schedulePlayback(
     sessionId: string,
     hostId: string,
     timeOfDayMinutes: number,
-    timezoneOffsetMinutes: number,
+    zone: ScheduleZone,
+    recurrence: RecurrenceInput | undefined,
     tracks: ScheduledTrackInput[],
+    options: ScheduleOptions = {},
   ) {
     if (tracks.length === 0) {
       throw new Error('At least one track is required to schedule playback.');
     }
 
-    const normalizedMinutes = clampMinutes(timeOfDayMinutes);
-    const normalizedOffset = clampTimezoneOffset(timezoneOffsetMinutes);
-
-    const now = new Date();
-    const nextRun = this.computeNextRun(normalizedMinutes, normalizedOffset, now);
+    const timing = this.resolveTiming(timeOfDayMinutes, zone, recurrence);
+    const retryPolicy = normalizeRetryPolicy(options);
 
     const session = await prisma.session.findUnique({
       where: { id: sessionId },
@@ -158,22 +375,13 @@ export class ScheduledPlaybackService {
         data: {
           sessionId,
           createdById: hostId,
-          scheduledFor: nextRun,
-          isRecurringDaily: true,
-          timeOfDayMinutes: normalizedMinutes,
-          timezoneOffsetMinutes: normalizedOffset,
+          ...timing,
+          deliveryMode: options.deliveryMode ?? ScheduledDeliveryMode.APPEND,
+          maxRetries: retryPolicy.maxRetries ?? config.scheduledPlayback.maxRetries,
+          retryBackoffSeconds: retryPolicy.retryBackoffSeconds ?? config.scheduledPlayback.retryBackoffSeconds,
           failureReason: null,
           tracks: {
-            create: tracks.map((track, index) => ({
-              order: index,
-              spotifyTrackId: track.spotifyTrackId,
-              spotifyUri: track.spotifyUri ?? `spotify:track:${track.spotifyTrackId}`,
-              trackName: track.trackName,
-              trackArtist: track.trackArtist,
-              trackAlbum: track.trackAlbum ?? null,
-              trackImage: track.trackImage ?? null,
-              trackDuration: track.trackDuration,
-            })),
+            create: toTrackRows(tracks),
           },
         },
         include: {
@@ -183,7 +391,104 @@ export class ScheduledPlaybackService {
         },
       });
 
-      return scheduledPlayback;
+      return serializeSchedule(scheduledPlayback);
+    });
+  }
+
+  /**
+   * Change a pending schedule in place. Omitted fields keep their current
+   * values; `tracks` replaces the whole list in the given order. The write is
+   * conditional on the row still being PENDING and unchanged since it was
+   * read, so it can't race the processor claiming it or another edit.
+   */
+  async updateSchedule(scheduleId: string, hostId: string, changes: ScheduleUpdateInput) {
+    const schedule = await scheduledPlaybackModel.findUnique({
+      where: { id: scheduleId },
+      include: {
+        session: {
+          select: {
+            hostId: true,
+          },
+        },
+      },
+    });
+
+    if (!schedule) {
+      throw new Error('Schedule not found');
+    }
+
+    if (schedule.session.hostId !== hostId) {
+      throw new Error('Only the host can edit a scheduled playback');
+    }
+
+    if (schedule.status !== ScheduledPlaybackStatus.PENDING) {
+      throw new Error('Only pending schedules can be edited');
+    }
+
+    if (changes.tracks && changes.tracks.length === 0) {
+      throw new Error('At least one track is required to schedule playback.');
+    }
+
+    const timingChanged = changes.timeOfDayMinutes !== undefined
+      || changes.zone !== undefined
+      || changes.recurrence !== undefined;
+
+    const currentZone: ScheduleZone = schedule.timezone
+      ? { timezone: schedule.timezone }
+      : { timezoneOffsetMinutes: schedule.timezoneOffsetMinutes ?? 0 };
+
+    const timing = timingChanged
+      ? this.resolveTiming(
+        changes.timeOfDayMinutes ?? schedule.timeOfDayMinutes ?? 0,
+        changes.zone ?? currentZone,
+        changes.recurrence ?? ruleFromSchedule(schedule),
+      )
+      : {};
+
+    const retryPolicy = normalizeRetryPolicy(changes);
+
+    return prisma.$transaction(async (tx) => {
+      const scheduledTx = (tx as any).scheduledPlayback;
+
+      const updated = await scheduledTx.updateMany({
+        where: {
+          id: scheduleId,
+          status: ScheduledPlaybackStatus.PENDING,
+          updatedAt: schedule.updatedAt,
+        },
+        data: {
+          ...timing,
+          ...retryPolicy,
+          // A new time starts a fresh occurrence
+          ...(timingChanged ? { retryAttempt: 0 } : {}),
+          ...(changes.deliveryMode ? { deliveryMode: changes.deliveryMode } : {}),
+          // Bump even when only tracks change so concurrent edits conflict
+          updatedAt: new Date(),
+        },
+      });
+
+      if (updated.count === 0) {
+        throw new Error('Schedule changed or started running; refresh and try again');
+      }
+
+      if (changes.tracks) {
+        const trackTx = (tx as any).scheduledPlaybackTrack;
+        await trackTx.deleteMany({ where: { scheduledPlaybackId: scheduleId } });
+        await trackTx.createMany({
+          data: toTrackRows(changes.tracks).map((track) => ({ ...track, scheduledPlaybackId: scheduleId })),
+        });
+      }
+
+      const result = await scheduledTx.findUnique({
+        where: { id: scheduleId },
+        include: {
+          tracks: {
+            orderBy: { order: 'asc' },
+          },
+        },
+      });
+
+      return serializeSchedule(result);
     });
   }
 
@@ -211,7 +516,7 @@ export class ScheduledPlaybackService {
       throw new Error('Only pending schedules can be cancelled');
     }
 
-    return scheduledPlaybackModel.update({
+    const cancelled = await scheduledPlaybackModel.update({
       where: { id: scheduleId },
       data: {
         status: ScheduledPlaybackStatus.CANCELLED,
@@ -224,6 +529,8 @@ export class ScheduledPlaybackService {
         },
       },
     });
+
+    return serializeSchedule(cancelled);
   }
 
   async getScheduleWithDetails(id: string) {
@@ -297,67 +604,195 @@ export class ScheduledPlaybackService {
     });
   }
 
-  async recordSuccess(schedule: any) {
+  private runRecord(schedule: any, report: ScheduledRunReport, outcome: ScheduledRunOutcome, extra: {
+    error?: string;
+    retryAt?: Date | null;
+  } = {}) {
+    return {
+      scheduledPlaybackId: schedule.id,
+      attempt: (schedule.retryAttempt ?? 0) + 1,
+      manual: Boolean(schedule.manualRunRequested),
+      outcome,
+      error: extra.error ?? null,
+      retryAt: extra.retryAt ?? null,
+      trackResults: JSON.stringify(report.trackResults),
+      startedAt: report.startedAt,
+    };
+  }
+
+  async recordSuccess(schedule: any, report: ScheduledRunReport) {
     const completedAt = new Date();
+    const nextRun = isRecurring(schedule) ? this.computeNextRunFromSchedule(schedule, completedAt) : null;
+    const outcome = report.trackResults.every((result) => result.status === 'queued')
+      ? ScheduledRunOutcome.SUCCEEDED
+      : ScheduledRunOutcome.PARTIAL;
 
-    if (schedule.isRecurringDaily) {
-      const nextRun = this.computeNextRunFromSchedule(schedule, completedAt);
+    const data = nextRun
+      ? { status: ScheduledPlaybackStatus.PENDING, scheduledFor: nextRun }
+      : { status: ScheduledPlaybackStatus.COMPLETED };
 
-      return scheduledPlaybackModel.update({
+    const [updated] = await prisma.$transaction([
+      scheduledPlaybackModel.update({
         where: { id: schedule.id },
         data: {
-          status: ScheduledPlaybackStatus.PENDING,
-          scheduledFor: nextRun,
+          ...data,
           completedAt,
           failureReason: null,
           lastRunAt: completedAt,
           lastRunStatus: ScheduledPlaybackStatus.COMPLETED,
+          retryAttempt: 0,
+          manualRunRequested: false,
         },
-      });
-    }
+      }),
+      prisma.scheduledPlaybackRun.create({
+        data: this.runRecord(schedule, report, outcome),
+      }),
+    ]);
 
-    return scheduledPlaybackModel.update({
-      where: { id: schedule.id },
-      data: {
-        status: ScheduledPlaybackStatus.COMPLETED,
-        completedAt,
-        failureReason: null,
-        lastRunAt: completedAt,
-        lastRunStatus: ScheduledPlaybackStatus.COMPLETED,
-      },
-    });
+    return updated;
   }
 
-  async recordFailure(schedule: any, reason: string) {
+  /**
+   * Retry with exponential backoff while attempts remain and the retry
+   * lands before the next occurrence; otherwise move on (or fail a one-off)
+   */
+  async recordFailure(schedule: any, reason: string, report: ScheduledRunReport) {
     const completedAt = new Date();
     const failureMessage = reason.slice(0, 500);
+    const nextRun = isRecurring(schedule) ? this.computeNextRunFromSchedule(schedule, completedAt) : null;
+
+    const attempt = (schedule.retryAttempt ?? 0) + 1;
+    const delaySeconds = Math.min(
+      (schedule.retryBackoffSeconds ?? config.scheduledPlayback.retryBackoffSeconds) * 2 ** (attempt - 1),
+      MAX_RETRY_DELAY_SECONDS,
+    );
+    const retryAt = new Date(completedAt.getTime() + delaySeconds * 1000);
+    const canRetry = attempt <= (schedule.maxRetries ?? 0) && (!nextRun || retryAt < nextRun);
+
+    let data: Record<string, unknown>;
+
+    if (canRetry) {
+      data = {
+        status: ScheduledPlaybackStatus.PENDING,
+        scheduledFor: retryAt,
+        retryAttempt: attempt,
+      };
+    } else if (nextRun) {
+      data = {
+        status: ScheduledPlaybackStatus.PENDING,
+        scheduledFor: nextRun,
+        retryAttempt: 0,
+      };
+    } else {
+      data = {
+        status: ScheduledPlaybackStatus.FAILED,
+        retryAttempt: 0,
+      };
+    }
 
-    if (schedule.isRecurringDaily) {
-      const nextRun = this.computeNextRunFromSchedule(schedule, completedAt);
-
-      return scheduledPlaybackModel.update({
+    const [updated] = await prisma.$transaction([
+      scheduledPlaybackModel.update({
         where: { id: schedule.id },
         data: {
-          status: ScheduledPlaybackStatus.PENDING,
-          scheduledFor: nextRun,
+          ...data,
           failureReason: failureMessage,
           completedAt: null,
           lastRunAt: completedAt,
           lastRunStatus: ScheduledPlaybackStatus.FAILED,
+          manualRunRequested: false,
         },
-      });
+      }),
+      prisma.scheduledPlaybackRun.create({
+        data: this.runRecord(schedule, report, ScheduledRunOutcome.FAILED, {
+          error: failureMessage,
+          retryAt: canRetry ? retryAt : null,
+        }),
+      }),
+    ]);
+
+    return updated;
+  }
+
+  async listRuns(sessionId: string, scheduleId: string, limit = 20) {
+    const schedule = await scheduledPlaybackModel.findUnique({
+      where: { id: scheduleId },
+      select: { sessionId: true },
+    });
+
+    if (!schedule || schedule.sessionId !== sessionId) {
+      throw new Error('Schedule not found');
     }
 
-    return scheduledPlaybackModel.update({
-      where: { id: schedule.id },
+    const runs = await prisma.scheduledPlaybackRun.findMany({
+      where: { scheduledPlaybackId: scheduleId },
+      orderBy: { startedAt: 'desc' },
+      take: limit,
+    });
+
+    return runs.map((run) => ({
+      ...run,
+      trackResults: JSON.parse(run.trackResults) as ScheduledTrackResult[],
+    }));
+  }
+
+  /**
+   * Run a failed schedule again right away. One-off schedules come back to
+   * life; recurring ones keep their next occurrence, which is recomputed
+   * after this run.
+   */
+  async rerunSchedule(scheduleId: string, hostId: string) {
+    const schedule = await scheduledPlaybackModel.findUnique({
+      where: { id: scheduleId },
+      include: {
+        session: {
+          select: {
+            hostId: true,
+          },
+        },
+      },
+    });
+
+    if (!schedule) {
+      throw new Error('Schedule not found');
+    }
+
+    if (schedule.session.hostId !== hostId) {
+      throw new Error('Only the host can re-run a scheduled playback');
+    }
+
+    const failed = schedule.status === ScheduledPlaybackStatus.FAILED
+      || (schedule.status === ScheduledPlaybackStatus.PENDING && schedule.lastRunStatus === ScheduledPlaybackStatus.FAILED);
+
+    if (!failed) {
+      throw new Error('Only failed schedules can be re-run');
+    }
+
+    const updated = await scheduledPlaybackModel.updateMany({
+      where: {
+        id: scheduleId,
+        status: schedule.status,
+        updatedAt: schedule.updatedAt,
+      },
       data: {
-        status: ScheduledPlaybackStatus.FAILED,
-        failureReason: failureMessage,
-        completedAt: null,
-        lastRunAt: completedAt,
-        lastRunStatus: ScheduledPlaybackStatus.FAILED,
+        status: ScheduledPlaybackStatus.PENDING,
+        scheduledFor: new Date(),
+        retryAttempt: 0,
+        manualRunRequested: true,
       },
     });
+
+    if (updated.count === 0) {
+      throw new Error('Schedule changed or started running; refresh and try again');
+    }
+
+    return serializeSchedule(await scheduledPlaybackModel.findUnique({
+      where: { id: scheduleId },
+      include: {
+        tracks: {
+          orderBy: { order: 'asc' },
+        },
+      },
+    }));
   }
 }
 
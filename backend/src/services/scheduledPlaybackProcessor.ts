@@ -1,7 +1,8 @@
-import { scheduledPlaybackService } from './scheduledPlayback.service';
+import { ScheduledDeliveryMode } from '@prisma/client';
+import { ScheduledRunReport, scheduledPlaybackService, ScheduledTrackResult } from './scheduledPlayback.service';
 import { spotifyService } from './spotify.service';
-import { playbackService } from './playback.service';
-import { queueService } from './queue.service';
+import { PLAYBACK_SKIP_POLL_DELAY_MS, playbackService } from './playback.service';
+import { queueService, TrackDetails, TrackRejectedError } from './queue.service';
 
 const PROCESS_INTERVAL_MS = 5000;
 
@@ -19,7 +20,9 @@ class ScheduledPlaybackProcessor {
       void this.tick();
     }, PROCESS_INTERVAL_MS);
 
-    void this.tick();
+    void scheduledPlaybackService.migrateLegacyTimezones()
+      .catch((error) => console.error('Failed to migrate scheduled playback time zones:', error))
+      .finally(() => this.tick());
   }
 
   stop() {
@@ -41,13 +44,15 @@ class ScheduledPlaybackProcessor {
       const dueSchedules = await scheduledPlaybackService.claimDueSchedules(referenceTime);
 
       for (const schedule of dueSchedules) {
+        const report: ScheduledRunReport = { startedAt: new Date(), trackResults: [] };
+
         try {
-          await this.executeSchedule(schedule);
-          await scheduledPlaybackService.recordSuccess(schedule);
+          await this.executeSchedule(schedule, report.trackResults);
+          await scheduledPlaybackService.recordSuccess(schedule, report);
         } catch (error: any) {
           const reason = error?.message ?? 'Scheduled playback failed';
           console.error(`Scheduled playback ${schedule.id} failed:`, error);
-          await scheduledPlaybackService.recordFailure(schedule, reason);
+          await scheduledPlaybackService.recordFailure(schedule, reason, report);
         }
       }
     } catch (error) {
@@ -57,7 +62,8 @@ class ScheduledPlaybackProcessor {
     }
   }
 
-  private async executeSchedule(schedule: ClaimedSchedule) {
+  /** Fills `results` as it goes, so a failed run still records what happened */
+  private async executeSchedule(schedule: ClaimedSchedule, results: ScheduledTrackResult[]) {
     const { session, tracks } = schedule;
 
     if (!session) {
@@ -71,6 +77,8 @@ class ScheduledPlaybackProcessor {
     const hostId = session.hostId;
     const accessToken = await spotifyService.ensureValidToken(hostId);
 
+    const details: TrackDetails[] = [];
+
     for (const track of tracks) {
       let artistSpotifyIds: string[] = [];
 
@@ -83,34 +91,99 @@ class ScheduledPlaybackProcessor {
         console.warn(`Failed to fetch track details for scheduled track ${track.spotifyTrackId}:`, trackDetailsError);
       }
 
+      details.push({
+        spotifyTrackId: track.spotifyTrackId,
+        trackName: track.trackName,
+        trackArtist: track.trackArtist,
+        trackAlbum: track.trackAlbum ?? null,
+        trackImage: track.trackImage ?? null,
+        trackDuration: track.trackDuration,
+        artistSpotifyIds,
+      });
+    }
+
+    const deliveryMode: ScheduledDeliveryMode = schedule.deliveryMode ?? ScheduledDeliveryMode.APPEND;
+
+    if (deliveryMode === ScheduledDeliveryMode.APPEND) {
+      await this.appendTracks(schedule.sessionId, hostId, details, results);
+
+      // Rule skips are final, but unexpected errors on every track are worth a retry
+      if (results.some((result) => result.status === 'failed') && !results.some((result) => result.status === 'queued')) {
+        throw new Error('None of the scheduled tracks could be queued');
+      }
+
+      playbackService.requestImmediateSync(schedule.sessionId, 1500);
+      return;
+    }
+
+    const interrupt = deliveryMode === ScheduledDeliveryMode.INTERRUPT;
+    const { queued, skipped } = await queueService.addPinned(
+      schedule.sessionId,
+      details,
+      { userId: hostId },
+      { ahead: interrupt },
+    );
+
+    for (const track of details) {
+      const skip = skipped.find((entry) => entry.spotifyTrackId === track.spotifyTrackId);
+
+      if (skip) {
+        console.warn(`Skipping scheduled track ${track.spotifyTrackId}: ${skip.reason}`);
+        results.push({ spotifyTrackId: track.spotifyTrackId, trackName: track.trackName, status: 'skipped', reason: skip.reason });
+      } else {
+        results.push({ spotifyTrackId: track.spotifyTrackId, trackName: track.trackName, status: 'queued' });
+      }
+    }
+
+    if (interrupt && queued.length > 0) {
+      try {
+        // The monitor marks it played on its next poll, then feeds Spotify
+        // the remaining pinned tracks
+        await spotifyService.playTrack(`spotify:track:${queued[0].spotifyTrackId}`, accessToken);
+        playbackService.requestImmediateSync(schedule.sessionId, PLAYBACK_SKIP_POLL_DELAY_MS);
+        return;
+      } catch (playError) {
+        // Still pinned at the front, so it plays after the current track
+        console.warn(`Failed to interrupt playback for schedule ${schedule.id}:`, playError);
+      }
+    }
+
+    playbackService.requestImmediateSync(schedule.sessionId, 1500);
+  }
+
+  private async appendTracks(
+    sessionId: string,
+    hostId: string,
+    tracks: TrackDetails[],
+    results: ScheduledTrackResult[],
+  ) {
+    for (const track of tracks) {
+      const result = { spotifyTrackId: track.spotifyTrackId, trackName: track.trackName };
+
       try {
         await queueService.addToQueue(
-          schedule.sessionId,
+          sessionId,
           track.spotifyTrackId,
           track.trackName,
           track.trackArtist,
-          track.trackAlbum ?? null,
-          track.trackImage ?? null,
+          track.trackAlbum,
+          track.trackImage,
           track.trackDuration,
-          artistSpotifyIds,
+          track.artistSpotifyIds,
           { userId: hostId }
         );
+        results.push({ ...result, status: 'queued' });
       } catch (queueError: any) {
-        const message: string | undefined = queueError?.message;
-        if (message && (
-          message.includes('Track already in queue') ||
-          message.includes('Track has been banned') ||
-          message.includes('Artist "')
-        )) {
-          console.warn(`Skipping scheduled track ${track.spotifyTrackId}: ${message}`);
+        if (queueError instanceof TrackRejectedError) {
+          console.warn(`Skipping scheduled track ${track.spotifyTrackId}: ${queueError.message}`);
+          results.push({ ...result, status: 'skipped', reason: queueError.message });
           continue;
         }
 
         console.warn('Failed to enqueue scheduled track:', queueError);
+        results.push({ ...result, status: 'failed', reason: queueError?.message ?? 'Failed to enqueue' });
       }
     }
-
-    playbackService.requestImmediateSync(schedule.sessionId, 1500);
   }
 }
 
@@ -1,11 +1,23 @@
-import { PrismaClient } from '@prisma/client';
+import { PrismaClient, QueueOrderingMode, SkipThresholdMode } from '@prisma/client';
 import { customAlphabet } from 'nanoid';
+import { skipCounterService } from './skipCounter.service';
 
 const prisma = new PrismaClient();
 const generateCode = customAlphabet('ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789', 6);
 
+export class SessionSettingsError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = 'SessionSettingsError';
+  }
+}
+
 export class SessionService {
-  async createSession(hostId: string, name: string, options?: { allowExplicit?: boolean; maxSongDuration?: number }) {
+  async createSession(
+    hostId: string,
+    name: string,
+    options?: { allowExplicit?: boolean; maxSongDuration?: number; queueOrderingMode?: QueueOrderingMode },
+  ) {
     const code = generateCode();
 
     const session = await prisma.$transaction(async (tx) => {
@@ -16,6 +28,7 @@ export class SessionService {
           hostId,
           ...(typeof options?.allowExplicit === 'boolean' ? { allowExplicit: options.allowExplicit } : {}),
           ...(typeof options?.maxSongDuration === 'number' ? { maxSongDuration: options.maxSongDuration } : {}),
+          ...(options?.queueOrderingMode ? { queueOrderingMode: options.queueOrderingMode } : {}),
         },
         include: {
           host: {
@@ -110,6 +123,23 @@ export class SessionService {
     });
   }
 
+  /** Active sessions that are still their host's current one — monitored again after a restart */
+  async getResumableSessions() {
+    const hosts = await prisma.user.findMany({
+      where: { lastActiveSession: { isActive: true } },
+      select: {
+        id: true,
+        lastActiveSession: { select: { id: true, hostId: true } },
+      },
+    });
+
+    return hosts.flatMap((host) => (
+      host.lastActiveSession?.hostId === host.id
+        ? [{ sessionId: host.lastActiveSession.id, hostId: host.id }]
+        : []
+    ));
+  }
+
   async deleteSession(sessionId: string, userId: string) {
     await prisma.$transaction(async (tx) => {
       const session = await tx.session.findUnique({
@@ -137,6 +167,9 @@ export class SessionService {
         } as any);
       }
     });
+
+    // The skip counter rows went with the session
+    skipCounterService.forgetSession(sessionId);
   }
 
   async deactivateSession(sessionId: string) {
@@ -144,6 +177,9 @@ export class SessionService {
       where: { id: sessionId },
       data: { isActive: false },
     });
+
+    await skipCounterService.reset(sessionId);
+    skipCounterService.forgetSession(sessionId);
   }
   
   async activateExistingSession(sessionId: string, hostId: string) {
@@ -207,7 +243,8 @@ export class SessionService {
         where: { id: guestId },
       });
 
-      if (existingGuest && existingGuest.sessionId === sessionId) {
+      // A kicked guest who joins again starts over as a new guest
+      if (existingGuest && existingGuest.sessionId === sessionId && !existingGuest.kickedAt) {
         const updates: Record<string, unknown> = {};
 
         if (existingGuest.name !== sanitizedName) {
@@ -247,7 +284,40 @@ export class SessionService {
     });
   }
 
-  async updateSessionSettings(sessionId: string, hostId: string, settings: { allowExplicit?: boolean; maxSongDuration?: number }) {
+  /** True when the Logto user has joined any session hosted by `hostId` */
+  async isGuestOfHost(hostId: string, authUserId: string) {
+    const guestModel = (prisma as any).guest;
+
+    // clerkUserId is the DB column name (kept for migration compat); stores Logto user ID
+    const guest = await guestModel.findFirst({
+      where: { clerkUserId: authUserId, session: { hostId } },
+      select: { id: true },
+    });
+
+    return Boolean(guest);
+  }
+
+  async updateSessionSettings(
+    sessionId: string,
+    hostId: string,
+    settings: {
+      allowExplicit?: boolean;
+      maxSongDuration?: number;
+      queueOrderingMode?: QueueOrderingMode;
+      celebrationsEnabled?: boolean;
+      skipThresholdMode?: SkipThresholdMode;
+      skipThresholdValue?: number;
+      skipThresholdMinimum?: number;
+      trackCooldownMinutes?: number;
+      artistCooldownMinutes?: number;
+      guestMaxActiveItems?: number | null;
+      guestMaxItemsPerHour?: number | null;
+      voteWeights?: Record<string, number>;
+      buryThresholdMode?: SkipThresholdMode;
+      buryThresholdValue?: number | null;
+      buryRefundRequester?: boolean;
+    },
+  ) {
     const session = await prisma.session.findUnique({
       where: { id: sessionId },
       include: {
@@ -261,11 +331,11 @@ export class SessionService {
     });
 
     if (!session) {
-      throw new Error('Session not found');
+      throw new SessionSettingsError('Session not found', 404);
     }
 
     if (session.hostId !== hostId) {
-      throw new Error('Only the host can update session settings');
+      throw new SessionSettingsError('Only the host can update session settings', 403);
     }
 
     const data: any = {};
@@ -278,6 +348,72 @@ export class SessionService {
       data.maxSongDuration = settings.maxSongDuration;
     }
 
+    if (typeof settings.celebrationsEnabled === 'boolean') {
+      data.celebrationsEnabled = settings.celebrationsEnabled;
+    }
+
+    if (settings.queueOrderingMode) {
+      data.queueOrderingMode = settings.queueOrderingMode;
+    }
+
+    if (settings.skipThresholdMode) {
+      data.skipThresholdMode = settings.skipThresholdMode;
+    }
+
+    if (typeof settings.skipThresholdValue === 'number') {
+      data.skipThresholdValue = settings.skipThresholdValue;
+    }
+
+    if (typeof settings.skipThresholdMinimum === 'number') {
+      data.skipThresholdMinimum = settings.skipThresholdMinimum;
+    }
+
+    if (typeof settings.trackCooldownMinutes === 'number') {
+      data.trackCooldownMinutes = settings.trackCooldownMinutes;
+    }
+
+    if (typeof settings.artistCooldownMinutes === 'number') {
+      data.artistCooldownMinutes = settings.artistCooldownMinutes;
+    }
+
+    if (settings.guestMaxActiveItems !== undefined) {
+      data.guestMaxActiveItems = settings.guestMaxActiveItems;
+    }
+
+    if (settings.guestMaxItemsPerHour !== undefined) {
+      data.guestMaxItemsPerHour = settings.guestMaxItemsPerHour;
+    }
+
+    if (settings.voteWeights) {
+      data.voteWeights = JSON.stringify(settings.voteWeights);
+    }
+
+    if (settings.buryThresholdMode) {
+      data.buryThresholdMode = settings.buryThresholdMode;
+    }
+
+    if (settings.buryThresholdValue !== undefined) {
+      data.buryThresholdValue = settings.buryThresholdValue;
+    }
+
+    if (typeof settings.buryRefundRequester === 'boolean') {
+      data.buryRefundRequester = settings.buryRefundRequester;
+    }
+
+    const skipThresholdMode = data.skipThresholdMode ?? session.skipThresholdMode;
+    const skipThresholdValue = data.skipThresholdValue ?? session.skipThresholdValue;
+
+    if (skipThresholdMode === SkipThresholdMode.PERCENTAGE && skipThresholdValue > 100) {
+      throw new SessionSettingsError('Percentage skip thresholds cannot exceed 100');
+    }
+
+    const buryThresholdMode = data.buryThresholdMode ?? session.buryThresholdMode;
+    const buryThresholdValue = data.buryThresholdValue !== undefined ? data.buryThresholdValue : session.buryThresholdValue;
+
+    if (buryThresholdMode === SkipThresholdMode.PERCENTAGE && buryThresholdValue != null && buryThresholdValue > 100) {
+      throw new SessionSettingsError('Percentage bury thresholds cannot exceed 100');
+    }
+
     if (Object.keys(data).length === 0) {
       return session;
     }
@@ -0,0 +1,143 @@
+/**
+ * Fixture catalog for the simulated Spotify provider. Artwork is an inline
+ * SVG so the UI renders without network access.
+ */
+type FixtureArtist = { id: string; name: string; genres: string[] };
+type FixtureAlbum = { id: string; name: string; artistId: string; color: string; releaseDate: string };
+type FixtureTrack = {
+  id: string;
+  name: string;
+  albumId: string;
+  /** Extra featured artists beyond the album artist */
+  featuring?: string[];
+  durationMs: number;
+  explicit?: boolean;
+  popularity: number;
+};
+type FixturePlaylist = { id: string; name: string; trackIds: string[] };
+
+const ARTISTS: FixtureArtist[] = [
+  { id: 'simartist0000000000001', name: 'The Closing Bells', genres: ['indie rock'] },
+  { id: 'simartist0000000000002', name: 'Rate Lock', genres: ['hip hop'] },
+  { id: 'simartist0000000000003', name: 'Escrow Nights', genres: ['synthwave'] },
+  { id: 'simartist0000000000004', name: 'Amortize', genres: ['house', 'electronic'] },
+  { id: 'simartist0000000000005', name: 'Lena Appraisal', genres: ['pop'] },
+  { id: 'simartist0000000000006', name: 'Underwriters Union', genres: ['funk', 'soul'] },
+  { id: 'simartist0000000000007', name: 'Pre-Approved', genres: ['pop punk'] },
+  { id: 'simartist0000000000008', name: 'Basis Points', genres: ['jazz'] },
+];
+
+const ALBUMS: FixtureAlbum[] = [
+  { id: 'simalbum00000000000001', name: 'Clear to Close', artistId: 'simartist0000000000001', color: 'e76f51', releaseDate: '2021-04-09' },
+  { id: 'simalbum00000000000002', name: 'Thirty Year Fixed', artistId: 'simartist0000000000002', color: '264653', releaseDate: '2022-09-16' },
+  { id: 'simalbum00000000000003', name: 'Neon Closing Table', artistId: 'simartist0000000000003', color: '7b2cbf', releaseDate: '2020-11-20' },
+  { id: 'simalbum00000000000004', name: 'Interest Only', artistId: 'simartist0000000000004', color: '2a9d8f', releaseDate: '2023-02-03' },
+  { id: 'simalbum00000000000005', name: 'Curb Appeal', artistId: 'simartist0000000000005', color: 'f4a261', releaseDate: '2023-06-23' },
+  { id: 'simalbum00000000000006', name: 'Full Doc', artistId: 'simartist0000000000006', color: 'e9c46a', releaseDate: '2019-08-30' },
+  { id: 'simalbum00000000000007', name: 'Conditional Approval', artistId: 'simartist0000000000007', color: 'd62828', releaseDate: '2021-10-01' },
+  { id: 'simalbum00000000000008', name: 'After Hours Pricing', artistId: 'simartist0000000000008', color: '1d3557', releaseDate: '2018-03-16' },
+];
+
+const TRACKS: FixtureTrack[] = [
+  { id: 'simtrack00000000000001', name: 'Clear to Close', albumId: 'simalbum00000000000001', durationMs: 201000, popularity: 74 },
+  { id: 'simtrack00000000000002', name: 'Wire Confirmed', albumId: 'simalbum00000000000001', durationMs: 188000, popularity: 61 },
+  { id: 'simtrack00000000000003', name: 'Keys on Friday', albumId: 'simalbum00000000000001', durationMs: 234000, popularity: 58 },
+  { id: 'simtrack00000000000004', name: 'Locked In', albumId: 'simalbum00000000000002', durationMs: 176000, explicit: true, popularity: 82 },
+  { id: 'simtrack00000000000005', name: 'Points and Fees', albumId: 'simalbum00000000000002', featuring: ['simartist0000000000005'], durationMs: 212000, explicit: true, popularity: 77 },
+  { id: 'simtrack00000000000006', name: 'Debt to Income', albumId: 'simalbum00000000000002', durationMs: 195000, explicit: true, popularity: 63 },
+  { id: 'simtrack00000000000007', name: 'Midnight Escrow', albumId: 'simalbum00000000000003', durationMs: 247000, popularity: 69 },
+  { id: 'simtrack00000000000008', name: 'Title Search', albumId: 'simalbum00000000000003', durationMs: 222000, popularity: 54 },
+  { id: 'simtrack00000000000009', name: 'Drive to the Closing', albumId: 'simalbum00000000000003', durationMs: 263000, popularity: 57 },
+  { id: 'simtrack00000000000010', name: 'Interest Only', albumId: 'simalbum00000000000004', durationMs: 318000, popularity: 71 },
+  { id: 'simtrack00000000000011', name: 'Balloon Payment', albumId: 'simalbum00000000000004', durationMs: 285000, popularity: 66 },
+  { id: 'simtrack00000000000012', name: 'Extended Mix (Full Term)', albumId: 'simalbum00000000000004', durationMs: 721000, popularity: 42 },
+  { id: 'simtrack00000000000013', name: 'Curb Appeal', albumId: 'simalbum00000000000005', durationMs: 183000, popularity: 88 },
+  { id: 'simtrack00000000000014', name: 'Open House', albumId: 'simalbum00000000000005', durationMs: 197000, popularity: 79 },
+  { id: 'simtrack00000000000015', name: 'Comparable Sales', albumId: 'simalbum00000000000005', featuring: ['simartist0000000000004'], durationMs: 204000, popularity: 72 },
+  { id: 'simtrack00000000000016', name: 'Full Doc Funk', albumId: 'simalbum00000000000006', durationMs: 256000, popularity: 64 },
+  { id: 'simtrack00000000000017', name: 'Verification of Employment', albumId: 'simalbum00000000000006', durationMs: 239000, popularity: 51 },
+  { id: 'simtrack00000000000018', name: 'Compensating Factors', albumId: 'simalbum00000000000006', durationMs: 271000, popularity: 48 },
+  { id: 'simtrack00000000000019', name: 'Conditional Approval', albumId: 'simalbum00000000000007', durationMs: 162000, explicit: true, popularity: 70 },
+  { id: 'simtrack00000000000020', name: 'Rate Sheet Monday', albumId: 'simalbum00000000000007', durationMs: 149000, popularity: 67 },
+  { id: 'simtrack00000000000021', name: 'Suspended Again', albumId: 'simalbum00000000000007', durationMs: 171000, explicit: true, popularity: 59 },
+  { id: 'simtrack00000000000022', name: 'Basis Point Blues', albumId: 'simalbum00000000000008', durationMs: 302000, popularity: 46 },
+  { id: 'simtrack00000000000023', name: 'Float Down', albumId: 'simalbum00000000000008', durationMs: 289000, popularity: 44 },
+  { id: 'simtrack00000000000024', name: 'After Hours Pricing', albumId: 'simalbum00000000000008', durationMs: 344000, popularity: 52 },
+];
+
+const PLAYLISTS: FixturePlaylist[] = [
+  {
+    id: 'simplaylist00000000001',
+    name: 'Friday Funding Party',
+    trackIds: [
+      'simtrack00000000000013', 'simtrack00000000000004', 'simtrack00000000000001', 'simtrack00000000000016',
+      'simtrack00000000000012', 'simtrack00000000000020', 'simtrack00000000000007', 'simtrack00000000000005',
+    ],
+  },
+  {
+    id: 'simplaylist00000000002',
+    name: 'Focus Hours',
+    trackIds: [
+      'simtrack00000000000022', 'simtrack00000000000023', 'simtrack00000000000024', 'simtrack00000000000008',
+      'simtrack00000000000010', 'simtrack00000000000017',
+    ],
+  },
+];
+
+const artworkUrl = (color: string, size: number) =>
+  `data:image/svg+xml;utf8,${encodeURIComponent(
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}" viewBox="0 0 10 10">`
+      + `<rect width="10" height="10" fill="#${color}"/><circle cx="5" cy="5" r="3" fill="#fff" fill-opacity=".25"/></svg>`,
+  )}`;
+
+const artistObject = (artist: FixtureArtist) => ({
+  id: artist.id,
+  name: artist.name,
+  type: 'artist',
+  uri: `spotify:artist:${artist.id}`,
+  href: null,
+  external_urls: {},
+});
+
+export const simulatedArtists = ARTISTS.map((artist) => ({
+  ...artistObject(artist),
+  genres: artist.genres,
+  popularity: Math.max(...TRACKS
+    .filter((track) => ALBUMS.find((album) => album.id === track.albumId)?.artistId === artist.id)
+    .map((track) => track.popularity), 0),
+  followers: { href: null, total: 0 },
+  images: [],
+}));
+
+/** Full Spotify track objects, keyed by ID */
+export const simulatedTracks = new Map(TRACKS.map((track) => {
+  const album = ALBUMS.find((candidate) => candidate.id === track.albumId)!;
+  const artistIds = [album.artistId, ...(track.featuring ?? [])];
+  const artists = artistIds.map((id) => artistObject(ARTISTS.find((artist) => artist.id === id)!));
+
+  return [track.id, {
+    id: track.id,
+    name: track.name,
+    type: 'track',
+    uri: `spotify:track:${track.id}`,
+    href: null,
+    external_urls: {},
+    duration_ms: track.durationMs,
+    explicit: Boolean(track.explicit),
+    popularity: track.popularity,
+    is_playable: true,
+    artists,
+    album: {
+      id: album.id,
+      name: album.name,
+      type: 'album',
+      uri: `spotify:album:${album.id}`,
+      release_date: album.releaseDate,
+      artists: [artists[0]],
+      images: [640, 300, 64].map((size) => ({ url: artworkUrl(album.color, size), width: size, height: size })),
+    },
+  }];
+}));
+
+/** Playlists by ID; tracks are IDs into `simulatedTracks` */
+export const simulatedPlaylists = new Map(PLAYLISTS.map((playlist) => [playlist.id, playlist]));
@@ -0,0 +1,311 @@
+import { config } from '../config';
+import type { SpotifyCollectionKind } from '../lib/spotifyCollection';
+import type { SpotifyProvider } from './spotifyProvider';
+import { simulatedArtists, simulatedPlaylists, simulatedTracks } from './simulatedSpotifyCatalog';
+
+const TOKEN_TTL_SECONDS = 3600;
+const CATALOG_ORDER = Array.from(simulatedTracks.keys());
+
+const DEVICE = {
+  id: 'simulated-device',
+  name: 'Simulated Player',
+  type: 'Computer',
+  is_active: true,
+  is_private_session: false,
+  is_restricted: false,
+  volume_percent: 100,
+};
+
+type PlayerState = {
+  currentTrackId: string | null;
+  queue: string[];
+  isPlaying: boolean;
+  /** Progress at `anchoredAt`; while playing, progress grows with the clock */
+  positionMs: number;
+  anchoredAt: number;
+};
+
+/** Same shape as spotify-web-api-node errors so existing status handling applies */
+const webApiError = (statusCode: number, message: string, reason?: string) =>
+  Object.assign(new Error(message), {
+    statusCode,
+    body: { error: { status: statusCode, message, ...(reason ? { reason } : {}) } },
+    headers: {},
+  });
+
+const matchesAll = (haystack: string, query: string) => {
+  const terms = query
+    .toLowerCase()
+    .replace(/\b(track|artist|album):/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean);
+
+  const text = haystack.toLowerCase();
+  return terms.every((term) => text.includes(term));
+};
+
+const toDisplayName = (account: string) =>
+  account
+    .split(/[-_]+/)
+    .filter(Boolean)
+    .map((word) => word[0].toUpperCase() + word.slice(1))
+    .join(' ') || 'Simulated Host';
+
+/**
+ * Offline stand-in for Spotify: a fixture catalog plus one virtual player per
+ * account whose position is derived from the clock, so tracks finish and the
+ * queue advances exactly as the playback monitor expects — no Premium
+ * account or network required. Select it with `SPOTIFY_PROVIDER=simulated`.
+ *
+ * Tokens encode the account name (`sim-access:<account>:<issuedAt>`), so
+ * they survive a restart; player state does not.
+ */
+export class SimulatedSpotifyProvider implements SpotifyProvider {
+  readonly name = 'simulated' as const;
+  private players = new Map<string, PlayerState>();
+
+  constructor(private readonly clock: () => number = Date.now) {}
+
+  private accountFromToken(token: string, kind: 'sim-access' | 'sim-refresh') {
+    const [prefix, account] = token.split(':');
+
+    if (prefix !== kind || !account) {
+      throw webApiError(401, 'Invalid access token');
+    }
+
+    return account;
+  }
+
+  private issueAccessToken(account: string) {
+    return `sim-access:${account}:${this.clock()}`;
+  }
+
+  private getPlayer(accessToken: string) {
+    const account = this.accountFromToken(accessToken, 'sim-access');
+    let player = this.players.get(account);
+
+    if (!player) {
+      player = { currentTrackId: null, queue: [], isPlaying: false, positionMs: 0, anchoredAt: this.clock() };
+      this.players.set(account, player);
+    }
+
+    this.advance(player);
+    return player;
+  }
+
+  /** Like Spotify autoplay: when the queue runs dry, keep going through the catalog */
+  private trackAfter(trackId: string | null) {
+    const index = trackId ? CATALOG_ORDER.indexOf(trackId) : -1;
+    return CATALOG_ORDER[(index + 1) % CATALOG_ORDER.length];
+  }
+
+  /** Bring the player up to the clock, finishing tracks and pulling from the queue */
+  private advance(player: PlayerState) {
+    const now = this.clock();
+
+    if (!player.isPlaying || !player.currentTrackId) {
+      player.anchoredAt = now;
+      return;
+    }
+
+    let elapsed = player.positionMs + (now - player.anchoredAt);
+    let duration = simulatedTracks.get(player.currentTrackId)?.duration_ms ?? 0;
+
+    while (elapsed >= duration) {
+      elapsed -= duration;
+      player.currentTrackId = player.queue.shift() ?? this.trackAfter(player.currentTrackId);
+      duration = simulatedTracks.get(player.currentTrackId)?.duration_ms ?? 0;
+    }
+
+    player.positionMs = elapsed;
+    player.anchoredAt = now;
+  }
+
+  getAuthUrl(_scopes: string[]): string {
+    // Skip the consent screen and land straight on our own callback
+    const url = new URL(config.spotify.redirectUri);
+    url.searchParams.set('code', 'simulated-host');
+    url.searchParams.set('state', 'state');
+    return url.toString();
+  }
+
+  async exchangeCode(code: string) {
+    const account = code.replace(/[^a-zA-Z0-9_-]/g, '') || 'simulated-host';
+
+    return {
+      accessToken: this.issueAccessToken(account),
+      refreshToken: `sim-refresh:${account}`,
+      expiresIn: TOKEN_TTL_SECONDS,
+    };
+  }
+
+  async refreshAccessToken(refreshToken: string) {
+    const account = this.accountFromToken(refreshToken, 'sim-refresh');
+
+    return {
+      accessToken: this.issueAccessToken(account),
+      expiresIn: TOKEN_TTL_SECONDS,
+    };
+  }
+
+  async getCurrentUser(accessToken: string) {
+    const account = this.accountFromToken(accessToken, 'sim-access');
+
+    return {
+      id: account,
+      display_name: toDisplayName(account),
+      email: `${account}@simulated.local`,
+      product: 'premium',
+      country: 'US',
+      type: 'user',
+      images: [],
+    };
+  }
+
+  async searchTracks(query: string, accessToken: string, options: { limit: number; offset: number }) {
+    this.accountFromToken(accessToken, 'sim-access');
+
+    const matches = Array.from(simulatedTracks.values())
+      .filter((track) => matchesAll(
+        [track.name, track.album.name, ...track.artists.map((artist) => artist.name)].join(' '),
+        query,
+      ))
+      .sort((a, b) => b.popularity - a.popularity);
+
+    return {
+      items: matches.slice(options.offset, options.offset + options.limit),
+      limit: options.limit,
+      offset: options.offset,
+      total: matches.length,
+    };
+  }
+
+  async searchArtists(query: string, accessToken: string) {
+    this.accountFromToken(accessToken, 'sim-access');
+
+    return simulatedArtists
+      .filter((artist) => matchesAll(artist.name, query))
+      .sort((a, b) => b.popularity - a.popularity)
+      .slice(0, 20);
+  }
+
+  async getTrack(trackId: string, accessToken: string) {
+    this.accountFromToken(accessToken, 'sim-access');
+    const track = simulatedTracks.get(trackId);
+
+    if (!track) {
+      throw webApiError(404, 'Non existing id');
+    }
+
+    return track;
+  }
+
+  async getCollectionTracks(
+    kind: SpotifyCollectionKind,
+    id: string,
+    accessToken: string,
+    options: { limit: number; offset: number }
+  ) {
+    this.accountFromToken(accessToken, 'sim-access');
+    let name: string | undefined;
+    let tracks: any[] = [];
+
+    if (kind === 'playlist') {
+      const playlist = simulatedPlaylists.get(id);
+      name = playlist?.name;
+      tracks = (playlist?.trackIds ?? []).map((trackId) => simulatedTracks.get(trackId));
+    } else {
+      tracks = Array.from(simulatedTracks.values()).filter((track) => track.album.id === id);
+      name = tracks[0]?.album.name;
+    }
+
+    if (!name) {
+      throw webApiError(404, 'Resource not found');
+    }
+
+    return {
+      name,
+      items: tracks.slice(options.offset, options.offset + options.limit),
+      limit: options.limit,
+      offset: options.offset,
+      total: tracks.length,
+    };
+  }
+
+  async addToQueue(trackUri: string, accessToken: string) {
+    const player = this.getPlayer(accessToken);
+    const trackId = trackUri.startsWith('spotify:track:') ? trackUri.slice('spotify:track:'.length) : '';
+
+    if (!simulatedTracks.has(trackId)) {
+      throw webApiError(400, 'Invalid track uri');
+    }
+
+    // The simulated device is always available, so queueing while idle is fine;
+    // playback starts with the queue when the host presses play
+    player.queue.push(trackId);
+  }
+
+  async getCurrentPlayback(accessToken: string) {
+    const player = this.getPlayer(accessToken);
+
+    if (!player.currentTrackId) {
+      return null;
+    }
+
+    return {
+      device: DEVICE,
+      shuffle_state: false,
+      repeat_state: 'off',
+      timestamp: this.clock(),
+      context: null,
+      progress_ms: Math.floor(player.positionMs),
+      item: simulatedTracks.get(player.currentTrackId) ?? null,
+      currently_playing_type: 'track',
+      is_playing: player.isPlaying,
+    };
+  }
+
+  async play(accessToken: string) {
+    const player = this.getPlayer(accessToken);
+
+    if (!player.currentTrackId) {
+      player.currentTrackId = player.queue.shift() ?? this.trackAfter(null);
+      player.positionMs = 0;
+    }
+
+    player.isPlaying = true;
+    player.anchoredAt = this.clock();
+  }
+
+  async playTrack(trackUri: string, accessToken: string) {
+    const player = this.getPlayer(accessToken);
+    const trackId = trackUri.startsWith('spotify:track:') ? trackUri.slice('spotify:track:'.length) : '';
+
+    if (!simulatedTracks.has(trackId)) {
+      throw webApiError(400, 'Invalid track uri');
+    }
+
+    player.currentTrackId = trackId;
+    player.positionMs = 0;
+    player.isPlaying = true;
+    player.anchoredAt = this.clock();
+  }
+
+  async pause(accessToken: string) {
+    const player = this.getPlayer(accessToken);
+    player.isPlaying = false;
+  }
+
+  async skipToNext(accessToken: string) {
+    const player = this.getPlayer(accessToken);
+
+    if (!player.currentTrackId && player.queue.length === 0) {
+      throw webApiError(404, 'Player command failed: No active device found', 'NO_ACTIVE_DEVICE');
+    }
+
+    player.currentTrackId = player.queue.shift() ?? this.trackAfter(player.currentTrackId);
+    player.positionMs = 0;
+    player.isPlaying = true;
+    player.anchoredAt = this.clock();
+  }
+}
@@ -1,4 +1,5 @@
-import { PrismaClient } from '@prisma/client';
+import { PrismaClient, SkipThresholdMode } from '@prisma/client';
+import { presenceService } from './presence.service';
 
 export interface SkipState {
   trackId: string | null;
@@ -14,10 +15,42 @@ export interface SkipUpdateResult {
   thresholdAlreadyReached?: boolean;
   /** true when the vote was rejected because the track changed */
   trackMismatch?: boolean;
+  /** true for the one vote that reached the threshold — its caller performs the skip */
+  thresholdReached?: boolean;
 }
 
+export interface SkipThresholdSettings {
+  mode: SkipThresholdMode;
+  /** Vote count for ABSOLUTE, percent (1-100) of present guests for PERCENTAGE */
+  value: number;
+  /** Never require fewer votes than this */
+  minimum: number;
+}
+
+export const SKIP_THRESHOLD_MODES: SkipThresholdMode[] = [
+  SkipThresholdMode.ABSOLUTE,
+  SkipThresholdMode.PERCENTAGE,
+];
+
+const DEFAULT_THRESHOLD_SETTINGS: SkipThresholdSettings = {
+  mode: SkipThresholdMode.ABSOLUTE,
+  value: 5,
+  minimum: 2,
+};
+
 const prisma = new PrismaClient();
-const SKIP_THRESHOLD = 5;
+
+/** Votes needed right now, given how many guests are connected */
+export function computeSkipThreshold(settings: SkipThresholdSettings, presentGuests: number) {
+  const target = settings.mode === SkipThresholdMode.PERCENTAGE
+    ? Math.ceil((presentGuests * settings.value) / 100)
+    : settings.value;
+
+  return Math.max(1, settings.minimum, target);
+}
+
+/** Per-session threshold settings, loaded lazily and refreshed on host edits */
+const thresholdSettings = new Map<string, SkipThresholdSettings>();
 
 /* ──────────────────────────────────────────────────────────────────────
  *  In-memory skip gate
@@ -36,6 +69,8 @@ interface GateEntry {
   trackId: string | null;
   skipCount: number;
   voters: Set<string>;
+  /** A vote has reached the threshold and its request is skipping the track */
+  triggered: boolean;
   /** Promise chain that serialises DB writes for this session */
   queue: Promise<void>;
 }
@@ -45,7 +80,7 @@ const gate = new Map<string, GateEntry>();
 function getGate(sessionId: string): GateEntry {
   let entry = gate.get(sessionId);
   if (!entry) {
-    entry = { trackId: null, skipCount: 0, voters: new Set(), queue: Promise.resolve() };
+    entry = { trackId: null, skipCount: 0, voters: new Set(), triggered: false, queue: Promise.resolve() };
     gate.set(sessionId, entry);
   }
   return entry;
@@ -60,8 +95,37 @@ function enqueue<T>(sessionId: string, fn: () => Promise<T>): Promise<T> {
 }
 
 class SkipCounterService {
-  getThreshold() {
-    return SKIP_THRESHOLD;
+  private async getThresholdSettings(sessionId: string): Promise<SkipThresholdSettings> {
+    const cached = thresholdSettings.get(sessionId);
+    if (cached) {
+      return cached;
+    }
+
+    const session = await prisma.session.findUnique({
+      where: { id: sessionId },
+      select: { skipThresholdMode: true, skipThresholdValue: true, skipThresholdMinimum: true },
+    });
+
+    const settings = session
+      ? { mode: session.skipThresholdMode, value: session.skipThresholdValue, minimum: session.skipThresholdMinimum }
+      : DEFAULT_THRESHOLD_SETTINGS;
+
+    thresholdSettings.set(sessionId, settings);
+    return settings;
+  }
+
+  /** Call after the host changes the session's skip settings */
+  setThresholdSettings(sessionId: string, settings: SkipThresholdSettings) {
+    thresholdSettings.set(sessionId, settings);
+  }
+
+  /**
+   * The threshold is recomputed on every read so percentage rules follow
+   * guests connecting and leaving mid-track.
+   */
+  async getThreshold(sessionId: string) {
+    const settings = await this.getThresholdSettings(sessionId);
+    return computeSkipThreshold(settings, presenceService.countPresent(sessionId, 'guest'));
   }
 
   /** Expose the in-memory gate state (for fast reads in the controller) */
@@ -81,37 +145,46 @@ class SkipCounterService {
       entry.trackId = null;
       entry.skipCount = 0;
       entry.voters.clear();
+      entry.triggered = false;
     }
   }
 
-  private formatState(record: { spotifyTrackId: string | null; skipCount: number }): SkipState {
+  /** Drop the gate and cached settings of a session that was deactivated or deleted */
+  forgetSession(sessionId: string) {
+    gate.delete(sessionId);
+    thresholdSettings.delete(sessionId);
+  }
+
+  private formatState(record: { spotifyTrackId: string | null; skipCount: number }, threshold: number): SkipState {
     return {
       trackId: record.spotifyTrackId,
       skipCount: record.skipCount,
-      threshold: SKIP_THRESHOLD,
+      threshold,
     };
   }
 
   async getState(sessionId: string): Promise<SkipState> {
+    const threshold = await this.getThreshold(sessionId);
     const existing = await prisma.sessionSkipCounter.findUnique({ where: { sessionId } });
 
     if (!existing) {
       return {
         trackId: null,
         skipCount: 0,
-        threshold: SKIP_THRESHOLD,
+        threshold,
       };
     }
 
-    return this.formatState(existing);
+    return this.formatState(existing, threshold);
   }
 
   async syncCurrentTrack(sessionId: string, trackId: string | null): Promise<SkipState> {
     const g = getGate(sessionId);
+    const threshold = await this.getThreshold(sessionId);
 
     // Fast-path: gate already in sync — skip the DB entirely
     if (g.trackId === trackId && trackId !== null) {
-      return { trackId: g.trackId, skipCount: g.skipCount, threshold: SKIP_THRESHOLD };
+      return { trackId: g.trackId, skipCount: g.skipCount, threshold };
     }
 
     // Track changed — reset the gate immediately so incoming votes for the
@@ -120,6 +193,7 @@ class SkipCounterService {
       g.trackId = trackId;
       g.skipCount = 0;
       g.voters.clear();
+      g.triggered = false;
     }
 
     return enqueue(sessionId, () =>
@@ -139,7 +213,7 @@ class SkipCounterService {
             await tx.sessionSkipVote.deleteMany({ where: { sessionId } });
           }
 
-          return this.formatState(created);
+          return this.formatState(created, threshold);
         }
 
         if (existing.spotifyTrackId === trackId) {
@@ -149,12 +223,12 @@ class SkipCounterService {
               where: { sessionId },
               data: { spotifyTrackId: null, skipCount: 0 },
             });
-            return this.formatState(updated);
+            return this.formatState(updated, threshold);
           }
 
           // Reconcile gate from DB in case process restarted
           g.skipCount = existing.skipCount;
-          return this.formatState(existing);
+          return this.formatState(existing, threshold);
         }
 
         await tx.sessionSkipVote.deleteMany({ where: { sessionId } });
@@ -167,7 +241,7 @@ class SkipCounterService {
           },
         });
 
-        return this.formatState(updated);
+        return this.formatState(updated, threshold);
       }),
     );
   }
@@ -203,11 +277,16 @@ class SkipCounterService {
    * The in-memory gate does three fast checks **before** touching the DB:
    *   1. trackId must match what the gate thinks is current
    *   2. guest must not have voted already
-   *   3. skip count must be below threshold
+   *   3. no earlier vote has already triggered the skip
    *
    * If all pass, the actual DB write is serialised through a per-session
    * queue so only one Prisma transaction runs at a time — eliminating
    * SQLite lock contention.
+   *
+   * The threshold is evaluated after the write rather than used as a gate:
+   * it can drop mid-track (host edit, guests leaving), and the next vote
+   * must then still be able to trigger the skip. Exactly one vote per
+   * track claims `thresholdReached`.
    */
   async addVote(sessionId: string, trackId: string, guestId: string): Promise<SkipUpdateResult> {
     if (!trackId) {
@@ -215,13 +294,14 @@ class SkipCounterService {
     }
 
     const g = getGate(sessionId);
+    const threshold = await this.getThreshold(sessionId);
 
     // ── Fast in-memory rejections (zero DB cost) ──
 
     // Track has changed since the caller fetched playback state
     if (g.trackId !== null && g.trackId !== trackId) {
       return {
-        state: { trackId: g.trackId, skipCount: g.skipCount, threshold: SKIP_THRESHOLD },
+        state: { trackId: g.trackId, skipCount: g.skipCount, threshold },
         previousTrackId: g.trackId,
         trackMismatch: true,
       };
@@ -230,16 +310,16 @@ class SkipCounterService {
     // Already voted
     if (g.voters.has(guestId)) {
       return {
-        state: { trackId: g.trackId, skipCount: g.skipCount, threshold: SKIP_THRESHOLD },
+        state: { trackId: g.trackId, skipCount: g.skipCount, threshold },
         previousTrackId: g.trackId,
         alreadyVoted: true,
       };
     }
 
-    // Threshold already reached — don't pile more writes onto the DB
-    if (g.skipCount >= SKIP_THRESHOLD) {
+    // Skip already under way — don't pile more writes onto the DB
+    if (g.triggered) {
       return {
-        state: { trackId: g.trackId, skipCount: g.skipCount, threshold: SKIP_THRESHOLD },
+        state: { trackId: g.trackId, skipCount: g.skipCount, threshold },
         previousTrackId: g.trackId,
         thresholdAlreadyReached: true,
       };
@@ -254,8 +334,10 @@ class SkipCounterService {
 
     // ── Serialised DB write ──
     return enqueue(sessionId, async () => {
+      let result: SkipUpdateResult;
+
       try {
-        return await prisma.$transaction(async (tx) => {
+        result = await prisma.$transaction(async (tx) => {
           let counter = await tx.sessionSkipCounter.findUnique({ where: { sessionId } });
 
           if (!counter) {
@@ -293,7 +375,7 @@ class SkipCounterService {
           if (existingVote) {
             // DB says already voted — reconcile the gate
             return {
-              state: this.formatState(counter),
+              state: this.formatState(counter, threshold),
               previousTrackId: counter.spotifyTrackId,
               alreadyVoted: true,
             };
@@ -321,7 +403,7 @@ class SkipCounterService {
           g.skipCount = updatedCounter.skipCount;
 
           return {
-            state: this.formatState(updatedCounter),
+            state: this.formatState(updatedCounter, await this.getThreshold(sessionId)),
             previousTrackId: counter.spotifyTrackId,
             alreadyVoted: false,
           };
@@ -332,19 +414,61 @@ class SkipCounterService {
         g.skipCount = Math.max(0, g.skipCount - 1);
         throw err;
       }
+
+      // Claimed only once the vote is committed; writes are serialised per
+      // session, so no other vote can be checking the flag concurrently
+      if (!result.alreadyVoted && !g.triggered && result.state.skipCount >= result.state.threshold) {
+        g.triggered = true;
+        result.thresholdReached = true;
+      }
+
+      return result;
+    });
+  }
+
+  /**
+   * Claim the skip for votes already cast on `trackId` when the threshold
+   * has dropped to meet them, e.g. after the host lowers it. The caller
+   * performs the skip, or calls `releaseTrigger` if that fails.
+   */
+  async claimIfThresholdReached(sessionId: string, trackId: string) {
+    await this.syncCurrentTrack(sessionId, trackId);
+    const threshold = await this.getThreshold(sessionId);
+
+    // Serialised behind pending votes, so exactly one of them or this call claims the skip
+    return enqueue(sessionId, async () => {
+      const g = getGate(sessionId);
+
+      if (g.trackId !== trackId || g.triggered || g.skipCount === 0 || g.skipCount < threshold) {
+        return false;
+      }
+
+      g.triggered = true;
+      return true;
     });
   }
 
+  /** Let later votes trigger the skip again after a claimed skip failed */
+  releaseTrigger(sessionId: string) {
+    const entry = gate.get(sessionId);
+    if (entry) {
+      entry.triggered = false;
+    }
+  }
+
   async removeVote(sessionId: string, trackId: string, guestId: string): Promise<SkipState> {
     if (!trackId) {
       return this.syncCurrentTrack(sessionId, null);
     }
 
-    // Update gate optimistically
+    const threshold = await this.getThreshold(sessionId);
+
+    // Update gate optimistically; a failed skip releases the trigger too
     const g = getGate(sessionId);
     if (g.trackId === trackId) {
       g.voters.delete(guestId);
       g.skipCount = Math.max(0, g.skipCount - 1);
+      g.triggered = false;
     }
 
     return enqueue(sessionId, () =>
@@ -352,10 +476,10 @@ class SkipCounterService {
         const counter = await tx.sessionSkipCounter.findUnique({ where: { sessionId } });
 
         if (!counter || counter.spotifyTrackId !== trackId) {
-          return counter ? this.formatState(counter) : {
+          return counter ? this.formatState(counter, threshold) : {
             trackId: null,
             skipCount: 0,
-            threshold: SKIP_THRESHOLD,
+            threshold,
           };
         }
 
@@ -368,7 +492,7 @@ class SkipCounterService {
         });
 
         if (deleted.count === 0) {
-          return this.formatState(counter);
+          return this.formatState(counter, threshold);
         }
 
         const nextCount = Math.max(0, counter.skipCount - deleted.count);
@@ -378,12 +502,14 @@ class SkipCounterService {
           data: { skipCount: nextCount },
         });
 
-        return this.formatState(updated);
+        return this.formatState(updated, threshold);
       }),
     );
   }
 
   async reset(sessionId: string): Promise<SkipUpdateResult> {
+    const threshold = await this.getThreshold(sessionId);
+
     return enqueue(sessionId, () =>
       prisma.$transaction(async (tx) => {
         const existing = await tx.sessionSkipCounter.findUnique({ where: { sessionId } });
@@ -398,7 +524,7 @@ class SkipCounterService {
           });
 
           return {
-            state: this.formatState(created),
+            state: this.formatState(created, threshold),
             previousTrackId: null,
           };
         }
@@ -414,7 +540,7 @@ class SkipCounterService {
         });
 
         return {
-          state: this.formatState(updated),
+          state: this.formatState(updated, threshold),
           previousTrackId: existing.spotifyTrackId,
         };
       }),
@@ -423,4 +549,3 @@ class SkipCounterService {
 }
 
 export const skipCounterService = new SkipCounterService();
-export const GUEST_SKIP_THRESHOLD = SKIP_THRESHOLD;
@@ -1,18 +1,26 @@
-import SpotifyWebApi from 'spotify-web-api-node';
 import { config } from '../config';
 import { PrismaClient } from '@prisma/client';
+import type { SpotifyCollectionRef } from '../lib/spotifyCollection';
+import type { SpotifyProvider } from './spotifyProvider';
+import { SpotifyWebApiProvider } from './spotifyWebApiProvider';
+import { SimulatedSpotifyProvider } from './simulatedSpotifyProvider';
 
 const prisma = new PrismaClient();
 
+/** Spotify's maximum page size for album tracks */
+const COLLECTION_PAGE_SIZE = 50;
+
+const createProvider = (): SpotifyProvider => (
+  config.spotify.provider === 'simulated'
+    ? new SimulatedSpotifyProvider()
+    : new SpotifyWebApiProvider()
+);
+
 export class SpotifyService {
-  private spotifyApi: any;
+  constructor(private readonly provider: SpotifyProvider = createProvider()) {}
 
-  constructor() {
-    this.spotifyApi = new SpotifyWebApi({
-      clientId: config.spotify.clientId,
-      clientSecret: config.spotify.clientSecret,
-      redirectUri: config.spotify.redirectUri,
-    });
+  get providerName() {
+    return this.provider.name;
   }
 
   getAuthUrl(): string {
@@ -23,38 +31,23 @@ export class SpotifyService {
       'streaming',
       'user-read-email',
       'user-read-private',
+      'playlist-read-private',
+      'playlist-read-collaborative',
     ];
 
-    return this.spotifyApi.createAuthorizeURL(scopes, 'state', true);
+    return this.provider.getAuthUrl(scopes);
   }
 
   async handleCallback(code: string) {
-    const data = await this.spotifyApi.authorizationCodeGrant(code);
-    return {
-      accessToken: data.body.access_token,
-      refreshToken: data.body.refresh_token,
-      expiresIn: data.body.expires_in,
-    };
+    return this.provider.exchangeCode(code);
   }
 
   async refreshAccessToken(refreshToken: string) {
-    const api = new SpotifyWebApi({
-      clientId: config.spotify.clientId,
-      clientSecret: config.spotify.clientSecret,
-      refreshToken,
-    });
-
-    const data = await api.refreshAccessToken();
-    return {
-      accessToken: data.body.access_token,
-      expiresIn: data.body.expires_in,
-    };
+    return this.provider.refreshAccessToken(refreshToken);
   }
 
   async getCurrentUser(accessToken: string) {
-    this.spotifyApi.setAccessToken(accessToken);
-    const data = await this.spotifyApi.getMe();
-    return data.body;
+    return this.provider.getCurrentUser(accessToken);
   }
 
   async searchTracks(
@@ -62,90 +55,76 @@ export class SpotifyService {
     accessToken: string,
     options?: { limit?: number; offset?: number }
   ) {
-    this.spotifyApi.setAccessToken(accessToken);
     const limit = Math.min(Math.max(options?.limit ?? 50, 1), 50);
     const offset = Math.max(options?.offset ?? 0, 0);
-    const data = await this.spotifyApi.searchTracks(query, { limit, offset });
-    const tracks = data.body.tracks;
-
-    return {
-      items: tracks?.items ?? [],
-      limit: tracks?.limit ?? limit,
-      offset: tracks?.offset ?? offset,
-      total: tracks?.total ?? tracks?.items?.length ?? 0,
-    };
+    return this.provider.searchTracks(query, accessToken, { limit, offset });
   }
 
   async searchArtists(query: string, accessToken: string) {
-    this.spotifyApi.setAccessToken(accessToken);
-    const data = await this.spotifyApi.searchArtists(query, { limit: 20 });
-    return data.body.artists?.items || [];
+    return this.provider.searchArtists(query, accessToken);
   }
 
   async getTrack(trackId: string, accessToken: string) {
-    this.spotifyApi.setAccessToken(accessToken);
-    const data = await this.spotifyApi.getTrack(trackId);
-    return data.body;
+    return this.provider.getTrack(trackId, accessToken);
   }
 
-  async addToQueue(trackUri: string, accessToken: string) {
-    this.spotifyApi.setAccessToken(accessToken);
-    await this.spotifyApi.addToQueue(trackUri);
-  }
+  /**
+   * A playlist's or album's tracks in order, following pages until
+   * `maxTracks`. `truncated` is set when the collection had more.
+   */
+  async getCollectionTracks(ref: SpotifyCollectionRef, accessToken: string, maxTracks: number) {
+    const tracks: any[] = [];
+    let name = '';
+    let total = 0;
+    let offset = 0;
+
+    while (tracks.length < maxTracks) {
+      const page = await this.provider.getCollectionTracks(ref.kind, ref.id, accessToken, {
+        limit: COLLECTION_PAGE_SIZE,
+        offset,
+      });
 
-  async getCurrentPlayback(accessToken: string) {
-    this.spotifyApi.setAccessToken(accessToken);
-    try {
-      const data = await this.spotifyApi.getMyCurrentPlaybackState();
-      return data.body;
-    } catch (error: any) {
-      // If there's no active playback, Spotify returns 204 No Content
-      const statusCode = error?.statusCode || error?.response?.status || error?.status;
-      if (statusCode === 204) {
-        console.log('No active playback (204 No Content)');
-        return null;
-      }
+      name = page.name;
+      total = page.total;
+      tracks.push(...page.items);
+      offset = page.offset + page.limit;
 
-      if (statusCode === 429) {
-        const retryAfterHeader = error?.headers?.['retry-after']
-          ?? error?.response?.headers?.['retry-after']
-          ?? error?.body?.retry_after;
-        const retryAfterSeconds = Number.parseInt(`${retryAfterHeader ?? ''}`, 10);
-
-        const rateLimitError = new Error('Spotify rate limit');
-        (rateLimitError as any).statusCode = 429;
-        if (Number.isFinite(retryAfterSeconds) && retryAfterSeconds > 0) {
-          (rateLimitError as any).retryAfter = retryAfterSeconds;
-        }
-        (rateLimitError as any).headers = error?.headers ?? error?.response?.headers ?? {};
-        throw rateLimitError;
+      if (page.limit <= 0 || offset >= page.total) {
+        break;
       }
-      
-      // Log the error for debugging but return null instead of throwing
-      console.error('Failed to get current playback state:', {
-        statusCode,
-        message: error?.message,
-        errorBody: error?.body,
-      });
-      
-      // Return null to indicate no playback data available
-      return null;
     }
+
+    return {
+      ...ref,
+      name,
+      total,
+      tracks: tracks.slice(0, maxTracks),
+      truncated: tracks.length > maxTracks || offset < total,
+    };
+  }
+
+  async addToQueue(trackUri: string, accessToken: string) {
+    await this.provider.addToQueue(trackUri, accessToken);
+  }
+
+  async getCurrentPlayback(accessToken: string) {
+    return this.provider.getCurrentPlayback(accessToken);
   }
 
   async play(accessToken: string) {
-    this.spotifyApi.setAccessToken(accessToken);
-    await this.spotifyApi.play();
+    await this.provider.play(accessToken);
+  }
+
+  async playTrack(trackUri: string, accessToken: string) {
+    await this.provider.playTrack(trackUri, accessToken);
   }
 
   async pause(accessToken: string) {
-    this.spotifyApi.setAccessToken(accessToken);
-    await this.spotifyApi.pause();
+    await this.provider.pause(accessToken);
   }
 
   async skipToNext(accessToken: string) {
-    this.spotifyApi.setAccessToken(accessToken);
-    await this.spotifyApi.skipToNext();
+    await this.provider.skipToNext(accessToken);
   }
 
   async ensureValidToken(userId: string): Promise<string> {
@@ -0,0 +1,60 @@
+import type { SpotifyCollectionKind } from '../lib/spotifyCollection';
+
+/**
+ * Everything the app needs from Spotify. `spotifyService` delegates to one
+ * implementation chosen by `SPOTIFY_PROVIDER`: the real Web API, or a local
+ * simulation for demos and offline development.
+ *
+ * Payloads keep Spotify's Web API shape (snake_case, `album.images`, ...) so
+ * callers don't care which provider answered.
+ */
+export type SpotifyProviderName = 'spotify' | 'simulated';
+
+export const SPOTIFY_PROVIDER_NAMES: SpotifyProviderName[] = ['spotify', 'simulated'];
+
+export type SpotifyTokens = {
+  accessToken: string;
+  refreshToken: string;
+  expiresIn: number;
+};
+
+export type SpotifyTrackPage = {
+  items: any[];
+  limit: number;
+  offset: number;
+  total: number;
+};
+
+/** A page of a playlist or album, as full track objects */
+export type SpotifyCollectionPage = SpotifyTrackPage & {
+  name: string;
+};
+
+export interface SpotifyProvider {
+  readonly name: SpotifyProviderName;
+
+  getAuthUrl(scopes: string[]): string;
+  exchangeCode(code: string): Promise<SpotifyTokens>;
+  refreshAccessToken(refreshToken: string): Promise<{ accessToken: string; expiresIn: number }>;
+  getCurrentUser(accessToken: string): Promise<any>;
+
+  searchTracks(query: string, accessToken: string, options: { limit: number; offset: number }): Promise<SpotifyTrackPage>;
+  searchArtists(query: string, accessToken: string): Promise<any[]>;
+  getTrack(trackId: string, accessToken: string): Promise<any>;
+  /** Local files, episodes and unavailable entries are left out of `items` */
+  getCollectionTracks(
+    kind: SpotifyCollectionKind,
+    id: string,
+    accessToken: string,
+    options: { limit: number; offset: number }
+  ): Promise<SpotifyCollectionPage>;
+
+  addToQueue(trackUri: string, accessToken: string): Promise<void>;
+  /** Resolves to null when nothing is playing (Spotify's 204) */
+  getCurrentPlayback(accessToken: string): Promise<any | null>;
+  play(accessToken: string): Promise<void>;
+  /** Start a track immediately, replacing whatever is playing */
+  playTrack(trackUri: string, accessToken: string): Promise<void>;
+  pause(accessToken: string): Promise<void>;
+  skipToNext(accessToken: string): Promise<void>;
+}
@@ -0,0 +1,188 @@
+import SpotifyWebApi from 'spotify-web-api-node';
+import { config } from '../config';
+import type { SpotifyCollectionKind } from '../lib/spotifyCollection';
+import type { SpotifyProvider } from './spotifyProvider';
+
+/** The real Spotify Web API via spotify-web-api-node */
+export class SpotifyWebApiProvider implements SpotifyProvider {
+  readonly name = 'spotify' as const;
+  private spotifyApi: any;
+
+  constructor() {
+    this.spotifyApi = new SpotifyWebApi({
+      clientId: config.spotify.clientId,
+      clientSecret: config.spotify.clientSecret,
+      redirectUri: config.spotify.redirectUri,
+    });
+  }
+
+  getAuthUrl(scopes: string[]): string {
+    return this.spotifyApi.createAuthorizeURL(scopes, 'state', true);
+  }
+
+  async exchangeCode(code: string) {
+    const data = await this.spotifyApi.authorizationCodeGrant(code);
+    return {
+      accessToken: data.body.access_token,
+      refreshToken: data.body.refresh_token,
+      expiresIn: data.body.expires_in,
+    };
+  }
+
+  async refreshAccessToken(refreshToken: string) {
+    const api = new SpotifyWebApi({
+      clientId: config.spotify.clientId,
+      clientSecret: config.spotify.clientSecret,
+      refreshToken,
+    });
+
+    const data = await api.refreshAccessToken();
+    return {
+      accessToken: data.body.access_token,
+      expiresIn: data.body.expires_in,
+    };
+  }
+
+  async getCurrentUser(accessToken: string) {
+    this.spotifyApi.setAccessToken(accessToken);
+    const data = await this.spotifyApi.getMe();
+    return data.body;
+  }
+
+  async searchTracks(query: string, accessToken: string, options: { limit: number; offset: number }) {
+    this.spotifyApi.setAccessToken(accessToken);
+    const { limit, offset } = options;
+    const data = await this.spotifyApi.searchTracks(query, { limit, offset });
+    const tracks = data.body.tracks;
+
+    return {
+      items: tracks?.items ?? [],
+      limit: tracks?.limit ?? limit,
+      offset: tracks?.offset ?? offset,
+      total: tracks?.total ?? tracks?.items?.length ?? 0,
+    };
+  }
+
+  async searchArtists(query: string, accessToken: string) {
+    this.spotifyApi.setAccessToken(accessToken);
+    const data = await this.spotifyApi.searchArtists(query, { limit: 20 });
+    return data.body.artists?.items || [];
+  }
+
+  async getTrack(trackId: string, accessToken: string) {
+    this.spotifyApi.setAccessToken(accessToken);
+    const data = await this.spotifyApi.getTrack(trackId);
+    return data.body;
+  }
+
+  async getCollectionTracks(
+    kind: SpotifyCollectionKind,
+    id: string,
+    accessToken: string,
+    options: { limit: number; offset: number }
+  ) {
+    this.spotifyApi.setAccessToken(accessToken);
+    const { limit, offset } = options;
+
+    if (kind === 'playlist') {
+      const [playlist, page] = await Promise.all([
+        this.spotifyApi.getPlaylist(id, { fields: 'name' }),
+        this.spotifyApi.getPlaylistTracks(id, { limit, offset }),
+      ]);
+      const items = (page.body.items ?? [])
+        .filter((entry: any) => !entry?.is_local)
+        .map((entry: any) => entry?.track)
+        .filter((track: any) => track?.id && track.type === 'track');
+
+      return {
+        name: playlist.body.name,
+        items,
+        limit: page.body.limit ?? limit,
+        offset: page.body.offset ?? offset,
+        total: page.body.total ?? items.length,
+      };
+    }
+
+    const [album, page] = await Promise.all([
+      this.spotifyApi.getAlbum(id),
+      this.spotifyApi.getAlbumTracks(id, { limit, offset }),
+    ]);
+    const { tracks: _tracks, ...albumSummary } = album.body;
+
+    return {
+      name: album.body.name,
+      // Album tracks come back simplified; attach the album so they match search results
+      items: (page.body.items ?? [])
+        .filter((track: any) => track?.id)
+        .map((track: any) => ({ ...track, album: albumSummary })),
+      limit: page.body.limit ?? limit,
+      offset: page.body.offset ?? offset,
+      total: page.body.total ?? 0,
+    };
+  }
+
+  async addToQueue(trackUri: string, accessToken: string) {
+    this.spotifyApi.setAccessToken(accessToken);
+    await this.spotifyApi.addToQueue(trackUri);
+  }
+
+  async getCurrentPlayback(accessToken: string) {
+    this.spotifyApi.setAccessToken(accessToken);
+    try {
+      const data = await this.spotifyApi.getMyCurrentPlaybackState();
+      return data.body;
+    } catch (error: any) {
+      // If there's no active playback, Spotify returns 204 No Content
+      const statusCode = error?.statusCode || error?.response?.status || error?.status;
+      if (statusCode === 204) {
+        console.log('No active playback (204 No Content)');
+        return null;
+      }
+
+      if (statusCode === 429) {
+        const retryAfterHeader = error?.headers?.['retry-after']
+          ?? error?.response?.headers?.['retry-after']
+          ?? error?.body?.retry_after;
+        const retryAfterSeconds = Number.parseInt(`${retryAfterHeader ?? ''}`, 10);
+
+        const rateLimitError = new Error('Spotify rate limit');
+        (rateLimitError as any).statusCode = 429;
+        if (Number.isFinite(retryAfterSeconds) && retryAfterSeconds > 0) {
+          (rateLimitError as any).retryAfter = retryAfterSeconds;
+        }
+        (rateLimitError as any).headers = error?.headers ?? error?.response?.headers ?? {};
+        throw rateLimitError;
+      }
+
+      // Log the error for debugging but return null instead of throwing
+      console.error('Failed to get current playback state:', {
+        statusCode,
+        message: error?.message,
+        errorBody: error?.body,
+      });
+
+      // Return null to indicate no playback data available
+      return null;
+    }
+  }
+
+  async play(accessToken: string) {
+    this.spotifyApi.setAccessToken(accessToken);
+    await this.spotifyApi.play();
+  }
+
+  async playTrack(trackUri: string, accessToken: string) {
+    this.spotifyApi.setAccessToken(accessToken);
+    await this.spotifyApi.play({ uris: [trackUri] });
+  }
+
+  async pause(accessToken: string) {
+    this.spotifyApi.setAccessToken(accessToken);
+    await this.spotifyApi.pause();
+  }
+
+  async skipToNext(accessToken: string) {
+    this.spotifyApi.setAccessToken(accessToken);
+    await this.spotifyApi.skipToNext();
+  }
+}
@@ -0,0 +1,51 @@
+import { config } from '../config';
+import { playbackService } from './playback.service';
+import { queueService } from './queue.service';
+
+/**
+ * Votes update scores with atomic increments; this periodically recounts
+ * them from the stored votes in case anything slipped past, and pushes the
+ * corrected order to the affected sessions.
+ */
+class VoteScoreReconciler {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  start() {
+    const intervalMs = config.votes.reconcileIntervalSeconds * 1000;
+
+    if (this.timer || intervalMs <= 0) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      void this.tick();
+    }, intervalMs);
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async tick() {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+
+    try {
+      const sessionIds = await queueService.reconcileVoteScores();
+      sessionIds.forEach((sessionId) => playbackService.requestImmediateSync(sessionId));
+    } catch (error) {
+      console.error('Vote score reconciliation failed:', error);
+    } finally {
+      this.running = false;
+    }
+  }
+}
+
+export const voteScoreReconciler = new VoteScoreReconciler();
@@ -0,0 +1,155 @@
+import type { IncomingMessage } from 'http';
+import type { Session, SessionData } from 'express-session';
+import type { Socket } from 'socket.io';
+import { PrismaClient } from '@prisma/client';
+import { verifyLogtoToken } from '../lib/logto';
+import { verifyIframeToken } from '../lib/iframeToken';
+import { guestModerationService } from '../services/guestModeration.service';
+
+const prisma = new PrismaClient();
+
+/** Identity attached to `socket.data.auth` by the handshake middleware */
+export interface SocketAuth {
+  /** Logto user ID from the JWT or iframe token */
+  authUserId: string | null;
+  roles: string[];
+}
+
+export type SocketSessionRole =
+  | { role: 'host'; userId: string }
+  | { role: 'guest'; guestId: string };
+
+/** express-session is shared with Socket.IO via `io.engine.use` */
+type SessionRequest = IncomingMessage & {
+  session?: Session & Partial<SessionData>;
+};
+
+const readHandshakeToken = (socket: Socket) => {
+  const { auth, headers } = socket.handshake;
+
+  if (typeof auth?.token === 'string' && auth.token) {
+    return { kind: 'logto' as const, token: auth.token };
+  }
+
+  if (typeof auth?.iframeToken === 'string' && auth.iframeToken) {
+    return { kind: 'iframe' as const, token: auth.iframeToken };
+  }
+
+  const header = headers.authorization;
+  if (header?.startsWith('Bearer ')) {
+    return { kind: 'logto' as const, token: header.slice(7) };
+  }
+  if (header?.startsWith('IframeToken ')) {
+    return { kind: 'iframe' as const, token: header.slice(12) };
+  }
+
+  return null;
+};
+
+const getRequestSession = (socket: Socket) => (socket.request as SessionRequest).session;
+
+/** Pick up guest joins / host logins that happened after the socket connected */
+const reloadSession = (session: Session) =>
+  new Promise<void>((resolve) => {
+    session.reload(() => resolve());
+  });
+
+export function getSocketAuth(socket: Socket): SocketAuth {
+  return (socket.data.auth as SocketAuth | undefined) ?? { authUserId: null, roles: [] };
+}
+
+/**
+ * Handshake middleware: accepts a Logto JWT (`auth.token`), an iframe token
+ * (`auth.iframeToken`) or the host's express-session cookie. Anonymous
+ * sockets are rejected before any event handlers run.
+ */
+export async function socketAuthMiddleware(socket: Socket, next: (err?: Error) => void) {
+  const auth: SocketAuth = { authUserId: null, roles: [] };
+  const credential = readHandshakeToken(socket);
+
+  try {
+    if (credential?.kind === 'logto') {
+      const payload = await verifyLogtoToken(credential.token);
+      if (payload?.sub) {
+        auth.authUserId = payload.sub;
+        auth.roles = Array.isArray(payload.roles) ? payload.roles.map((r: unknown) => String(r)) : [];
+      }
+    } else if (credential?.kind === 'iframe') {
+      auth.authUserId = verifyIframeToken(credential.token)?.userId ?? null;
+    }
+  } catch {
+    // Fall through to the session cookie check
+  }
+
+  socket.data.auth = auth;
+
+  if (auth.authUserId || getRequestSession(socket)?.userId) {
+    return next();
+  }
+
+  return next(new Error('Not authenticated'));
+}
+
+/**
+ * Decide whether a socket may join a session room: the host (by express
+ * session or linked Logto ID) or a guest who has joined that session.
+ */
+export async function resolveSocketSessionRole(
+  socket: Socket,
+  sessionId: string,
+): Promise<SocketSessionRole | null> {
+  if (typeof sessionId !== 'string' || !sessionId) {
+    return null;
+  }
+
+  const session = await prisma.session.findUnique({
+    where: { id: sessionId },
+    select: { hostId: true, host: { select: { logtoUserId: true } } },
+  });
+
+  if (!session) {
+    return null;
+  }
+
+  const { authUserId } = getSocketAuth(socket);
+  const requestSession = getRequestSession(socket);
+
+  if (requestSession) {
+    await reloadSession(requestSession);
+  }
+
+  if (requestSession?.userId === session.hostId
+    || (authUserId && session.host.logtoUserId === authUserId)) {
+    return { role: 'host', userId: session.hostId };
+  }
+
+  const storedGuestId = requestSession?.guestSessions?.[sessionId]?.guestId;
+
+  if (!storedGuestId && !authUserId) {
+    return null;
+  }
+
+  // clerkUserId is the DB column name (kept for migration compat); stores Logto user ID
+  const guest = await prisma.guest.findFirst({
+    where: {
+      sessionId,
+      kickedAt: null,
+      OR: [
+        ...(storedGuestId ? [{ id: storedGuestId }] : []),
+        ...(authUserId ? [{ clerkUserId: authUserId }] : []),
+      ],
+    },
+    orderBy: { createdAt: 'desc' },
+    select: { id: true, clerkUserId: true },
+  });
+
+  if (!guest) {
+    return null;
+  }
+
+  if (guest.clerkUserId && await guestModerationService.findBan(session.hostId, sessionId, guest.clerkUserId)) {
+    return null;
+  }
+
+  return { role: 'guest', guestId: guest.id };
+}
@@ -1,103 +1,143 @@
 import { Server as SocketIOServer, Socket } from 'socket.io';
 import { queueService } from '../services/queue.service';
-
-interface SessionRoom {
-  [sessionId: string]: Set<string>;
-}
-
-const sessionRooms: SessionRoom = {};
-
+import type { CelebrationEvent } from '../services/celebration.service';
+import { presenceService } from '../services/presence.service';
+import { playbackService } from '../services/playback.service';
+import { sessionService } from '../services/session.service';
+import type { GuestRestriction } from '../services/guestModeration.service';
+import { resolveSocketSessionRole, socketAuthMiddleware } from './auth';
+
+/** Hosts get the roster; guests only see anonymous join/leave counts */
+const hostRoom = (sessionId: string) => `${sessionId}:hosts`;
+
+/** Each guest also gets a room of their own for notices meant only for them */
+const guestRoom = (sessionId: string, guestId: string) => `${sessionId}:guest:${guestId}`;
+
+/**
+ * Room membership is authorized server-side and all session state
+ * (queue, votes, now playing) is published by the API only — clients can
+ * listen but no longer relay state to each other.
+ */
 export function setupSocketHandlers(io: SocketIOServer) {
+  io.use(socketAuthMiddleware);
+
+  const joinRoom = async (socket: Socket, sessionId: string) => {
+    const membership = await resolveSocketSessionRole(socket, sessionId);
+
+    // A socket that dropped during the lookup would otherwise be left behind as a ghost listener
+    if (!membership || !socket.connected) {
+      return null;
+    }
+
+    socket.join(sessionId);
+    if (membership.role === 'host') {
+      socket.join(hostRoom(sessionId));
+    } else {
+      socket.join(guestRoom(sessionId, membership.guestId));
+    }
+
+    if (await presenceService.join(sessionId, socket.id, membership)) {
+      broadcastPresenceUpdate(io, sessionId);
+    }
+
+    return membership;
+  };
+
+  const leaveRoom = (socket: Socket, sessionId: string) => {
+    if (!presenceService.leave(sessionId, socket.id)) {
+      return;
+    }
+
+    socket.to(sessionId).emit('user_left', {
+      socketId: socket.id,
+      userCount: presenceService.countPresent(sessionId),
+    });
+    broadcastPresenceUpdate(io, sessionId);
+  };
+
   io.on('connection', (socket: Socket) => {
     console.log('Client connected:', socket.id);
 
     // Join a session room
-    socket.on('join_session', async (sessionId: string) => {
-      socket.join(sessionId);
-      
-      if (!sessionRooms[sessionId]) {
-        sessionRooms[sessionId] = new Set();
-      }
-      sessionRooms[sessionId].add(socket.id);
+    socket.on('join_session', async (sessionId: string, ack?: (result: { ok: boolean; error?: string }) => void) => {
+      try {
+        if (socket.rooms.has(sessionId)) {
+          ack?.({ ok: true });
+          return;
+        }
 
-      console.log(`Socket ${socket.id} joined session ${sessionId}`);
-      
-      // Notify others in the room
-      socket.to(sessionId).emit('user_joined', {
-        socketId: socket.id,
-        userCount: sessionRooms[sessionId].size,
-      });
+        const membership = await joinRoom(socket, sessionId);
 
-      // Send current queue to the new user
-      try {
+        if (!membership) {
+          ack?.({ ok: false, error: 'Join the session before subscribing to updates' });
+          return;
+        }
+
+        console.log(`Socket ${socket.id} joined session ${sessionId} as ${membership.role}`);
+        ack?.({ ok: true });
+
+        // The monitor may have stopped while nobody was listening
+        const session = await sessionService.getSession(sessionId);
+        if (session?.isActive) {
+          playbackService.ensureMonitor(sessionId, session.hostId);
+        }
+
+        // Notify others in the room
+        socket.to(sessionId).emit('user_joined', {
+          socketId: socket.id,
+          userCount: presenceService.countPresent(sessionId),
+        });
+
+        // Send current queue to the new user
         const state = await queueService.getQueueWithNext(sessionId);
         socket.emit('queue_updated', state);
       } catch (error) {
-        console.error('Error fetching queue:', error);
+        console.error('Error joining session room:', error);
+        ack?.({ ok: false, error: 'Failed to join session' });
       }
     });
 
     // Leave a session room
     socket.on('leave_session', (sessionId: string) => {
       socket.leave(sessionId);
-      
-      if (sessionRooms[sessionId]) {
-        sessionRooms[sessionId].delete(socket.id);
-        
-        // Notify others
-        socket.to(sessionId).emit('user_left', {
-          socketId: socket.id,
-          userCount: sessionRooms[sessionId].size,
-        });
+      socket.leave(hostRoom(sessionId));
+      for (const room of Array.from(socket.rooms)) {
+        if (room.startsWith(`${sessionId}:guest:`)) {
+          socket.leave(room);
+        }
       }
+      leaveRoom(socket, sessionId);
 
       console.log(`Socket ${socket.id} left session ${sessionId}`);
     });
 
-    // Broadcast queue updates
-    socket.on('queue_updated', (data: { sessionId: string; queue: any[]; nextUp?: any }) => {
-      socket.to(data.sessionId).emit('queue_updated', {
-        queue: data.queue,
-        nextUp: data.nextUp ?? null,
-      });
-    });
-
-    // Broadcast vote updates
-    socket.on('vote_updated', (data: { sessionId: string; queueItemId: string; voteScore: number }) => {
-      socket.to(data.sessionId).emit('vote_updated', data);
-    });
-
-    // Broadcast now playing
-    socket.on('now_playing', (data: { sessionId: string; playback: any; requester?: { type: 'host' | 'guest' | 'unknown'; name: string } | null; skip?: any }) => {
-      io.to(data.sessionId).emit('now_playing', {
-        playback: data.playback ?? null,
-        requester: data.requester ?? null,
-        skip: data.skip ?? null,
-      });
-    });
+    // Host keep-alive to prevent idle disconnects; re-joins only if still authorized
+    socket.on('host_keep_alive', async (data: { sessionId: string }) => {
+      if (!data?.sessionId) {
+        return;
+      }
 
-    // Host keep-alive to prevent idle disconnects
-    socket.on('host_keep_alive', (data: { sessionId: string }) => {
-      if (data?.sessionId) {
-        socket.join(data.sessionId);
+      try {
+        if (!socket.rooms.has(data.sessionId) && !(await joinRoom(socket, data.sessionId))) {
+          return;
+        }
         socket.emit('host_keep_alive_ack', { ts: Date.now() });
+      } catch (error) {
+        console.error('Error handling keep-alive:', error);
       }
     });
 
     // Handle disconnection
     socket.on('disconnect', () => {
       console.log('Client disconnected:', socket.id);
-      
-      // Remove from all session rooms
-      for (const sessionId in sessionRooms) {
-        if (sessionRooms[sessionId].has(socket.id)) {
-          sessionRooms[sessionId].delete(socket.id);
-          
-          socket.to(sessionId).emit('user_left', {
-            socketId: socket.id,
-            userCount: sessionRooms[sessionId].size,
-          });
-        }
+
+      // Socket.IO has already emptied socket.rooms; presence still knows them
+      for (const sessionId of presenceService.leaveAll(socket.id)) {
+        io.to(sessionId).emit('user_left', {
+          socketId: socket.id,
+          userCount: presenceService.countPresent(sessionId),
+        });
+        broadcastPresenceUpdate(io, sessionId);
       }
     });
   });
@@ -113,6 +153,53 @@ export function broadcastVoteUpdate(io: SocketIOServer, sessionId: string, queue
   io.to(sessionId).emit('vote_updated', { queueItemId, voteScore });
 }
 
+// Helper to tell a guest the host or a manager vetoed their track
+export function notifyTrackVetoed(
+  io: SocketIOServer,
+  sessionId: string,
+  guestId: string,
+  payload: { queueItemId: string; trackName: string; reason: string | null }
+) {
+  io.to(guestRoom(sessionId, guestId)).emit('track_vetoed', payload);
+}
+
+// Helper to tell a guest their track was voted out of the queue
+export function notifyTrackBuried(
+  io: SocketIOServer,
+  sessionId: string,
+  guestId: string,
+  payload: { queueItemId: string; trackName: string; voteScore: number; threshold: number; refunded: boolean }
+) {
+  io.to(guestRoom(sessionId, guestId)).emit('queue_item_buried', payload);
+}
+
+// Helper to tell a guest the host muted, unmuted, kicked or banned them
+export function notifyGuestModerated(
+  io: SocketIOServer,
+  sessionId: string,
+  guestId: string,
+  payload: { restriction: GuestRestriction | null; message: string | null }
+) {
+  io.to(guestRoom(sessionId, guestId)).emit('guest_moderated', payload);
+}
+
+/** Take a kicked or banned guest's sockets out of the session's rooms */
+export async function dropGuestSockets(io: SocketIOServer, sessionId: string, guestId: string) {
+  const room = guestRoom(sessionId, guestId);
+  const sockets = await io.in(room).fetchSockets();
+  let rosterChanged = false;
+
+  for (const socket of sockets) {
+    socket.leave(sessionId);
+    socket.leave(room);
+    rosterChanged = presenceService.leave(sessionId, socket.id) || rosterChanged;
+  }
+
+  if (rosterChanged) {
+    broadcastPresenceUpdate(io, sessionId);
+  }
+}
+
 // Helper to broadcast playback updates from the API or services
 export function broadcastPlaybackUpdate(
   io: SocketIOServer,
@@ -129,3 +216,20 @@ export function broadcastPlaybackUpdate(
     skip: payload.skip ?? null,
   });
 }
+
+// Helper to announce a celebration anthem jumping the queue
+export function broadcastCelebration(
+  io: SocketIOServer,
+  sessionId: string,
+  payload: CelebrationEvent
+) {
+  io.to(sessionId).emit('celebration', payload);
+}
+
+// Helper to publish the live roster (who is connected, on how many devices)
+export function broadcastPresenceUpdate(io: SocketIOServer, sessionId: string) {
+  io.to(hostRoom(sessionId)).emit('presence_updated', {
+    sessionId,
+    roster: presenceService.getRoster(sessionId),
+  });
+}
@@ -0,0 +1,55 @@
+import { useState } from 'react';
+import { anthemApi } from '../services/api';
+import type { UserAnthem } from '../types';
+
+type AnthemCardProps = {
+  sessionId: string;
+  anthem: UserAnthem | null;
+  onChange: (anthem: UserAnthem | null) => void;
+};
+
+export default function AnthemCard({ sessionId, anthem, onChange }: AnthemCardProps) {
+  const [removing, setRemoving] = useState(false);
+
+  const handleRemove = async () => {
+    setRemoving(true);
+    try {
+      await anthemApi.remove(sessionId);
+      onChange(null);
+    } catch (error) {
+      console.error('Failed to remove anthem:', error);
+      alert('Failed to remove anthem');
+    } finally {
+      setRemoving(false);
+    }
+  };
+
+  return (
+    <div className="bg-th-surface p-4 rounded-lg flex items-center gap-3">
+      <span className="text-2xl" aria-hidden="true">🎺</span>
+      {anthem?.trackImage && (
+        <img src={anthem.trackImage} alt={anthem.trackName} className="w-10 h-10 rounded" />
+      )}
+      <div className="flex-1 min-w-0">
+        <p className="text-primary font-semibold">Your celebration anthem</p>
+        {anthem ? (
+          <p className="text-muted text-sm truncate">{anthem.trackName} · {anthem.trackArtist}</p>
+        ) : (
+          <p className="text-muted text-xs">
+            Pick a walk-up song with the 🎉 button in search — it jumps the queue when you close a deal.
+          </p>
+        )}
+      </div>
+      {anthem && (
+        <button
+          type="button"
+          onClick={() => void handleRemove()}
+          disabled={removing}
+          className="text-muted hover:text-th-error text-xs font-semibold disabled:opacity-50"
+        >
+          Remove
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,163 @@
+import { FormEvent, useState } from 'react';
+import { ListPlus, Loader2, Plus } from 'lucide-react';
+import { queueApi, spotifyApi } from '../services/api';
+import type { CollectionPreview, ImportRejection, SpotifyTrack } from '../types';
+
+interface CollectionImportProps {
+  sessionId: string;
+  /** Hand the accepted tracks to a schedule form instead of queueing them; returns how many it took */
+  onUseTracks?: (tracks: SpotifyTrack[]) => number;
+  onQueueUpdate?: () => void;
+}
+
+type ImportReport = {
+  name: string;
+  added: number;
+  rejected: ImportRejection[];
+};
+
+const RejectionList = ({ rejected }: { rejected: ImportRejection[] }) => (
+  <ul className="max-h-48 overflow-y-auto space-y-1">
+    {rejected.map(({ track, reason }, index) => (
+      <li key={`${track.id}-${index}`} className="text-xs">
+        <span className="text-secondary">{track.name}</span>
+        <span className="text-faint"> · {track.artists.map((artist) => artist.name).join(', ')}</span>
+        <span className="block text-th-error">{reason}</span>
+      </li>
+    ))}
+  </ul>
+);
+
+export default function CollectionImport({ sessionId, onUseTracks, onQueueUpdate }: CollectionImportProps) {
+  const [link, setLink] = useState('');
+  const [preview, setPreview] = useState<CollectionPreview | null>(null);
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handlePreview = async (event: FormEvent) => {
+    event.preventDefault();
+
+    if (!link.trim()) {
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    setReport(null);
+
+    try {
+      const response = await spotifyApi.previewCollection(sessionId, link.trim());
+      setPreview(response.data as CollectionPreview);
+    } catch (err: any) {
+      setPreview(null);
+      setError(err?.response?.data?.error ?? 'Failed to load playlist.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!preview) {
+      return;
+    }
+
+    if (onUseTracks) {
+      const added = onUseTracks(preview.accepted);
+      setReport({ name: preview.collection.name, added, rejected: preview.rejected });
+      setPreview(null);
+      setLink('');
+      return;
+    }
+
+    setImporting(true);
+    setError(null);
+
+    try {
+      const response = await queueApi.importCollection(sessionId, link.trim());
+      const { collection, added, rejected } = response.data as {
+        collection: CollectionPreview['collection'];
+        added: unknown[];
+        rejected: ImportRejection[];
+      };
+
+      setReport({ name: collection.name, added: added.length, rejected });
+      setPreview(null);
+      setLink('');
+      onQueueUpdate?.();
+    } catch (err: any) {
+      setError(err?.response?.data?.error ?? 'Failed to import playlist.');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const target = onUseTracks ? 'schedule' : 'queue';
+
+  return (
+    <div className="space-y-3">
+      <form onSubmit={handlePreview} className="flex gap-2">
+        <div className="flex-1 relative">
+          <ListPlus className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted" size={18} />
+          <input
+            type="text"
+            value={link}
+            onChange={(event) => setLink(event.target.value)}
+            placeholder="Paste a Spotify playlist or album link"
+            className="w-full bg-th-input text-primary pl-10 pr-4 py-2 rounded-lg focus:outline-none focus:ring-2 ring-th-brand text-sm"
+          />
+        </div>
+        <button
+          type="submit"
+          disabled={loading || !link.trim()}
+          className="px-4 py-2 rounded-lg bg-th-elevated text-primary text-sm font-semibold hover:bg-th-elevated/80 disabled:opacity-50 flex items-center gap-2"
+        >
+          {loading && <Loader2 className="animate-spin" size={16} />}
+          Load
+        </button>
+      </form>
+
+      {error && <p className="text-sm text-th-error">{error}</p>}
+
+      {preview && (
+        <div className="bg-th-elevated/40 rounded-lg p-4 space-y-3">
+          <div className="flex items-start justify-between gap-3">
+            <div className="min-w-0">
+              <p className="text-xs uppercase tracking-wide text-faint">{preview.collection.kind}</p>
+              <p className="text-primary font-semibold truncate">{preview.collection.name}</p>
+              <p className="text-xs text-muted">
+                {preview.accepted.length} ready · {preview.rejected.length} left out
+                {preview.collection.truncated && ` · only the first ${preview.accepted.length + preview.rejected.length} of ${preview.collection.total} were loaded`}
+              </p>
+            </div>
+            <button
+              type="button"
+              onClick={() => void handleImport()}
+              disabled={importing || preview.accepted.length === 0}
+              className="shrink-0 px-3 py-2 rounded-lg bg-th-brand text-white text-sm font-semibold hover:opacity-90 disabled:opacity-50 flex items-center gap-2"
+            >
+              {importing ? <Loader2 className="animate-spin" size={16} /> : <Plus size={16} />}
+              Add {preview.accepted.length} to {target}
+            </button>
+          </div>
+          {preview.rejected.length > 0 && <RejectionList rejected={preview.rejected} />}
+        </div>
+      )}
+
+      {report && (
+        <div className="bg-th-elevated/40 rounded-lg p-4 space-y-2">
+          <p className="text-sm text-primary">
+            Added {report.added} track{report.added === 1 ? '' : 's'} from {report.name} to the {target}.
+          </p>
+          {report.rejected.length > 0 && (
+            <>
+              <p className="text-xs text-muted">{report.rejected.length} not added:</p>
+              <RejectionList rejected={report.rejected} />
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
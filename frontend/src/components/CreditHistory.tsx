@@ -0,0 +1,83 @@
+import { useEffect, useState } from 'react';
+import clsx from 'clsx';
+import { useApiSWR } from '../hooks/useApiSWR';
+import type { CreditTransaction, CreditTransactionReason } from '../types';
+
+type CreditHistoryProps = {
+  /** Changes whenever the balance changes so the list refetches */
+  balanceKey?: string;
+};
+
+const REASON_LABELS: Record<CreditTransactionReason, string> = {
+  TRACK_ADD: 'Track added',
+  SKIP_VOTE: 'Skip vote',
+  VOTE_REACTION: 'Vote',
+  BOOST: 'Boost',
+  REFUND: 'Refund',
+  HOST_GRANT: 'Host grant',
+  DAILY_REFRESH: 'Daily refresh',
+  PERFORMANCE_BONUS: 'Earned',
+  ADJUSTMENT: 'Adjustment',
+};
+
+const timeFormatter = new Intl.DateTimeFormat(undefined, {
+  month: 'short',
+  day: 'numeric',
+  hour: 'numeric',
+  minute: '2-digit',
+});
+
+export default function CreditHistory({ balanceKey }: CreditHistoryProps) {
+  const [open, setOpen] = useState(false);
+  const { data, error, isLoading, mutate } = useApiSWR<CreditTransaction[]>(
+    open ? '/credits/me/history?limit=20' : null,
+    { keepPreviousData: true }
+  );
+
+  useEffect(() => {
+    if (open) {
+      void mutate();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [balanceKey]);
+
+  return (
+    <div className="border-t border-muted pt-2 text-left">
+      <button
+        type="button"
+        onClick={() => setOpen((value) => !value)}
+        className="text-muted hover:text-primary text-xs font-semibold"
+      >
+        {open ? 'Hide credit history' : 'Show credit history'}
+      </button>
+      {open && (
+        <div className="mt-2">
+          {isLoading && !data && <p className="text-faint text-xs">Loading…</p>}
+          {error && <p className="text-th-error text-xs">Couldn&apos;t load credit history.</p>}
+          {data && data.length === 0 && <p className="text-faint text-xs">No credit activity yet.</p>}
+          {data && data.length > 0 && (
+            <ul className="divide-y divide-th-divider/40 max-h-48 overflow-y-auto">
+              {data.map((entry) => (
+                <li key={entry.id} className="flex items-start justify-between gap-3 py-1.5 text-xs">
+                  <div className="min-w-0">
+                    <p className="text-secondary">
+                      {REASON_LABELS[entry.reason]}
+                      {entry.note && <span className="text-muted"> · {entry.note}</span>}
+                    </p>
+                    <p className="text-faint">{timeFormatter.format(new Date(entry.createdAt))}</p>
+                  </div>
+                  <div className="text-right shrink-0">
+                    <p className={clsx('font-semibold', entry.amount < 0 ? 'text-th-error' : 'text-th-brand')}>
+                      {entry.amount > 0 ? `+${entry.amount}` : entry.amount}
+                    </p>
+                    <p className="text-faint">{entry.balanceAfter} left</p>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,38 @@
+import { useApiSWR } from '../hooks/useApiSWR';
+import type { CreditGrant } from '../types';
+
+type EarnedCreditsProps = {
+  bonusCredits?: number;
+};
+
+const MAX_VISIBLE_GRANTS = 3;
+
+export default function EarnedCredits({ bonusCredits = 0 }: EarnedCreditsProps) {
+  const { data } = useApiSWR<CreditGrant[]>('/credits/me/grants', {
+    refreshInterval: 60000,
+  });
+
+  const grants = (data ?? []).slice(0, MAX_VISIBLE_GRANTS);
+
+  if (bonusCredits <= 0 && grants.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="border-t border-muted pt-2 text-left">
+      <p className="text-th-brand text-sm font-semibold">
+        +{bonusCredits} earned credits
+        <span className="text-faint text-xs font-normal"> · used after your daily credits, never expire</span>
+      </p>
+      {grants.length > 0 && (
+        <ul className="mt-1 space-y-0.5">
+          {grants.map((grant) => (
+            <li key={grant.id} className="text-muted text-xs">
+              {grant.reason}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,213 @@
+import { FormEvent, useEffect, useState } from 'react';
+import { Loader2, Plus, Search, Trash2 } from 'lucide-react';
+import useSWR, { Fetcher } from 'swr';
+import { AxiosError } from 'axios';
+import { useApiSWR } from '../hooks/useApiSWR';
+import { fallbackApi, spotifyApi } from '../services/api';
+import type { FallbackSource, SpotifyTrack } from '../types';
+
+type FallbackManagerProps = {
+  sessionId: string;
+};
+
+const searchFetcher: Fetcher<SpotifyTrack[], [string, string, string]> = async ([, id, term]) => {
+  const response = await spotifyApi.search(id, term, { hideRestricted: true, limit: 10 });
+  return response.data?.tracks ?? [];
+};
+
+export default function FallbackManager({ sessionId }: FallbackManagerProps) {
+  const { data, error, mutate } = useApiSWR<FallbackSource>(
+    sessionId ? `/sessions/${sessionId}/fallback` : null,
+    { refreshInterval: 60000 }
+  );
+
+  const [playlistLink, setPlaylistLink] = useState('');
+  const [searchTerm, setSearchTerm] = useState('');
+  const [debouncedSearchTerm, setDebouncedSearchTerm] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setPlaylistLink(data?.playlist?.link ?? '');
+  }, [data?.playlist?.link]);
+
+  useEffect(() => {
+    const trimmed = searchTerm.trim();
+
+    if (!trimmed) {
+      setDebouncedSearchTerm('');
+      return;
+    }
+
+    const timer = setTimeout(() => setDebouncedSearchTerm(trimmed), 400);
+    return () => clearTimeout(timer);
+  }, [searchTerm]);
+
+  const { data: searchResults, isValidating: searching } = useSWR<SpotifyTrack[], AxiosError>(
+    debouncedSearchTerm ? ['fallback-track-search', sessionId, debouncedSearchTerm] : null,
+    searchFetcher,
+    { keepPreviousData: true, revalidateOnFocus: false }
+  );
+
+  const pooledIds = new Set((data?.tracks ?? []).map((track) => track.spotifyTrackId));
+  const usingPlaylist = Boolean(data?.playlist);
+
+  const updateSource = async (payload: { enabled?: boolean; playlistLink?: string | null }) => {
+    setSaving(true);
+    setActionError(null);
+
+    try {
+      const response = await fallbackApi.update(sessionId, payload);
+      await mutate(response.data as FallbackSource, false);
+    } catch (err: any) {
+      setActionError(err?.response?.data?.error ?? 'Failed to update the fallback source.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handlePlaylistSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    void updateSource({ playlistLink: playlistLink.trim() || null });
+  };
+
+  const handleAddTrack = async (track: SpotifyTrack) => {
+    setActionError(null);
+
+    try {
+      await fallbackApi.addTrack(sessionId, track.id);
+      await mutate();
+    } catch (err: any) {
+      setActionError(err?.response?.data?.error ?? 'Failed to add track.');
+    }
+  };
+
+  const handleRemoveTrack = async (trackId: string) => {
+    setActionError(null);
+
+    try {
+      await fallbackApi.removeTrack(sessionId, trackId);
+      await mutate();
+    } catch (err: any) {
+      setActionError(err?.response?.data?.error ?? 'Failed to remove track.');
+    }
+  };
+
+  if (error) {
+    return <p className="text-sm text-th-error">Failed to load the fallback source.</p>;
+  }
+
+  if (!data) {
+    return (
+      <div className="flex items-center gap-2 text-muted text-sm">
+        <Loader2 className="animate-spin" size={16} /> Loading fallback source…
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-5">
+      <label className="flex items-center justify-between gap-4">
+        <div>
+          <p className="text-primary font-semibold">Auto-fill when the queue runs dry</p>
+          <p className="text-xs text-muted">
+            Shuffles through the source below, skipping banned tracks and anything played recently. Guests can vote auto-filled tracks away.
+          </p>
+        </div>
+        <input
+          type="checkbox"
+          checked={data.enabled}
+          disabled={saving}
+          onChange={(event) => void updateSource({ enabled: event.target.checked })}
+          className="h-5 w-5 accent-th-brand"
+        />
+      </label>
+
+      <form onSubmit={handlePlaylistSubmit} className="space-y-2">
+        <p className="text-sm font-semibold text-secondary">Fallback playlist</p>
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={playlistLink}
+            onChange={(event) => setPlaylistLink(event.target.value)}
+            placeholder="Spotify playlist or album link (leave empty to use the track pool)"
+            className="flex-1 bg-th-input text-primary px-3 py-2 rounded-lg focus:outline-none focus:ring-2 ring-th-brand text-sm"
+          />
+          <button
+            type="submit"
+            disabled={saving}
+            className="px-4 py-2 rounded-lg bg-th-elevated text-primary text-sm font-semibold hover:bg-th-elevated/80 disabled:opacity-50"
+          >
+            Save
+          </button>
+        </div>
+        {data.playlist && (
+          <p className="text-xs text-muted">
+            Drawing from <span className="text-secondary">{data.playlist.name ?? data.playlist.link}</span>
+          </p>
+        )}
+      </form>
+
+      <div className={`space-y-2 ${usingPlaylist ? 'opacity-60' : ''}`}>
+        <p className="text-sm font-semibold text-secondary">
+          Track pool ({data.tracks.length}){usingPlaylist && ' — not used while a playlist is set'}
+        </p>
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted" size={16} />
+          <input
+            type="text"
+            value={searchTerm}
+            onChange={(event) => setSearchTerm(event.target.value)}
+            placeholder="Search tracks to add to the pool"
+            className="w-full bg-th-input text-primary pl-9 pr-3 py-2 rounded-lg focus:outline-none focus:ring-2 ring-th-brand text-sm"
+          />
+        </div>
+        {debouncedSearchTerm && (
+          <div className="bg-th-surface rounded-lg max-h-60 overflow-y-auto">
+            {searching && !searchResults && (
+              <div className="p-3 text-sm text-muted flex items-center gap-2">
+                <Loader2 className="animate-spin" size={14} /> Searching…
+              </div>
+            )}
+            {(searchResults ?? []).map((track) => (
+              <button
+                key={track.id}
+                type="button"
+                disabled={pooledIds.has(track.id)}
+                onClick={() => void handleAddTrack(track)}
+                className="w-full text-left px-3 py-2 hover:bg-th-elevated/60 transition flex items-center gap-3 disabled:opacity-50"
+              >
+                <div className="flex-1 min-w-0">
+                  <p className="text-primary text-sm truncate">{track.name}</p>
+                  <p className="text-xs text-muted truncate">{track.artists.map((artist) => artist.name).join(', ')}</p>
+                </div>
+                <Plus className="text-th-brand shrink-0" size={16} />
+              </button>
+            ))}
+          </div>
+        )}
+        <ul className="space-y-1">
+          {data.tracks.map((track) => (
+            <li key={track.id} className="flex items-center gap-3 bg-th-surface rounded-lg px-3 py-2">
+              {track.trackImage && <img src={track.trackImage} alt={track.trackName} className="w-8 h-8 rounded" />}
+              <div className="flex-1 min-w-0">
+                <p className="text-primary text-sm truncate">{track.trackName}</p>
+                <p className="text-xs text-muted truncate">{track.trackArtist}</p>
+              </div>
+              <button
+                type="button"
+                onClick={() => void handleRemoveTrack(track.id)}
+                className="p-1 text-muted hover:text-th-error"
+                title="Remove from pool"
+              >
+                <Trash2 size={16} />
+              </button>
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      {actionError && <p className="text-sm text-th-error">{actionError}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,175 @@
+import { useState } from 'react';
+import { Ban, Loader2, UserX, Volume2, VolumeX } from 'lucide-react';
+import { useApiSWR } from '../hooks/useApiSWR';
+import { sessionApi } from '../services/api';
+import type { GuestBanSummary, SessionGuest } from '../types';
+
+type GuestModerationProps = {
+  sessionId: string;
+};
+
+const DEFAULT_MUTE_MINUTES = 15;
+const MAX_MUTE_MINUTES = 24 * 60;
+
+export default function GuestModeration({ sessionId }: GuestModerationProps) {
+  const { data, error, mutate } = useApiSWR<{ guests: SessionGuest[]; bans: GuestBanSummary[] }>(
+    sessionId ? `/sessions/${sessionId}/guests` : null,
+    { refreshInterval: 30000 }
+  );
+
+  const [banScope, setBanScope] = useState<'session' | 'host'>('session');
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  const runAction = async (id: string, action: () => Promise<unknown>, fallbackError: string) => {
+    setBusyId(id);
+    setActionError(null);
+
+    try {
+      await action();
+      await mutate();
+    } catch (err: any) {
+      setActionError(err?.response?.data?.error ?? fallbackError);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleMute = (guest: SessionGuest) => {
+    const input = prompt(`Mute ${guest.name} for how many minutes? (1-${MAX_MUTE_MINUTES})`, String(DEFAULT_MUTE_MINUTES));
+
+    if (input === null) return;
+
+    const minutes = Number(input);
+
+    if (!Number.isInteger(minutes) || minutes < 1 || minutes > MAX_MUTE_MINUTES) {
+      alert(`Enter a whole number of minutes from 1 to ${MAX_MUTE_MINUTES}`);
+      return;
+    }
+
+    void runAction(guest.id, () => sessionApi.muteGuest(sessionId, guest.id, minutes), 'Failed to mute guest.');
+  };
+
+  const handleKick = (guest: SessionGuest) => {
+    if (!confirm(`Remove ${guest.name} from this session? They can join again.`)) return;
+
+    void runAction(guest.id, () => sessionApi.kickGuest(sessionId, guest.id), 'Failed to remove guest.');
+  };
+
+  const handleBan = (guest: SessionGuest) => {
+    const where = banScope === 'host' ? 'all of your sessions' : 'this session';
+    const reason = prompt(`Ban ${guest.name} from ${where}? You can add a reason (optional).`, '');
+
+    if (reason === null) return;
+
+    void runAction(
+      guest.id,
+      () => sessionApi.banGuest(sessionId, guest.id, { scope: banScope, reason: reason.trim() || undefined }),
+      'Failed to ban guest.'
+    );
+  };
+
+  if (error) {
+    return <p className="text-sm text-th-error">Failed to load guests.</p>;
+  }
+
+  if (!data) {
+    return (
+      <div className="flex items-center gap-2 text-muted text-sm">
+        <Loader2 className="animate-spin" size={16} /> Loading guests…
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-5">
+      <label className="flex items-center justify-between gap-4">
+        <span className="text-sm text-secondary">Bans apply to</span>
+        <select
+          value={banScope}
+          onChange={(event) => setBanScope(event.target.value as 'session' | 'host')}
+          className="bg-th-input text-primary px-3 py-2 rounded-lg focus:outline-none focus:ring-2 ring-th-brand text-sm"
+        >
+          <option value="session">This session</option>
+          <option value="host">All my sessions</option>
+        </select>
+      </label>
+
+      <div className="space-y-2">
+        <p className="text-sm font-semibold text-secondary">Guests ({data.guests.length})</p>
+        {data.guests.length === 0 && <p className="text-xs text-muted">No one has joined yet.</p>}
+        <ul className="space-y-1">
+          {data.guests.map((guest) => (
+            <li key={guest.id} className="flex items-center gap-3 bg-th-surface rounded-lg px-3 py-2">
+              <div className="flex-1 min-w-0">
+                <p className="text-primary text-sm truncate">{guest.name}</p>
+                {guest.mutedUntil && (
+                  <p className="text-xs text-muted">
+                    Muted until {new Date(guest.mutedUntil).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                  </p>
+                )}
+              </div>
+              {busyId === guest.id ? (
+                <Loader2 className="animate-spin text-muted" size={16} />
+              ) : (
+                <>
+                  {guest.mutedUntil ? (
+                    <button
+                      type="button"
+                      onClick={() => void runAction(guest.id, () => sessionApi.unmuteGuest(sessionId, guest.id), 'Failed to unmute guest.')}
+                      className="p-1 text-muted hover:text-primary"
+                      title="Unmute"
+                    >
+                      <Volume2 size={16} />
+                    </button>
+                  ) : (
+                    <button type="button" onClick={() => handleMute(guest)} className="p-1 text-muted hover:text-primary" title="Mute">
+                      <VolumeX size={16} />
+                    </button>
+                  )}
+                  <button type="button" onClick={() => handleKick(guest)} className="p-1 text-muted hover:text-th-error" title="Remove from session">
+                    <UserX size={16} />
+                  </button>
+                  {guest.signedIn && (
+                    <button type="button" onClick={() => handleBan(guest)} className="p-1 text-muted hover:text-th-error" title="Ban">
+                      <Ban size={16} />
+                    </button>
+                  )}
+                </>
+              )}
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      {data.bans.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-sm font-semibold text-secondary">Banned ({data.bans.length})</p>
+          <ul className="space-y-1">
+            {data.bans.map((ban) => (
+              <li key={ban.id} className="flex items-center gap-3 bg-th-surface rounded-lg px-3 py-2">
+                <div className="flex-1 min-w-0">
+                  <p className="text-primary text-sm truncate">{ban.guestName}</p>
+                  <p className="text-xs text-muted truncate">
+                    {ban.scope === 'host' ? 'All your sessions' : 'This session'}
+                    {ban.reason ? ` · ${ban.reason}` : ''}
+                  </p>
+                </div>
+                <button
+                  type="button"
+                  disabled={busyId === ban.id}
+                  onClick={() => void runAction(ban.id, () => sessionApi.liftGuestBan(sessionId, ban.id), 'Failed to lift ban.')}
+                  className="text-xs text-th-brand hover:underline disabled:opacity-50"
+                >
+                  Lift ban
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {actionError && <p className="text-sm text-th-error">{actionError}</p>}
+    </div>
+  );
+}
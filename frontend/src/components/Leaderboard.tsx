@@ -1,7 +1,7 @@
-import { useMemo } from 'react';
+import { useMemo, useState } from 'react';
 import clsx from 'clsx';
 import { useApiSWR } from '../hooks/useApiSWR';
-import { LeaderboardEntry } from '../types';
+import { LeaderboardEntry, LeaderboardPeriod } from '../types';
 
 type LeaderboardProps = {
   sessionId?: string | null;
@@ -12,27 +12,35 @@ type LeaderboardProps = {
 
 const numberFormatter = new Intl.NumberFormat('en-US');
 
-const buildEndpoint = (sessionId?: string) => {
+const PERIOD_OPTIONS: Array<{ value: LeaderboardPeriod; label: string }> = [
+  { value: 'day', label: 'Today' },
+  { value: 'week', label: 'This week' },
+  { value: 'month', label: 'This month' },
+];
+
+const buildEndpoint = (period: LeaderboardPeriod, sessionId?: string) => {
   if (!sessionId) {
-    return '/stats/leaderboard';
+    return `/stats/leaderboard?period=${period}`;
   }
 
-  return `/sessions/${sessionId}/leaderboard`;
+  return `/sessions/${sessionId}/leaderboard?period=${period}`;
 };
 
 export default function Leaderboard({
   sessionId,
   className,
   title = 'Session Leaderboard',
-  description = 'Track real-time performance across your team. Data refreshes automatically once the endpoint is available.',
+  description = 'Track real-time performance across your team.',
 }: LeaderboardProps) {
-  const endpoint = sessionId ? buildEndpoint(sessionId) : buildEndpoint();
+  const [period, setPeriod] = useState<LeaderboardPeriod>('day');
+  const endpoint = sessionId ? buildEndpoint(period, sessionId) : buildEndpoint(period);
   const key = sessionId === null ? null : endpoint;
 
   const { data, error, isLoading } = useApiSWR<LeaderboardEntry[] | undefined>(
     key,
     {
       keepPreviousData: true,
+      refreshInterval: 60000,
     }
   );
 
@@ -47,9 +55,26 @@ export default function Leaderboard({
 
   return (
     <section className={clsx('bg-th-surface p-6 rounded-lg border border-muted text-left', className)}>
-      <header className="mb-6">
-        <h2 className="text-2xl font-bold text-primary">{title}</h2>
-        <p className="text-secondary text-sm">{description}</p>
+      <header className="mb-6 space-y-3">
+        <div>
+          <h2 className="text-2xl font-bold text-primary">{title}</h2>
+          <p className="text-secondary text-sm">{description}</p>
+        </div>
+        <div className="inline-flex rounded-lg bg-th-elevated/60 p-1">
+          {PERIOD_OPTIONS.map((option) => (
+            <button
+              key={option.value}
+              type="button"
+              onClick={() => setPeriod(option.value)}
+              className={clsx(
+                'px-3 py-1 rounded-md text-xs font-semibold transition',
+                period === option.value ? 'bg-th-brand text-primary' : 'text-muted hover:text-primary'
+              )}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
       </header>
 
       <div className="overflow-x-auto">
@@ -99,7 +124,7 @@ export default function Leaderboard({
             {isEmpty && (
               <tr>
                 <td colSpan={5} className="px-4 py-6 text-center text-secondary text-sm">
-                  Leaderboard data will appear here once the endpoint is connected.
+                  No activity recorded for this period yet.
                 </td>
               </tr>
             )}
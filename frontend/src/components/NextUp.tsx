@@ -1,10 +1,14 @@
-import { QueueItem } from '../types';
+import { ThumbsDown } from 'lucide-react';
+import { QueueItem, QueueOrderingMode } from '../types';
 
 interface NextUpProps {
   track: QueueItem | null;
+  orderingMode?: QueueOrderingMode;
+  /** Downvote an auto-filled track; enough downvotes drop it */
+  onVoteAway?: () => void;
 }
 
-export default function NextUp({ track }: NextUpProps) {
+export default function NextUp({ track, orderingMode = 'VOTES', onVoteAway }: NextUpProps) {
   if (!track) {
     return (
       <div className="bg-th-surface p-6 rounded-lg text-center">
@@ -23,7 +27,18 @@ export default function NextUp({ track }: NextUpProps) {
 
   return (
     <div className="bg-gradient-to-r from-th-elevated to-th-surface p-6 rounded-lg">
-      <h2 className="text-sm text-muted uppercase mb-4">Next Up</h2>
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-sm text-muted uppercase">Next Up</h2>
+        {track.isCelebration ? (
+          <span className="text-xs font-semibold text-th-brand">🎉 Celebration anthem</span>
+        ) : track.pinOrder != null ? (
+          <span className="text-xs font-semibold text-th-brand">📌 Pinned</span>
+        ) : track.isAutoFill ? (
+          <span className="text-xs font-semibold text-purple-400">🔀 Auto-fill</span>
+        ) : orderingMode === 'ROUND_ROBIN' && (
+          <span className="text-xs text-faint">Fair-share rotation</span>
+        )}
+      </div>
       <div className="flex items-center gap-4">
         {track.trackImage && (
           <img
@@ -39,12 +54,24 @@ export default function NextUp({ track }: NextUpProps) {
             <p className="text-faint text-sm">{track.trackAlbum}</p>
           )}
           <p className="text-faint text-xs mt-1">
-            Added by {track.addedBy?.displayName || track.addedByGuest?.name || 'Guest'} · {formatDuration(track.trackDuration)}
+            {track.isAutoFill
+              ? 'Auto-filled from the fallback source'
+              : `Added by ${track.addedBy?.displayName || track.addedByGuest?.name || 'Guest'}`} · {formatDuration(track.trackDuration)}
           </p>
         </div>
         <div className="text-right">
           <p className="text-th-brand text-3xl font-bold">{track.voteScore}</p>
           <p className="text-muted text-xs uppercase tracking-wide">Votes</p>
+          {track.isAutoFill && onVoteAway && (
+            <button
+              type="button"
+              onClick={onVoteAway}
+              className="mt-2 inline-flex items-center gap-1 text-xs text-muted hover:text-th-error transition"
+              title="Vote this auto-filled track away"
+            >
+              <ThumbsDown size={14} /> Vote away
+            </button>
+          )}
         </div>
       </div>
     </div>
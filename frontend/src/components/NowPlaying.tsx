@@ -1,7 +1,7 @@
 import { Dispatch, SetStateAction, useState } from 'react';
 import { Play, Pause, SkipForward } from 'lucide-react';
 import { spotifyApi } from '../services/api';
-import { PlaybackRequester, PlaybackState, SkipState, CreditState } from '../types';
+import { PlaybackRequester, PlaybackState, SkipState, CreditState, CelebrationEvent } from '../types';
 
 const DEFAULT_SKIP_THRESHOLD = 3;
 
@@ -19,6 +19,7 @@ interface NowPlayingProps {
   guestCredits?: CreditState | null;
   skipCost: number;
   onGuestSkip?: () => Promise<void>;
+  celebration?: CelebrationEvent | null;
 }
 
 export default function NowPlaying({
@@ -35,6 +36,7 @@ export default function NowPlaying({
   guestCredits,
   skipCost,
   onGuestSkip,
+  celebration = null,
 }: NowPlayingProps) {
   const [guestSkipPending, setGuestSkipPending] = useState(false);
   const isPlaying = playback?.is_playing ?? false;
@@ -43,7 +45,7 @@ export default function NowPlaying({
   const skipCount = skipState?.skipCount ?? 0;
   const skipThreshold = skipState?.threshold ?? DEFAULT_SKIP_THRESHOLD;
   const skipTriggered = Boolean(skipState?.triggered);
-  const guestBalance = guestCredits?.currentCredits ?? null;
+  const guestBalance = guestCredits ? guestCredits.currentCredits + (guestCredits.bonusCredits ?? 0) : null;
   const guestHasCredits = guestBalance === null || guestBalance >= skipCost;
   const canGuestSkip = showGuestSkip && hasTrack && skipThreshold > 0;
   const guestSkipDisabled = !canGuestSkip || !guestHasCredits || guestSkipPending;
@@ -102,9 +104,23 @@ export default function NowPlaying({
     }
   };
 
+  const celebrationBanner = celebration ? (
+    <div className="mb-4 flex items-center gap-3 rounded-lg border border-th-brand/40 bg-th-brand/15 px-4 py-3 text-left animate-in fade-in duration-300">
+      <span className="text-2xl" aria-hidden="true">🎉</span>
+      <div className="min-w-0">
+        <p className="text-primary font-semibold truncate">{celebration.name} just closed a deal!</p>
+        {celebration.message && <p className="text-secondary text-sm truncate">{celebration.message}</p>}
+        <p className="text-muted text-xs truncate">
+          Up next: {celebration.trackName} · {celebration.trackArtist}
+        </p>
+      </div>
+    </div>
+  ) : null;
+
   if (error) {
     return (
       <div className="bg-th-surface p-6 rounded-lg text-center">
+        {celebrationBanner}
         <p className="text-muted">{error}</p>
       </div>
     );
@@ -113,6 +129,7 @@ export default function NowPlaying({
   if (!playback?.item) {
     return (
       <div className="bg-th-surface p-6 rounded-lg text-center">
+        {celebrationBanner}
         <p className="text-muted">No track currently playing</p>
         <p className="text-faint text-sm mt-2">
           Open Spotify on your device to start playback
@@ -123,6 +140,7 @@ export default function NowPlaying({
 
   return (
     <div className="bg-gradient-to-r from-th-surface to-th-elevated p-6 rounded-lg">
+      {celebrationBanner}
       <h2 className="text-sm text-muted uppercase mb-4">Now Playing</h2>
       
       <div className="flex items-center gap-4">
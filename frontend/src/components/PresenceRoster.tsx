@@ -0,0 +1,47 @@
+import { Users } from 'lucide-react';
+import type { PresenceEntry } from '../types';
+
+type PresenceRosterProps = {
+  roster: PresenceEntry[];
+};
+
+const timeFormatter = new Intl.DateTimeFormat('en-US', { hour: 'numeric', minute: '2-digit' });
+
+export default function PresenceRoster({ roster }: PresenceRosterProps) {
+  return (
+    <section className="bg-th-surface p-6 rounded-lg text-left">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-xl font-bold text-primary">Listening Now</h3>
+        <span className="flex items-center gap-1 text-th-brand font-bold">
+          <Users size={16} />
+          {roster.length}
+        </span>
+      </div>
+
+      {roster.length === 0 ? (
+        <p className="text-muted text-sm">Nobody is connected yet.</p>
+      ) : (
+        <ul className="space-y-2">
+          {roster.map((entry) => (
+            <li key={entry.id} className="flex items-center justify-between gap-3">
+              <div className="min-w-0">
+                <p className="text-primary text-sm font-semibold truncate">
+                  {entry.name}
+                  {entry.role === 'host' && (
+                    <span className="ml-2 text-xs font-normal text-th-brand">Host</span>
+                  )}
+                </p>
+                <p className="text-faint text-xs">
+                  Since {timeFormatter.format(new Date(entry.connectedSince))}
+                </p>
+              </div>
+              {entry.deviceCount > 1 && (
+                <span className="text-muted text-xs whitespace-nowrap">{entry.deviceCount} devices</span>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
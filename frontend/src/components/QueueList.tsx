@@ -1,7 +1,11 @@
-import { ThumbsUp, ThumbsDown, Trash2 } from 'lucide-react';
+import { useState } from 'react';
+import { ArrowUpToLine, Ban, ChevronDown, ChevronUp, GripVertical, PinOff, ThumbsUp, ThumbsDown, Trash2, Zap } from 'lucide-react';
 import { queueApi } from '../services/api';
 import { CreditState, QueueItem, SessionParticipant } from '../types';
 
+const MIN_BOOST = 5;
+const BOOST_CREDITS_PER_VOTE = 10;
+
 interface QueueListProps {
   nextUp?: QueueItem | null;
   queue: QueueItem[];
@@ -14,6 +18,11 @@ interface QueueListProps {
 }
 
 export default function QueueList({ nextUp: _nextUp, queue, sessionId: _sessionId, sessionHostId, onQueueUpdate, participant, onRequireAccess, onSessionError }: QueueListProps) {
+  const isHost = participant?.type === 'host';
+  const canVeto = isHost || Boolean(participant?.canModerate);
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+
   const canRemove = (item: QueueItem) => {
     if (!participant) return false;
     if (participant.type === 'host') return true;
@@ -54,12 +63,57 @@ export default function QueueList({ nextUp: _nextUp, queue, sessionId: _sessionI
         alert(message);
         return;
       }
+      // Another of this voter's clicks got there first; show where things stand
+      if (status === 409) {
+        void onQueueUpdate();
+        return;
+      }
       if (status === 401 || status === 403) {
         onRequireAccess();
       }
     }
   };
 
+  const handleBoost = async (item: QueueItem) => {
+    if (!ensureParticipant()) {
+      return;
+    }
+
+    const input = prompt(
+      `How many credits do you want to spend boosting "${item.trackName}"? Every ${BOOST_CREDITS_PER_VOTE} credits count as one upvote.`,
+      String(BOOST_CREDITS_PER_VOTE)
+    );
+
+    if (input === null) return;
+
+    const amount = Number(input);
+    if (!Number.isInteger(amount) || amount < MIN_BOOST) {
+      alert(`Boosts must be a whole number of at least ${MIN_BOOST} credits.`);
+      return;
+    }
+
+    try {
+      const response = await queueApi.boost(item.id, amount);
+      const credits = response?.data?.credits as CreditState | undefined;
+      void onQueueUpdate(credits ? { credits } : undefined);
+    } catch (error) {
+      console.error('Boost error:', error);
+      const status = (error as any)?.response?.status;
+      const message = (error as any)?.response?.data?.error;
+
+      if (status === 404 && message?.includes('no longer active')) {
+        onSessionError?.(message);
+        return;
+      }
+
+      if (status === 401) {
+        onRequireAccess();
+        return;
+      }
+      alert(message || 'Failed to boost track');
+    }
+  };
+
   const handleRemove = async (queueItemId: string) => {
     if (!ensureParticipant()) {
       return;
@@ -89,6 +143,56 @@ export default function QueueList({ nextUp: _nextUp, queue, sessionId: _sessionI
     }
   };
 
+  const handleVeto = async (item: QueueItem) => {
+    const reason = prompt(`Veto "${item.trackName}"? You can add a reason for whoever requested it (optional).`, '');
+
+    if (reason === null) return;
+
+    try {
+      const response = await queueApi.veto(item.id, reason.trim() || undefined);
+      const credits = response?.data?.credits as CreditState | undefined;
+      void onQueueUpdate(credits ? { credits } : undefined);
+    } catch (error) {
+      console.error('Veto error:', error);
+      alert((error as any)?.response?.data?.error || 'Failed to veto track');
+    }
+  };
+
+  const handleMove = async (
+    queueItemId: string,
+    target: { position: number } | { direction: 'up' | 'down' } | { nextUp: true }
+  ) => {
+    try {
+      await queueApi.move(queueItemId, target);
+      void onQueueUpdate();
+    } catch (error) {
+      console.error('Move error:', error);
+      alert((error as any)?.response?.data?.error || 'Failed to move track');
+    }
+  };
+
+  const handleUnpin = async (queueItemId: string) => {
+    try {
+      await queueApi.unpin(queueItemId);
+      void onQueueUpdate();
+    } catch (error) {
+      console.error('Unpin error:', error);
+      alert((error as any)?.response?.data?.error || 'Failed to unpin track');
+    }
+  };
+
+  const handleDrop = (index: number) => {
+    const item = queue.find((entry) => entry.id === draggedId);
+    setDraggedId(null);
+    setDropIndex(null);
+
+    if (!item || queue[index]?.id === item.id) {
+      return;
+    }
+
+    void handleMove(item.id, { position: index });
+  };
+
   const formatDuration = (ms: number) => {
     const minutes = Math.floor(ms / 60000);
     const seconds = Math.floor((ms % 60000) / 1000);
@@ -131,8 +235,32 @@ export default function QueueList({ nextUp: _nextUp, queue, sessionId: _sessionI
         return (
           <div
             key={item.id}
-            className="bg-th-surface p-4 rounded-lg flex items-center gap-4 hover:bg-opacity-80 transition"
+            draggable={isHost}
+            onDragStart={(event) => {
+              setDraggedId(item.id);
+              event.dataTransfer.effectAllowed = 'move';
+            }}
+            onDragOver={(event) => {
+              if (!draggedId) return;
+              event.preventDefault();
+              setDropIndex(index);
+            }}
+            onDrop={(event) => {
+              event.preventDefault();
+              handleDrop(index);
+            }}
+            onDragEnd={() => {
+              setDraggedId(null);
+              setDropIndex(null);
+            }}
+            className={`bg-th-surface p-4 rounded-lg flex items-center gap-4 hover:bg-opacity-80 transition ${
+              draggedId === item.id ? 'opacity-50' : ''
+            } ${dropIndex === index && draggedId !== item.id ? 'ring-2 ring-th-brand' : ''}`}
           >
+          {isHost && (
+            <GripVertical size={18} className="text-faint cursor-grab shrink-0" aria-label="Drag to reorder" />
+          )}
+
           {/* Track Number */}
           <div className="text-muted font-bold w-8 text-center">
             {index + 1}
@@ -152,10 +280,26 @@ export default function QueueList({ nextUp: _nextUp, queue, sessionId: _sessionI
             <h3 className="text-primary font-semibold truncate">{item.trackName}</h3>
             <p className="text-muted text-sm truncate">{item.trackArtist}</p>
             <p className="text-faint text-xs">
-              Added by {item.addedBy?.displayName || item.addedByGuest?.name || 'Guest'} · {formatDuration(item.trackDuration)}
+              {item.pinOrder != null && !item.isAutoFill && '📌 '}
+              {item.isAutoFill
+                ? '🔀 Auto-filled'
+                : `Added by ${item.addedBy?.displayName || item.addedByGuest?.name || 'Guest'}`} · {formatDuration(item.trackDuration)}
             </p>
           </div>
 
+          {/* Boost */}
+          {!item.isAutoFill && (item.pinOrder == null || Boolean(item.boostTotal)) && (
+            <button
+              onClick={() => void handleBoost(item)}
+              disabled={item.pinOrder != null}
+              className="flex items-center gap-1 text-muted hover:text-yellow-400 transition p-2 rounded hover:bg-th-elevated disabled:hover:text-muted disabled:cursor-default"
+              title={item.pinOrder != null ? 'Pinned tracks keep the host\'s order' : 'Spend credits to boost this track'}
+            >
+              <Zap size={18} className={item.boostTotal ? 'text-yellow-400' : undefined} />
+              {Boolean(item.boostTotal) && <span className="text-sm font-semibold text-yellow-400">{item.boostTotal}</span>}
+            </button>
+          )}
+
           {/* Vote Score */}
           <div className="flex items-center gap-2">
             <button
@@ -193,6 +337,56 @@ export default function QueueList({ nextUp: _nextUp, queue, sessionId: _sessionI
             </button>
           </div>
 
+          {/* Host ordering controls */}
+          {isHost && (
+            <div className="flex flex-col items-center">
+              <button
+                onClick={() => void handleMove(item.id, { direction: 'up' })}
+                disabled={index === 0}
+                className="text-muted hover:text-primary transition p-1 rounded hover:bg-th-elevated disabled:opacity-30"
+                title="Move up"
+              >
+                <ChevronUp size={18} />
+              </button>
+              <button
+                onClick={() => void handleMove(item.id, { direction: 'down' })}
+                disabled={index === queue.length - 1}
+                className="text-muted hover:text-primary transition p-1 rounded hover:bg-th-elevated disabled:opacity-30"
+                title="Move down"
+              >
+                <ChevronDown size={18} />
+              </button>
+            </div>
+          )}
+          {isHost && (
+            <button
+              onClick={() => void handleMove(item.id, { nextUp: true })}
+              className="text-muted hover:text-th-brand transition p-2 rounded hover:bg-th-elevated"
+              title="Play next"
+            >
+              <ArrowUpToLine size={20} />
+            </button>
+          )}
+          {isHost && item.pinOrder != null && (
+            <button
+              onClick={() => void handleUnpin(item.id)}
+              className="text-muted hover:text-primary transition p-2 rounded hover:bg-th-elevated"
+              title="Unpin (back to vote order)"
+            >
+              <PinOff size={20} />
+            </button>
+          )}
+
+          {canVeto && (
+            <button
+              onClick={() => void handleVeto(item)}
+              className="text-muted hover:text-th-error transition p-2 rounded hover:bg-th-elevated"
+              title="Veto this track"
+            >
+              <Ban size={20} />
+            </button>
+          )}
+
           {/* Remove Button */}
           {canRemove(item) && (
             <button
@@ -1,12 +1,65 @@
 import { ChangeEvent, useEffect, useState } from 'react';
-import { Search, Plus, Clock, XCircle, Loader2, Calendar } from 'lucide-react';
+import {
+  Search,
+  Plus,
+  Clock,
+  XCircle,
+  Loader2,
+  Calendar,
+  Pencil,
+  ChevronUp,
+  ChevronDown,
+  History,
+  RotateCcw,
+} from 'lucide-react';
 import useSWR, { Fetcher } from 'swr';
 import { AxiosError } from 'axios';
 import { useApiSWR } from '../hooks/useApiSWR';
 import { scheduledPlaybackApi, spotifyApi } from '../services/api';
-import type { ScheduledPlayback, SpotifyTrack } from '../types';
-
-const MAX_TRACKS = 10;
+import ScheduledPlaybackRuns from './ScheduledPlaybackRuns';
+import CollectionImport from './CollectionImport';
+import type {
+  ScheduledPlayback,
+  ScheduledDeliveryMode,
+  ScheduledPlaybackTrack,
+  ScheduleRecurrence,
+  ScheduleRecurrenceInput,
+  SpotifyTrack,
+} from '../types';
+
+const MAX_TRACKS = 50;
+
+const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const RECURRENCE_OPTIONS: Array<{ value: ScheduleRecurrence; label: string }> = [
+  { value: 'DAILY', label: 'Every day' },
+  { value: 'WEEKLY', label: 'Specific weekdays' },
+  { value: 'EVERY_N_DAYS', label: 'Every few days' },
+  { value: 'CRON', label: 'Custom (cron)' },
+];
+
+/** Lets saved tracks share the selection list with fresh search results */
+const toSpotifyTrack = (track: ScheduledPlaybackTrack): SpotifyTrack => ({
+  id: track.spotifyTrackId,
+  name: track.trackName,
+  artists: [{ id: '', name: track.trackArtist }],
+  album: {
+    name: track.trackAlbum ?? '',
+    images: track.trackImage ? [{ url: track.trackImage }] : [],
+  },
+  duration_ms: track.trackDuration,
+  uri: track.spotifyUri,
+  explicit: false,
+});
+
+const formatTimeOfDay = (minutes: number) =>
+  `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+
+const DELIVERY_OPTIONS: Array<{ value: ScheduledDeliveryMode; label: string; hint: string }> = [
+  { value: 'APPEND', label: 'Add to queue', hint: 'Tracks join the queue and are ordered like any other request.' },
+  { value: 'JUMP_TO_FRONT', label: 'Jump to front', hint: 'Tracks are pinned ahead of voted songs and play next, in order.' },
+  { value: 'INTERRUPT', label: 'Interrupt now', hint: 'The current song is cut off and the set starts right away.' },
+];
 
 type ScheduledPlaybackResponse = {
   upcoming: ScheduledPlayback[];
@@ -27,16 +80,31 @@ export default function ScheduledPlaybackManager({ sessionId, canManage }: Sched
   );
 
   const [scheduledTime, setScheduledTime] = useState('');
+  const [recurrenceType, setRecurrenceType] = useState<ScheduleRecurrence>('DAILY');
+  const [weekdays, setWeekdays] = useState<number[]>([1, 2, 3, 4, 5]);
+  const [intervalDays, setIntervalDays] = useState('2');
+  const [cronExpression, setCronExpression] = useState('');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [deliveryMode, setDeliveryMode] = useState<ScheduledDeliveryMode>('APPEND');
   const [searchTerm, setSearchTerm] = useState('');
   const [debouncedSearchTerm, setDebouncedSearchTerm] = useState('');
   const [showSearchResults, setShowSearchResults] = useState(false);
   const [selectedTracks, setSelectedTracks] = useState<SpotifyTrack[]>([]);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [formError, setFormError] = useState<string | null>(null);
+  const [editingSchedule, setEditingSchedule] = useState<ScheduledPlayback | null>(null);
+  const [expandedRunsId, setExpandedRunsId] = useState<string | null>(null);
+  const [maxRetries, setMaxRetries] = useState('');
+  const [retryBackoffSeconds, setRetryBackoffSeconds] = useState('');
 
   const upcoming = data?.upcoming ?? [];
+  const history = data?.history ?? [];
 
+  const timezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
   const timezoneOffsetMinutes = new Date().getTimezoneOffset();
+  // Edits keep the schedule's own zone rather than the browser's
+  const formTimezone = editingSchedule ? editingSchedule.timezone ?? null : timezone;
 
   const formatNextRun = (iso: string) => new Date(iso).toLocaleString([], {
     dateStyle: 'medium',
@@ -45,9 +113,69 @@ export default function ScheduledPlaybackManager({ sessionId, canManage }: Sched
 
   const formatDailyTime = (schedule: ScheduledPlayback) => {
     const nextRunDate = new Date(schedule.scheduledFor);
-    return nextRunDate.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+    const scheduleZone = schedule.timezone ?? undefined;
+    const time = nextRunDate.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit', timeZone: scheduleZone });
+    return scheduleZone && scheduleZone !== timezone ? `${time} (${scheduleZone})` : time;
+  };
+
+  const describeRecurrence = (schedule: ScheduledPlayback) => {
+    switch (schedule.recurrenceType) {
+      case 'WEEKLY': {
+        const days = schedule.recurrenceWeekdays ?? [];
+        const label = days.join(',') === '1,2,3,4,5' ? 'Weekdays' : days.map((day) => WEEKDAY_LABELS[day]).join(', ');
+        return `${label} at ${formatDailyTime(schedule)}`;
+      }
+      case 'EVERY_N_DAYS':
+        return schedule.recurrenceIntervalDays === 1
+          ? `Daily at ${formatDailyTime(schedule)}`
+          : `Every ${schedule.recurrenceIntervalDays} days at ${formatDailyTime(schedule)}`;
+      case 'CRON':
+        return `Cron ${schedule.recurrenceCron}${schedule.timezone && schedule.timezone !== timezone ? ` (${schedule.timezone})` : ''}`;
+      default:
+        return `Daily at ${formatDailyTime(schedule)}`;
+    }
+  };
+
+  const describeDateRange = (schedule: ScheduledPlayback) => {
+    // Bare dates are calendar days, so format them without shifting through UTC
+    const formatDate = (date: string) => new Date(`${date}T00:00:00`).toLocaleDateString([], { dateStyle: 'medium' });
+    const showStart = schedule.startDate && schedule.recurrenceType !== 'EVERY_N_DAYS';
+
+    if (showStart && schedule.endDate) {
+      return `${formatDate(schedule.startDate!)} – ${formatDate(schedule.endDate)}`;
+    }
+
+    if (showStart) {
+      return `Starting ${formatDate(schedule.startDate!)}`;
+    }
+
+    return schedule.endDate ? `Until ${formatDate(schedule.endDate)}` : null;
+  };
+
+  const toggleWeekday = (day: number) => {
+    setWeekdays((prev) => (prev.includes(day)
+      ? prev.filter((existing) => existing !== day)
+      : [...prev, day].sort((a, b) => a - b)));
   };
 
+  const buildRecurrence = (): ScheduleRecurrenceInput => ({
+    type: recurrenceType,
+    ...(recurrenceType === 'WEEKLY' ? { weekdays } : {}),
+    ...(recurrenceType === 'EVERY_N_DAYS' ? { intervalDays: Number(intervalDays) } : {}),
+    ...(recurrenceType === 'CRON' ? { cron: cronExpression.trim() } : {}),
+    ...(startDate ? { startDate } : {}),
+    ...(endDate ? { endDate } : {}),
+  });
+
+  // Blank fields fall back to the server's defaults
+  const buildRetryPolicy = () => ({
+    ...(maxRetries.trim() ? { maxRetries: Number(maxRetries) } : {}),
+    ...(retryBackoffSeconds.trim() ? { retryBackoffSeconds: Number(retryBackoffSeconds) } : {}),
+  });
+
+  const isCron = recurrenceType === 'CRON';
+  const hasTiming = isCron ? cronExpression.trim().length > 0 : Boolean(scheduledTime);
+
   const describeLastRun = (schedule: ScheduledPlayback) => {
     if (!schedule.lastRunAt) {
       return null;
@@ -138,17 +266,82 @@ export default function ScheduledPlaybackManager({ sessionId, canManage }: Sched
     setShowSearchResults(false);
   };
 
+  const addImportedTracks = (tracks: SpotifyTrack[]) => {
+    const fresh = tracks.filter((track) => !selectedTracks.some((existing) => existing.id === track.id));
+    const room = Math.max(MAX_TRACKS - selectedTracks.length, 0);
+    const added = fresh.slice(0, room);
+
+    setFormError(fresh.length > room
+      ? `Only ${added.length} of ${fresh.length} imported tracks fit; schedules hold up to ${MAX_TRACKS} tracks.`
+      : null);
+    setSelectedTracks((prev) => [...prev, ...added]);
+    return added.length;
+  };
+
   const removeTrack = (trackId: string) => {
     setSelectedTracks((prev) => prev.filter((track) => track.id !== trackId));
   };
 
+  const moveTrack = (index: number, delta: number) => {
+    setSelectedTracks((prev) => {
+      const target = index + delta;
+      if (target < 0 || target >= prev.length) {
+        return prev;
+      }
+
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const resetForm = () => {
+    setSearchTerm('');
+    setDebouncedSearchTerm('');
+    setShowSearchResults(false);
+    setSelectedTracks([]);
+    setScheduledTime('');
+    setRecurrenceType('DAILY');
+    setWeekdays([1, 2, 3, 4, 5]);
+    setIntervalDays('2');
+    setCronExpression('');
+    setStartDate('');
+    setEndDate('');
+    setDeliveryMode('APPEND');
+    setMaxRetries('');
+    setRetryBackoffSeconds('');
+    setEditingSchedule(null);
+  };
+
+  const startEditing = (schedule: ScheduledPlayback) => {
+    resetForm();
+    setFormError(null);
+    setEditingSchedule(schedule);
+    setScheduledTime(schedule.timeOfDayMinutes != null ? formatTimeOfDay(schedule.timeOfDayMinutes) : '');
+    setRecurrenceType(schedule.recurrenceType ?? 'DAILY');
+    setWeekdays(schedule.recurrenceWeekdays ?? [1, 2, 3, 4, 5]);
+    setIntervalDays(String(schedule.recurrenceIntervalDays ?? 2));
+    setCronExpression(schedule.recurrenceCron ?? '');
+    setStartDate(schedule.startDate ?? '');
+    setEndDate(schedule.endDate ?? '');
+    setDeliveryMode(schedule.deliveryMode ?? 'APPEND');
+    setMaxRetries(String(schedule.maxRetries));
+    setRetryBackoffSeconds(String(schedule.retryBackoffSeconds));
+    setSelectedTracks(schedule.tracks.map(toSpotifyTrack));
+  };
+
   const handleSubmit = async () => {
     if (!canManage) {
       return;
     }
 
-    if (!scheduledTime) {
-      setFormError('Select a schedule time.');
+    if (!hasTiming) {
+      setFormError(isCron ? 'Enter a cron expression.' : 'Select a schedule time.');
+      return;
+    }
+
+    if (recurrenceType === 'WEEKLY' && weekdays.length === 0) {
+      setFormError('Pick at least one weekday.');
       return;
     }
 
@@ -160,35 +353,90 @@ export default function ScheduledPlaybackManager({ sessionId, canManage }: Sched
     setIsSubmitting(true);
     setFormError(null);
 
+    const tracks = selectedTracks.map((track) => ({
+      spotifyTrackId: track.id,
+      spotifyUri: track.uri,
+      trackName: track.name,
+      trackArtist: track.artists.map((artist) => artist.name).join(', '),
+      trackAlbum: track.album?.name ?? null,
+      trackImage: track.album?.images?.[0]?.url ?? null,
+      trackDuration: track.duration_ms,
+    }));
+
     try {
-      await scheduledPlaybackApi.create(sessionId, {
-        timeOfDay: scheduledTime,
-        timezoneOffsetMinutes,
-        tracks: selectedTracks.map((track) => ({
-          spotifyTrackId: track.id,
-          spotifyUri: track.uri,
-          trackName: track.name,
-          trackArtist: track.artists.map((artist) => artist.name).join(', '),
-          trackAlbum: track.album?.name ?? null,
-          trackImage: track.album?.images?.[0]?.url ?? null,
-          trackDuration: track.duration_ms,
-        })),
-      });
-
-      setSearchTerm('');
-      setDebouncedSearchTerm('');
-      setShowSearchResults(false);
-      setSelectedTracks([]);
-      setScheduledTime('');
+      if (editingSchedule) {
+        await scheduledPlaybackApi.update(sessionId, editingSchedule.id, {
+          ...(isCron ? {} : { timeOfDay: scheduledTime }),
+          recurrence: buildRecurrence(),
+          deliveryMode,
+          ...buildRetryPolicy(),
+          tracks,
+        });
+      } else {
+        await scheduledPlaybackApi.create(sessionId, {
+          ...(isCron ? {} : { timeOfDay: scheduledTime }),
+          recurrence: buildRecurrence(),
+          deliveryMode,
+          ...buildRetryPolicy(),
+          // Offset is only a fallback for browsers that can't name their zone
+          ...(timezone ? { timezone } : { timezoneOffsetMinutes }),
+          tracks,
+        });
+      }
+
+      resetForm();
       await mutate();
     } catch (err: any) {
-      const message = err?.response?.data?.error ?? 'Failed to schedule playback. Please try again.';
-      setFormError(message);
+      const fallback = editingSchedule
+        ? 'Failed to update scheduled playback. Please try again.'
+        : 'Failed to schedule playback. Please try again.';
+      setFormError(err?.response?.data?.error ?? fallback);
+      // A conflict means the schedule started running or was edited elsewhere
+      if (err?.response?.status === 409) {
+        await mutate();
+      }
     } finally {
       setIsSubmitting(false);
     }
   };
 
+  const handleRerun = async (schedule: ScheduledPlayback) => {
+    if (!canManage) {
+      return;
+    }
+
+    try {
+      await scheduledPlaybackApi.rerun(sessionId, schedule.id);
+      setExpandedRunsId(schedule.id);
+      await mutate();
+    } catch (err: any) {
+      const message = err?.response?.data?.error ?? 'Failed to re-run scheduled playback.';
+      setFormError(message);
+    }
+  };
+
+  const renderRunsToggle = (schedule: ScheduledPlayback) => (
+    <button
+      type="button"
+      onClick={() => setExpandedRunsId((current) => (current === schedule.id ? null : schedule.id))}
+      className="inline-flex items-center gap-2 bg-th-surface hover:bg-th-hover text-secondary px-3 py-2 rounded-lg"
+    >
+      <History size={16} />
+      <span>{expandedRunsId === schedule.id ? 'Hide runs' : 'Runs'}</span>
+    </button>
+  );
+
+  const renderRerunButton = (schedule: ScheduledPlayback) => (
+    <button
+      type="button"
+      onClick={() => void handleRerun(schedule)}
+      className="inline-flex items-center gap-2 bg-yellow-500/10 hover:bg-yellow-500/20 text-yellow-300 px-3 py-2 rounded-lg"
+    >
+      <RotateCcw size={16} />
+      <span>Re-run now</span>
+    </button>
+  );
+
   const handleCancel = async (schedule: ScheduledPlayback) => {
     if (!canManage) {
       return;
@@ -196,6 +444,9 @@ export default function ScheduledPlaybackManager({ sessionId, canManage }: Sched
 
     try {
       await scheduledPlaybackApi.cancel(sessionId, schedule.id);
+      if (editingSchedule?.id === schedule.id) {
+        resetForm();
+      }
       await mutate();
     } catch (err: any) {
       const message = err?.response?.data?.error ?? 'Failed to cancel scheduled playback.';
@@ -247,21 +498,173 @@ export default function ScheduledPlaybackManager({ sessionId, canManage }: Sched
 
       {canManage && (
         <div className="bg-th-elevated/50 border border-subtle rounded-lg p-5 space-y-4 hover:border-th-brand/30 transition-colors">
+          {editingSchedule && (
+            <div className="flex items-center justify-between gap-3 bg-th-brand/10 border border-th-brand/30 rounded-lg px-4 py-2 text-sm">
+              <span className="text-primary">
+                Editing <span className="font-semibold">{describeRecurrence(editingSchedule)}</span>
+              </span>
+              <button
+                type="button"
+                onClick={() => { resetForm(); setFormError(null); }}
+                className="text-muted hover:text-primary"
+              >
+                Stop editing
+              </button>
+            </div>
+          )}
           <div>
             <label className="flex items-center gap-2 text-sm font-semibold text-primary mb-3">
-              <Clock size={16} className="text-th-brand" />
-              Daily start time
+              <Calendar size={16} className="text-th-brand" />
+              Repeats
             </label>
-            <input
-              type="time"
-              value={scheduledTime}
-              onChange={(event) => setScheduledTime(event.target.value)}
+            <select
+              value={recurrenceType}
+              onChange={(event) => setRecurrenceType(event.target.value as ScheduleRecurrence)}
               className="w-full bg-th-surface text-primary px-4 py-2.5 rounded-lg focus:outline-none focus:ring-2 ring-th-brand border border-DEFAULT"
-            />
-            <p className="text-xs text-faint mt-2 flex items-center gap-1">
-              <span className="text-th-info">ℹ️</span>
-              Runs every day at the selected time in your timezone
+            >
+              {RECURRENCE_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+
+            {recurrenceType === 'WEEKLY' && (
+              <div className="flex flex-wrap gap-2 mt-3">
+                {WEEKDAY_LABELS.map((label, day) => (
+                  <button
+                    key={label}
+                    type="button"
+                    onClick={() => toggleWeekday(day)}
+                    aria-pressed={weekdays.includes(day)}
+                    className={`px-3 py-1.5 rounded-lg text-sm font-semibold border transition ${
+                      weekdays.includes(day)
+                        ? 'bg-th-brand/20 border-th-brand text-th-brand'
+                        : 'bg-th-surface border-DEFAULT text-muted hover:text-primary'
+                    }`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            )}
+
+            {recurrenceType === 'EVERY_N_DAYS' && (
+              <div className="flex items-center gap-2 mt-3 text-sm text-secondary">
+                <span>Every</span>
+                <input
+                  type="number"
+                  min={1}
+                  max={365}
+                  value={intervalDays}
+                  onChange={(event) => setIntervalDays(event.target.value)}
+                  className="w-20 bg-th-surface text-primary px-3 py-2 rounded-lg focus:outline-none focus:ring-2 ring-th-brand border border-DEFAULT"
+                />
+                <span>days, counting from the start date</span>
+              </div>
+            )}
+          </div>
+
+          {isCron ? (
+            <div>
+              <label className="flex items-center gap-2 text-sm font-semibold text-primary mb-3">
+                <Clock size={16} className="text-th-brand" />
+                Cron expression
+              </label>
+              <input
+                type="text"
+                value={cronExpression}
+                onChange={(event) => setCronExpression(event.target.value)}
+                placeholder="30 9 * * mon-fri"
+                className="w-full bg-th-surface text-primary px-4 py-2.5 rounded-lg focus:outline-none focus:ring-2 ring-th-brand border border-DEFAULT font-mono placeholder-faint"
+              />
+              <p className="text-xs text-faint mt-2 flex items-center gap-1">
+                <span className="text-th-info">ℹ️</span>
+                minute hour day-of-month month day-of-week, in {editingSchedule ? "the schedule's" : 'your'} timezone{formTimezone ? ` (${formTimezone})` : ''}
+              </p>
+            </div>
+          ) : (
+            <div>
+              <label className="flex items-center gap-2 text-sm font-semibold text-primary mb-3">
+                <Clock size={16} className="text-th-brand" />
+                Start time
+              </label>
+              <input
+                type="time"
+                value={scheduledTime}
+                onChange={(event) => setScheduledTime(event.target.value)}
+                className="w-full bg-th-surface text-primary px-4 py-2.5 rounded-lg focus:outline-none focus:ring-2 ring-th-brand border border-DEFAULT"
+              />
+              <p className="text-xs text-faint mt-2 flex items-center gap-1">
+                <span className="text-th-info">ℹ️</span>
+                Runs at the selected time in {editingSchedule ? "the schedule's" : 'your'} timezone{formTimezone ? ` (${formTimezone})` : ''}
+              </p>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-3">
+            <label className="text-xs text-secondary space-y-1">
+              <span className="block">Starts (optional)</span>
+              <input
+                type="date"
+                value={startDate}
+                onChange={(event) => setStartDate(event.target.value)}
+                className="w-full bg-th-surface text-primary px-4 py-2.5 rounded-lg focus:outline-none focus:ring-2 ring-th-brand border border-DEFAULT"
+              />
+            </label>
+            <label className="text-xs text-secondary space-y-1">
+              <span className="block">Ends (optional)</span>
+              <input
+                type="date"
+                value={endDate}
+                min={startDate || undefined}
+                onChange={(event) => setEndDate(event.target.value)}
+                className="w-full bg-th-surface text-primary px-4 py-2.5 rounded-lg focus:outline-none focus:ring-2 ring-th-brand border border-DEFAULT"
+              />
+            </label>
+          </div>
+
+          <div>
+            <label className="flex items-center gap-2 text-sm font-semibold text-primary mb-3">
+              <Plus size={16} className="text-th-brand" />
+              When it runs
+            </label>
+            <select
+              value={deliveryMode}
+              onChange={(event) => setDeliveryMode(event.target.value as ScheduledDeliveryMode)}
+              className="w-full bg-th-surface text-primary px-4 py-2.5 rounded-lg focus:outline-none focus:ring-2 ring-th-brand border border-DEFAULT"
+            >
+              {DELIVERY_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+            <p className="text-xs text-faint mt-2">
+              {DELIVERY_OPTIONS.find((option) => option.value === deliveryMode)?.hint}
             </p>
+            <div className="grid grid-cols-2 gap-3 mt-3">
+              <label className="text-xs text-secondary space-y-1">
+                <span className="block">Retries if it fails</span>
+                <input
+                  type="number"
+                  min={0}
+                  max={10}
+                  value={maxRetries}
+                  placeholder="Default"
+                  onChange={(event) => setMaxRetries(event.target.value)}
+                  className="w-full bg-th-surface text-primary px-4 py-2.5 rounded-lg focus:outline-none focus:ring-2 ring-th-brand border border-DEFAULT placeholder-faint"
+                />
+              </label>
+              <label className="text-xs text-secondary space-y-1">
+                <span className="block">First retry after (seconds)</span>
+                <input
+                  type="number"
+                  min={10}
+                  value={retryBackoffSeconds}
+                  placeholder="Default"
+                  onChange={(event) => setRetryBackoffSeconds(event.target.value)}
+                  className="w-full bg-th-surface text-primary px-4 py-2.5 rounded-lg focus:outline-none focus:ring-2 ring-th-brand border border-DEFAULT placeholder-faint"
+                />
+              </label>
+            </div>
+            <p className="text-xs text-faint mt-2">Each further retry waits twice as long.</p>
           </div>
 
           <div className="space-y-2">
@@ -343,6 +746,8 @@ export default function ScheduledPlaybackManager({ sessionId, canManage }: Sched
             </div>
           </div>
 
+          <CollectionImport sessionId={sessionId} onUseTracks={addImportedTracks} />
+
           {selectedTracks.length > 0 && (
             <div className="space-y-2">
               <p className="text-sm font-semibold text-secondary">Selected tracks</p>
@@ -358,13 +763,33 @@ export default function ScheduledPlaybackManager({ sessionId, canManage }: Sched
                       </p>
                       <p className="text-xs text-muted">{track.artists.map((artist) => artist.name).join(', ')}</p>
                     </div>
-                    <button
-                      type="button"
-                      onClick={() => removeTrack(track.id)}
-                      className="text-muted hover:text-th-error transition"
-                    >
-                      <XCircle size={18} />
-                    </button>
+                    <div className="flex items-center gap-1">
+                      <button
+                        type="button"
+                        onClick={() => moveTrack(index, -1)}
+                        disabled={index === 0}
+                        aria-label="Move up"
+                        className="text-muted hover:text-primary disabled:opacity-30 transition"
+                      >
+                        <ChevronUp size={18} />
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => moveTrack(index, 1)}
+                        disabled={index === selectedTracks.length - 1}
+                        aria-label="Move down"
+                        className="text-muted hover:text-primary disabled:opacity-30 transition"
+                      >
+                        <ChevronDown size={18} />
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => removeTrack(track.id)}
+                        className="text-muted hover:text-th-error transition"
+                      >
+                        <XCircle size={18} />
+                      </button>
+                    </div>
                   </li>
                 ))}
               </ul>
@@ -374,10 +799,14 @@ export default function ScheduledPlaybackManager({ sessionId, canManage }: Sched
           <button
             type="button"
             onClick={() => void handleSubmit()}
-            disabled={isSubmitting || selectedTracks.length === 0 || !scheduledTime}
+            disabled={isSubmitting || selectedTracks.length === 0 || !hasTiming}
             className="w-full bg-gradient-to-r from-th-brand to-th-success hover:from-th-brand-hover hover:to-green-600 disabled:from-th-hover disabled:to-th-hover disabled:cursor-not-allowed text-primary font-bold py-3.5 rounded-lg flex items-center justify-center gap-2 transition-all shadow-lg shadow-th-shadow disabled:shadow-none transform hover:scale-[1.02] active:scale-[0.98]">
             {isSubmitting ? <Loader2 className="animate-spin" size={20} /> : <Clock size={20} />}
-            <span>{isSubmitting ? 'Scheduling…' : '📅 Schedule Tracks'}</span>
+            <span>
+              {editingSchedule
+                ? (isSubmitting ? 'Saving…' : 'Save Changes')
+                : (isSubmitting ? 'Scheduling…' : '📅 Schedule Tracks')}
+            </span>
           </button>
         </div>
       )}
@@ -393,33 +822,65 @@ export default function ScheduledPlaybackManager({ sessionId, canManage }: Sched
             {upcoming.map((schedule) => (
               <li
                 key={schedule.id}
-                className="bg-th-elevated/40 border border-th-elevated/30 rounded-lg px-4 py-3 flex flex-col gap-2 md:flex-row md:items-center md:justify-between"
+                className="bg-th-elevated/40 border border-th-elevated/30 rounded-lg px-4 py-3 space-y-3"
               >
-                <div>
-                  <p className="text-primary font-semibold">
-                    Daily at {formatDailyTime(schedule)}
-                  </p>
-                  <p className="text-xs text-secondary">Next run: {formatNextRun(schedule.scheduledFor)}</p>
-                  <p className="text-xs text-muted">{renderTrackSummary(schedule)}</p>
-                  {schedule.failureReason && (
-                    <p className="text-xs text-red-300">{schedule.failureReason}</p>
-                  )}
-                  {describeLastRun(schedule) && (
-                    <p className="text-xs text-faint">{describeLastRun(schedule)}</p>
-                  )}
-                  {schedule.status === 'PROCESSING' && (
-                    <p className="text-xs text-th-brand">Currently running…</p>
-                  )}
+                <div className="flex flex-col gap-2 md:flex-row md:items-center md:justify-between">
+                  <div>
+                    <p className="text-primary font-semibold">
+                      {describeRecurrence(schedule)}
+                    </p>
+                    <p className="text-xs text-secondary">
+                      Next run: {formatNextRun(schedule.scheduledFor)}
+                      {schedule.deliveryMode && schedule.deliveryMode !== 'APPEND' && (
+                        <> · {DELIVERY_OPTIONS.find((option) => option.value === schedule.deliveryMode)?.label}</>
+                      )}
+                    </p>
+                    {schedule.retryAttempt > 0 && schedule.status === 'PENDING' && (
+                      <p className="text-xs text-yellow-300">
+                        Retry {schedule.retryAttempt} of {schedule.maxRetries} after a failed run
+                      </p>
+                    )}
+                    {describeDateRange(schedule) && (
+                      <p className="text-xs text-faint">{describeDateRange(schedule)}</p>
+                    )}
+                    <p className="text-xs text-muted">{renderTrackSummary(schedule)}</p>
+                    {schedule.failureReason && (
+                      <p className="text-xs text-red-300">{schedule.failureReason}</p>
+                    )}
+                    {describeLastRun(schedule) && (
+                      <p className="text-xs text-faint">{describeLastRun(schedule)}</p>
+                    )}
+                    {schedule.status === 'PROCESSING' && (
+                      <p className="text-xs text-th-brand">Currently running…</p>
+                    )}
+                  </div>
+                  <div className="flex flex-wrap items-center gap-2">
+                    {renderRunsToggle(schedule)}
+                    {canManage && schedule.status === 'PENDING' && schedule.lastRunStatus === 'FAILED' && renderRerunButton(schedule)}
+                    {canManage && schedule.status === 'PENDING' && (
+                      <>
+                        <button
+                          type="button"
+                          onClick={() => startEditing(schedule)}
+                          className="inline-flex items-center gap-2 bg-th-brand/10 hover:bg-th-brand/20 text-th-brand px-3 py-2 rounded-lg"
+                        >
+                          <Pencil size={16} />
+                          <span>Edit</span>
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => void handleCancel(schedule)}
+                          className="inline-flex items-center gap-2 bg-red-500/10 hover:bg-red-500/20 text-red-300 px-3 py-2 rounded-lg"
+                        >
+                          <XCircle size={16} />
+                          <span>Cancel</span>
+                        </button>
+                      </>
+                    )}
+                  </div>
                 </div>
-                {canManage && schedule.status === 'PENDING' && (
-                  <button
-                    type="button"
-                    onClick={() => void handleCancel(schedule)}
-                    className="inline-flex items-center gap-2 bg-red-500/10 hover:bg-red-500/20 text-red-300 px-3 py-2 rounded-lg"
-                  >
-                    <XCircle size={16} />
-                    <span>Cancel</span>
-                  </button>
+                {expandedRunsId === schedule.id && (
+                  <ScheduledPlaybackRuns sessionId={sessionId} scheduleId={schedule.id} />
                 )}
               </li>
             ))}
@@ -427,6 +888,42 @@ export default function ScheduledPlaybackManager({ sessionId, canManage }: Sched
         )}
       </div>
 
+      {history.length > 0 && (
+        <div className="space-y-3">
+          <h4 className="text-lg font-semibold text-primary">Finished</h4>
+          <ul className="space-y-2">
+            {history.map((schedule) => (
+              <li
+                key={schedule.id}
+                className="bg-th-elevated/30 border border-th-elevated/20 rounded-lg px-4 py-3 space-y-3"
+              >
+                <div className="flex flex-col gap-2 md:flex-row md:items-center md:justify-between">
+                  <div>
+                    <p className="text-secondary font-semibold">
+                      {renderTrackSummary(schedule)}
+                    </p>
+                    <p className={`text-xs ${schedule.status === 'FAILED' ? 'text-red-300' : 'text-muted'}`}>
+                      {schedule.status === 'COMPLETED' ? 'Completed' : schedule.status === 'FAILED' ? 'Failed' : 'Cancelled'}
+                      {schedule.lastRunAt ? ` · ${formatNextRun(schedule.lastRunAt)}` : ''}
+                    </p>
+                    {schedule.status === 'FAILED' && schedule.failureReason && (
+                      <p className="text-xs text-red-300">{schedule.failureReason}</p>
+                    )}
+                  </div>
+                  <div className="flex flex-wrap items-center gap-2">
+                    {renderRunsToggle(schedule)}
+                    {canManage && schedule.status === 'FAILED' && renderRerunButton(schedule)}
+                  </div>
+                </div>
+                {expandedRunsId === schedule.id && (
+                  <ScheduledPlaybackRuns sessionId={sessionId} scheduleId={schedule.id} />
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       </div>
     </div>
   );
@@ -0,0 +1,74 @@
+import { Loader2 } from 'lucide-react';
+import { useApiSWR } from '../hooks/useApiSWR';
+import type { ScheduledPlaybackRun, ScheduledRunOutcome } from '../types';
+
+type ScheduledPlaybackRunsProps = {
+  sessionId: string;
+  scheduleId: string;
+};
+
+const OUTCOME_STYLES: Record<ScheduledRunOutcome, { label: string; className: string }> = {
+  SUCCEEDED: { label: 'Succeeded', className: 'text-th-brand' },
+  PARTIAL: { label: 'Partly queued', className: 'text-yellow-300' },
+  FAILED: { label: 'Failed', className: 'text-red-300' },
+};
+
+const formatWhen = (iso: string) => new Date(iso).toLocaleString([], {
+  dateStyle: 'medium',
+  timeStyle: 'short',
+});
+
+export default function ScheduledPlaybackRuns({ sessionId, scheduleId }: ScheduledPlaybackRunsProps) {
+  const { data, error, isLoading } = useApiSWR<{ runs: ScheduledPlaybackRun[] }>(
+    `/sessions/${sessionId}/scheduled-playback/${scheduleId}/runs`,
+    { refreshInterval: 30000 }
+  );
+
+  if (isLoading && !data) {
+    return (
+      <div className="flex items-center gap-2 text-xs text-muted">
+        <Loader2 className="animate-spin" size={14} />
+        <span>Loading run history…</span>
+      </div>
+    );
+  }
+
+  if (error) {
+    return <p className="text-xs text-red-300">Failed to load run history.</p>;
+  }
+
+  const runs = data?.runs ?? [];
+
+  if (runs.length === 0) {
+    return <p className="text-xs text-muted">This set hasn't run yet.</p>;
+  }
+
+  return (
+    <ul className="space-y-2">
+      {runs.map((run) => (
+        <li key={run.id} className="bg-th-surface/60 border border-th-elevated/30 rounded-lg px-3 py-2 text-xs space-y-1">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <span className={`font-semibold ${OUTCOME_STYLES[run.outcome].className}`}>
+              {OUTCOME_STYLES[run.outcome].label}
+              {run.attempt > 1 && <span className="font-normal text-muted"> · attempt {run.attempt}</span>}
+              {run.manual && <span className="font-normal text-muted"> · manual re-run</span>}
+            </span>
+            <span className="text-faint">{formatWhen(run.startedAt)}</span>
+          </div>
+          {run.error && <p className="text-red-300">{run.error}</p>}
+          {run.retryAt && <p className="text-secondary">Retrying at {formatWhen(run.retryAt)}</p>}
+          {run.trackResults.length > 0 && (
+            <ul className="text-muted">
+              {run.trackResults.map((result) => (
+                <li key={result.spotifyTrackId} className="truncate">
+                  {result.trackName} — {result.status}
+                  {result.reason ? `: ${result.reason}` : ''}
+                </li>
+              ))}
+            </ul>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
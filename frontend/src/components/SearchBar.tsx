@@ -4,23 +4,39 @@ import useSWRInfinite from 'swr/infinite';
 import type { Fetcher } from 'swr';
 import { AxiosError } from 'axios';
 import { spotifyApi, queueApi } from '../services/api';
-import type { CreditState, SpotifyTrack } from '../types';
+import type { CreditState, GuestQueueQuota, SpotifyTrack } from '../types';
 
 interface SearchBarProps {
   sessionId: string;
   allowExplicit: boolean;
-  onTrackAdded: (result?: { credits?: CreditState }) => void;
+  onTrackAdded: (result?: { credits?: CreditState; quota?: GuestQueueQuota }) => void;
   canSearch: boolean;
   onRequireAccess: () => void;
   onSessionError?: (error: string) => void;
+  /** Shown as a 🎉 action on each result when celebrations are enabled */
+  onSetAnthem?: (track: SpotifyTrack) => void;
 }
 
 const PAGE_SIZE = 50;
 
+type ReplayCooldown = {
+  reason: 'track' | 'artist';
+  availableAt: string;
+};
+
+const formatCooldownWait = (availableAt: string) => {
+  const minutes = Math.max(1, Math.ceil((new Date(availableAt).getTime() - Date.now()) / 60000));
+  const hours = Math.floor(minutes / 60);
+  if (hours === 0) return `${minutes} min`;
+  return minutes % 60 === 0 ? `${hours} h` : `${hours} h ${minutes % 60} min`;
+};
+
 type SearchResponse = {
   tracks: SpotifyTrack[];
   bannedTrackIds?: string[];
   bannedArtistIds?: string[];
+  /** Tracks that played recently, keyed by track ID */
+  cooldowns?: Record<string, ReplayCooldown>;
   meta?: {
     total: number;
     offset: number;
@@ -31,7 +47,7 @@ type SearchResponse = {
   };
 };
 
-export default function SearchBar({ sessionId, allowExplicit, onTrackAdded, canSearch, onRequireAccess, onSessionError }: SearchBarProps) {
+export default function SearchBar({ sessionId, allowExplicit, onTrackAdded, canSearch, onRequireAccess, onSessionError, onSetAnthem }: SearchBarProps) {
   const [query, setQuery] = useState('');
   const [debouncedQuery, setDebouncedQuery] = useState('');
   const [showResults, setShowResults] = useState(false);
@@ -91,6 +107,7 @@ export default function SearchBar({ sessionId, allowExplicit, onTrackAdded, canS
       tracks: trackList,
       bannedTrackIds: payload?.bannedTrackIds ?? [],
       bannedArtistIds: payload?.bannedArtistIds ?? [],
+      cooldowns: payload?.cooldowns ?? {},
       meta,
     };
   };
@@ -175,6 +192,14 @@ export default function SearchBar({ sessionId, allowExplicit, onTrackAdded, canS
     return set;
   }, [searchPages]);
 
+  const cooldowns = useMemo(() => {
+    const map = new Map<string, ReplayCooldown>();
+    (searchPages ?? []).forEach((page) => {
+      Object.entries(page?.cooldowns ?? {}).forEach(([id, cooldown]) => map.set(id, cooldown));
+    });
+    return map;
+  }, [searchPages]);
+
   const aggregatedTracks = useMemo(() => {
     const seen = new Set<string>();
     const merged: SpotifyTrack[] = [];
@@ -254,7 +279,8 @@ export default function SearchBar({ sessionId, allowExplicit, onTrackAdded, canS
     try {
       const response = await queueApi.add(sessionId, trackId);
       const credits = response?.data?.credits as CreditState | undefined;
-      onTrackAdded(credits ? { credits } : undefined);
+      const quota = response?.data?.quota as GuestQueueQuota | undefined;
+      onTrackAdded(credits || quota ? { credits, quota } : undefined);
       setShowResults(false);
       setQuery('');
       setDebouncedQuery('');
@@ -323,12 +349,15 @@ export default function SearchBar({ sessionId, allowExplicit, onTrackAdded, canS
                 const isExplicit = Boolean(track.explicit);
                 const isBanned = bannedTrackIds.has(track.id);
                 const isArtistBanned = track.artists.some((artist) => bannedArtistIds.has(artist.id));
+                const cooldown = cooldowns.get(track.id);
                 const disabledReason = isBanned
                   ? 'This track has been banned by the host'
                   : isArtistBanned
                   ? 'An artist on this track has been banned by the host'
                   : (!allowExplicit && isExplicit)
                   ? 'Explicit tracks are disabled for this session'
+                  : cooldown
+                  ? `${cooldown.reason === 'track' ? 'This track' : 'This artist'} played recently — available again in ${formatCooldownWait(cooldown.availableAt)}`
                   : null;
                 const disabled = Boolean(disabledReason);
                 const coverImage = track.album?.images?.[2]?.url ?? track.album?.images?.[0]?.url;
@@ -382,12 +411,32 @@ export default function SearchBar({ sessionId, allowExplicit, onTrackAdded, canS
                             Artist banned
                           </span>
                         )}
+                        {cooldown && !isBanned && !isArtistBanned && (
+                          <span className="px-2 py-0.5 rounded text-xs font-semibold bg-th-toggle text-secondary">
+                            Played recently
+                          </span>
+                        )}
                       </div>
                       <p className="text-muted text-sm truncate">
                         {track.artists.map((a) => a.name).join(', ')}
                       </p>
                     </div>
                     <span className="text-muted text-sm">{formatDuration(track.duration_ms)}</span>
+                    {onSetAnthem && (
+                      <button
+                        type="button"
+                        className="p-2 text-lg transition hover:scale-110"
+                        onClick={(event) => {
+                          event.stopPropagation();
+                          onSetAnthem(track);
+                          setShowResults(false);
+                        }}
+                        aria-label="Set as my celebration anthem"
+                        title="Set as my celebration anthem"
+                      >
+                        🎉
+                      </button>
+                    )}
                     <button
                       type="button"
                       className={`p-2 transition ${disabled ? 'text-faint cursor-not-allowed' : 'text-th-brand hover:text-th-brand-hover'}`}
@@ -1,22 +1,39 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { useParams, useNavigate, useLocation } from 'react-router-dom';
-import { ArrowLeft, Copy, Check, Share2, Settings } from 'lucide-react';
-import { guestApi, sessionApi, spotifyApi } from '../services/api';
+import { ArrowLeft, Copy, Check, Share2, Settings, Shuffle, Users, X } from 'lucide-react';
+import { anthemApi, guestApi, queueApi, sessionApi, spotifyApi } from '../services/api';
 import { socketService } from '../services/socket';
-import type { Session, SessionParticipant, QueueState, PlaybackState, PlaybackRequester, SkipState, CreditState } from '../types';
+import type { Session, SessionParticipant, QueueState, PlaybackState, PlaybackRequester, SkipState, CreditState, GuestQueueQuota, QueueOrderingMode, SkipThresholdMode, CelebrationEvent, SpotifyTrack, UserAnthem, PresenceEntry, GuestRestriction } from '../types';
 import QueueList from '../components/QueueList';
 import SearchBar from '../components/SearchBar';
 import NowPlaying from '../components/NowPlaying';
 import NextUp from '../components/NextUp';
 import Leaderboard from '../components/Leaderboard';
+import EarnedCredits from '../components/EarnedCredits';
+import CreditHistory from '../components/CreditHistory';
+import AnthemCard from '../components/AnthemCard';
+import PresenceRoster from '../components/PresenceRoster';
 import ScheduledPlaybackManager from '../components/ScheduledPlaybackManager';
 import BannedTracksManager from '../components/BannedTracksManager';
+import CollectionImport from '../components/CollectionImport';
+import FallbackManager from '../components/FallbackManager';
+import GuestModeration from '../components/GuestModeration';
 import { useApiSWR } from '../hooks/useApiSWR';
 import { useLogto } from '@logto/react';
 import { useIframeAuth, isEmbedded } from '../context/IframeAuthContext';
 
 const GUEST_TRACK_COST = 10;
 const SKIP_VOTE_COST = 5;
+const MAX_VOTE_WEIGHT = 10;
+
+function parseVoteWeightRows(value: string | undefined) {
+  try {
+    const parsed = JSON.parse(value ?? '{}');
+    return Object.entries(parsed as Record<string, number>).map(([role, weight]) => ({ role, weight: weight as number | '' }));
+  } catch {
+    return [];
+  }
+}
 
 export default function SessionPage() {
   const { sessionId } = useParams<{ sessionId: string }>();
@@ -30,11 +47,32 @@ export default function SessionPage() {
   const [autoJoinMessage, setAutoJoinMessage] = useState<string | null>(null);
   const signInPromptedRef = useRef(false);
   const [guestCredits, setGuestCredits] = useState<CreditState | null>(null);
+  const [guestQuota, setGuestQuota] = useState<GuestQueueQuota | null>(null);
   const [showScheduled, setShowScheduled] = useState(true);
   const [showSettings, setShowSettings] = useState(false);
   const [showBanned, setShowBanned] = useState(true);
+  const [showFallback, setShowFallback] = useState(false);
+  const [showGuests, setShowGuests] = useState(false);
+  /** Set once the host kicks or bans this guest, so they aren't quietly joined again */
+  const [exclusion, setExclusion] = useState<{ restriction: GuestRestriction; message: string } | null>(null);
   const [settingsAllowExplicit, setSettingsAllowExplicit] = useState(true);
   const [settingsMaxSongDuration, setSettingsMaxSongDuration] = useState<number | ''>('');
+  const [settingsQueueOrderingMode, setSettingsQueueOrderingMode] = useState<QueueOrderingMode>('VOTES');
+  const [settingsCelebrationsEnabled, setSettingsCelebrationsEnabled] = useState(false);
+  const [settingsSkipThresholdMode, setSettingsSkipThresholdMode] = useState<SkipThresholdMode>('ABSOLUTE');
+  const [settingsSkipThresholdValue, setSettingsSkipThresholdValue] = useState<number | ''>(5);
+  const [settingsSkipThresholdMinimum, setSettingsSkipThresholdMinimum] = useState<number | ''>(2);
+  const [settingsTrackCooldown, setSettingsTrackCooldown] = useState<number | ''>(240);
+  const [settingsArtistCooldown, setSettingsArtistCooldown] = useState<number | ''>(0);
+  const [settingsGuestMaxActive, setSettingsGuestMaxActive] = useState<number | ''>('');
+  const [settingsGuestMaxPerHour, setSettingsGuestMaxPerHour] = useState<number | ''>('');
+  const [settingsVoteWeights, setSettingsVoteWeights] = useState<Array<{ role: string; weight: number | '' }>>([]);
+  const [celebration, setCelebration] = useState<CelebrationEvent | null>(null);
+  const [settingsBuryThresholdMode, setSettingsBuryThresholdMode] = useState<SkipThresholdMode>('ABSOLUTE');
+  const [settingsBuryThresholdValue, setSettingsBuryThresholdValue] = useState<number | ''>('');
+  const [settingsBuryRefundRequester, setSettingsBuryRefundRequester] = useState(true);
+  /** Why one of this guest's tracks left the queue early */
+  const [removalNotice, setRemovalNotice] = useState<{ title: string; detail: string } | null>(null);
   const { isAuthenticated: isLogtoAuth, isLoading: isAuthLoading, signIn, getIdTokenClaims } = useLogto();
   const iframeAuth = useIframeAuth();
   const isAuthenticated = isLogtoAuth || iframeAuth.isAuthenticated;
@@ -43,6 +81,7 @@ export default function SessionPage() {
     data: sessionData,
     error: sessionError,
     isLoading: sessionLoading,
+    mutate: mutateSession,
   } = useApiSWR<{ session: Session }>(
     isAuthenticated && sessionId ? `/sessions/${sessionId}` : null,
     { shouldRetryOnError: false }
@@ -90,14 +129,60 @@ export default function SessionPage() {
     if (session) {
       setSettingsAllowExplicit(session.allowExplicit);
       setSettingsMaxSongDuration(session.maxSongDuration ?? '');
+      setSettingsQueueOrderingMode(session.queueOrderingMode ?? 'VOTES');
+      setSettingsCelebrationsEnabled(Boolean(session.celebrationsEnabled));
+      setSettingsSkipThresholdMode(session.skipThresholdMode ?? 'ABSOLUTE');
+      setSettingsSkipThresholdValue(session.skipThresholdValue ?? 5);
+      setSettingsSkipThresholdMinimum(session.skipThresholdMinimum ?? 2);
+      setSettingsTrackCooldown(session.trackCooldownMinutes ?? 240);
+      setSettingsArtistCooldown(session.artistCooldownMinutes ?? 0);
+      setSettingsGuestMaxActive(session.guestMaxActiveItems ?? '');
+      setSettingsGuestMaxPerHour(session.guestMaxItemsPerHour ?? '');
+      setSettingsVoteWeights(parseVoteWeightRows(session.voteWeights));
+      setSettingsBuryThresholdMode(session.buryThresholdMode ?? 'ABSOLUTE');
+      setSettingsBuryThresholdValue(session.buryThresholdValue ?? '');
+      setSettingsBuryRefundRequester(session.buryRefundRequester ?? true);
     }
   }, [session]);
 
+  const canPickAnthem = Boolean(session?.celebrationsEnabled)
+    && (participant?.type === 'host' || participant?.type === 'guest');
+  const { data: anthemData, mutate: mutateAnthem } = useApiSWR<{ anthem: UserAnthem | null }>(
+    canPickAnthem && sessionId ? `/sessions/${sessionId}/anthem` : null
+  );
+
+  // Snapshot on load; `presence_updated` keeps it live afterwards
+  const { data: presenceData, mutate: mutatePresence } = useApiSWR<{ roster: PresenceEntry[] }>(
+    participant?.type === 'host' && sessionId ? `/sessions/${sessionId}/presence` : null
+  );
+
+  // Hide the celebration banner once the moment has passed
+  useEffect(() => {
+    if (!celebration) return;
+    const timer = setTimeout(() => setCelebration(null), 20000);
+    return () => clearTimeout(timer);
+  }, [celebration]);
+
+  useEffect(() => {
+    if (!removalNotice) return;
+    const timer = setTimeout(() => setRemovalNotice(null), 20000);
+    return () => clearTimeout(timer);
+  }, [removalNotice]);
+
+  useEffect(() => {
+    const restriction = participant?.restriction;
+    if (restriction && restriction.state !== 'muted') {
+      setExclusion({ restriction, message: participant?.message ?? 'The host removed you from this session' });
+    }
+  }, [participant]);
+
   useEffect(() => {
     if (participant?.type === 'guest') {
       setGuestCredits(participant.credits ?? null);
+      setGuestQuota(participant.quota ?? null);
     } else {
       setGuestCredits(null);
+      setGuestQuota(null);
     }
   }, [participant]);
 
@@ -118,8 +203,12 @@ export default function SessionPage() {
     } catch (error: any) {
       console.error('Guest join error:', error);
       const message = error?.response?.data?.error || 'Failed to join session. Please try again.';
+      const restriction = error?.response?.data?.restriction as GuestRestriction | undefined;
       
-      if (message.includes('no longer active')) {
+      if (restriction) {
+        setExclusion({ restriction, message });
+        setAutoJoinStatus('idle');
+      } else if (message.includes('no longer active')) {
         setSessionInactiveError(message);
         setAutoJoinStatus('idle');
       } else {
@@ -142,7 +231,7 @@ export default function SessionPage() {
 
     const isInvitedFlow = Boolean(invitedSessionId) && invitedSessionId === sessionId;
 
-    if (!participant || participant.type !== 'none') {
+    if (!participant || participant.type !== 'none' || exclusion) {
       return;
     }
 
@@ -159,7 +248,7 @@ export default function SessionPage() {
     };
 
     void attempt();
-  }, [isAuthenticated, sessionId, participant?.type, autoJoinStatus, executeJoin, invitedSessionId]);
+  }, [isAuthenticated, sessionId, participant?.type, autoJoinStatus, executeJoin, invitedSessionId, exclusion]);
 
   useEffect(() => {
     if (participant && participant.type !== 'none') {
@@ -237,15 +326,61 @@ export default function SessionPage() {
       setPlaybackError(null);
     });
 
+    const celebrationCleanup = socketService.onCelebration((data) => {
+      setCelebration(data);
+    });
+
+    const presenceCleanup = socketService.onPresenceUpdated((data) => {
+      void mutatePresence({ roster: data.roster }, false);
+    });
+
+    // Only the guest who requested the track hears about these; any refund
+    // shows up once the participant record is reloaded
+    const vetoCleanup = socketService.onTrackVetoed((data) => {
+      setRemovalNotice({
+        title: `"${data.trackName}" was vetoed`,
+        detail: `${data.reason ? `Reason: ${data.reason}. ` : ''}Your credits for it have been refunded.`,
+      });
+      void mutateParticipant();
+    });
+
+    const moderatedCleanup = socketService.onGuestModerated((data) => {
+      if (data.restriction && data.restriction.state !== 'muted') {
+        setExclusion({ restriction: data.restriction, message: data.message ?? 'The host removed you from this session' });
+      }
+      void mutateParticipant();
+    });
+
+    const buriedCleanup = socketService.onQueueItemBuried((data) => {
+      setRemovalNotice({
+        title: `"${data.trackName}" was voted out of the queue`,
+        detail: `Its score fell to ${data.voteScore}, past this session's limit of -${data.threshold}.${data.refunded ? ' Your credits for it have been refunded.' : ''}`,
+      });
+      void mutateParticipant();
+    });
+
     socketService.joinSession(sessionId);
 
     return () => {
       queueCleanup?.();
       playbackCleanup?.();
+      celebrationCleanup?.();
+      presenceCleanup?.();
+      vetoCleanup?.();
+      buriedCleanup?.();
+      moderatedCleanup?.();
       socketService.leaveSession(sessionId);
       socketService.disconnect();
     };
-  }, [sessionId, mutateQueue, mutatePlayback, isAuthenticated]);
+  }, [sessionId, mutateQueue, mutatePlayback, mutatePresence, mutateParticipant, isAuthenticated]);
+
+  // The server only admits hosts and joined guests to the room, so retry
+  // once joining the session has made this browser a participant
+  useEffect(() => {
+    if (sessionId && (participant?.type === 'host' || participant?.type === 'guest')) {
+      socketService.joinSession(sessionId);
+    }
+  }, [sessionId, participant?.type]);
 
   const handleCopyCode = () => {
     if (session) {
@@ -276,6 +411,27 @@ export default function SessionPage() {
     try {
       await sessionApi.updateSettings(session.id, {
         allowExplicit: settingsAllowExplicit,
+        queueOrderingMode: settingsQueueOrderingMode,
+        celebrationsEnabled: settingsCelebrationsEnabled,
+        skipThresholdMode: settingsSkipThresholdMode,
+        ...(settingsSkipThresholdValue !== '' && settingsSkipThresholdValue > 0
+          ? { skipThresholdValue: Math.floor(settingsSkipThresholdValue) }
+          : {}),
+        ...(settingsSkipThresholdMinimum !== '' && settingsSkipThresholdMinimum > 0
+          ? { skipThresholdMinimum: Math.floor(settingsSkipThresholdMinimum) }
+          : {}),
+        trackCooldownMinutes: settingsTrackCooldown === '' ? 0 : Math.max(0, Math.floor(settingsTrackCooldown)),
+        artistCooldownMinutes: settingsArtistCooldown === '' ? 0 : Math.max(0, Math.floor(settingsArtistCooldown)),
+        guestMaxActiveItems: settingsGuestMaxActive !== '' && settingsGuestMaxActive > 0 ? Math.floor(settingsGuestMaxActive) : null,
+        guestMaxItemsPerHour: settingsGuestMaxPerHour !== '' && settingsGuestMaxPerHour > 0 ? Math.floor(settingsGuestMaxPerHour) : null,
+        buryThresholdMode: settingsBuryThresholdMode,
+        buryThresholdValue: settingsBuryThresholdValue !== '' && settingsBuryThresholdValue > 0 ? Math.floor(settingsBuryThresholdValue) : null,
+        buryRefundRequester: settingsBuryRefundRequester,
+        voteWeights: Object.fromEntries(
+          settingsVoteWeights
+            .filter((row) => row.role.trim() !== '' && row.weight !== '')
+            .map((row) => [row.role.trim(), Math.floor(Number(row.weight))])
+        ),
         ...(settingsMaxSongDuration !== '' && settingsMaxSongDuration > 0 
           ? { maxSongDuration: Number(settingsMaxSongDuration) } 
           : {}),
@@ -285,13 +441,14 @@ export default function SessionPage() {
       const response = await sessionApi.getById(session.id);
       if (response.data?.session) {
         // Update local state
+        void mutateSession(response.data, false);
         void mutateQueue();
         setShowSettings(false);
         alert('Settings updated successfully');
       }
     } catch (error) {
       console.error('Failed to update settings:', error);
-      alert('Failed to update settings');
+      alert((error as any)?.response?.data?.error || 'Failed to update settings');
     }
   };
 
@@ -308,6 +465,20 @@ export default function SessionPage() {
       return;
     }
 
+    if (exclusion) {
+      return;
+    }
+
+    // A muted, kicked or banned guest is told why rather than joined again
+    const latest = await mutateParticipant();
+    const restriction = latest?.participant?.restriction;
+    if (restriction) {
+      if (restriction.state === 'muted') {
+        alert(latest?.participant?.message ?? 'The host muted you');
+      }
+      return;
+    }
+
     try {
       await executeJoin();
     } catch {
@@ -466,10 +637,44 @@ export default function SessionPage() {
     void mutateParticipant();
   };
 
-  const handleTrackAdded = (result?: { credits?: CreditState }) => {
+  const handleTrackAdded = (result?: { credits?: CreditState; quota?: GuestQueueQuota }) => {
+    if (result?.quota) {
+      setGuestQuota(result.quota);
+    }
     syncQueueAndCredits(result);
   };
 
+  const handleVoteAwayAutoFill = async () => {
+    const nextUp = queueState.nextUp;
+
+    if (!nextUp) return;
+
+    if (!participant || participant.type === 'none') {
+      void handleRequireAccess();
+      return;
+    }
+
+    try {
+      const response = await queueApi.vote(nextUp.id, -1);
+      syncQueueAndCredits({ credits: response.data?.credits });
+    } catch (error: any) {
+      console.error('Failed to vote away auto-filled track:', error);
+      alert(error?.response?.data?.error || 'Failed to vote');
+    }
+  };
+
+  const handleSetAnthem = async (track: SpotifyTrack) => {
+    if (!sessionId) return;
+
+    try {
+      const response = await anthemApi.set(sessionId, track.id);
+      void mutateAnthem({ anthem: response.data?.anthem ?? null }, false);
+    } catch (error: any) {
+      console.error('Failed to set anthem:', error);
+      alert(error?.response?.data?.error || 'Failed to set anthem');
+    }
+  };
+
   const handleQueueUpdate = (result?: { credits?: CreditState }) => {
     syncQueueAndCredits(result);
   };
@@ -497,7 +702,8 @@ export default function SessionPage() {
     })}`;
   };
 
-  const hasInsufficientCredits = guestCredits !== null && guestCredits.currentCredits < GUEST_TRACK_COST;
+  const hasInsufficientCredits = guestCredits !== null
+    && guestCredits.currentCredits + (guestCredits.bonusCredits ?? 0) < GUEST_TRACK_COST;
 
   const updatePlayback = (updater: (current: PlaybackState | null) => PlaybackState | null) => {
     void mutatePlayback((previous: { playback: PlaybackState | null; requester: PlaybackRequester | null; skip: SkipState | null } | undefined) => {
@@ -574,6 +780,42 @@ export default function SessionPage() {
             {autoJoinMessage}
           </div>
         )}
+        {exclusion && (
+          <div className="mb-6 bg-red-900/40 border border-red-500/60 text-red-100 px-4 py-3 rounded-lg">
+            <h3 className="font-semibold mb-1">
+              {exclusion.restriction.state === 'banned' ? 'You are banned' : 'You were removed from this session'}
+            </h3>
+            <p className="text-sm">
+              {exclusion.message}
+              {exclusion.restriction.state === 'banned' && exclusion.restriction.reason ? ` (${exclusion.restriction.reason})` : ''}
+            </p>
+            <div className="mt-3 flex gap-2">
+              {exclusion.restriction.state === 'kicked' && (
+                <button
+                  onClick={() => {
+                    setExclusion(null);
+                    void executeJoin().catch(() => undefined);
+                  }}
+                  className="bg-red-600 hover:bg-red-500 text-white px-4 py-2 rounded-lg text-sm font-medium transition"
+                >
+                  Join again
+                </button>
+              )}
+              <button
+                onClick={() => navigate('/dashboard')}
+                className="bg-th-elevated hover:bg-th-elevated/80 text-primary px-4 py-2 rounded-lg text-sm font-medium transition"
+              >
+                Go to Dashboard
+              </button>
+            </div>
+          </div>
+        )}
+        {participant?.type === 'guest' && participant.restriction?.state === 'muted' && (
+          <div className="mb-6 bg-yellow-900/40 border border-yellow-500/60 text-yellow-100 px-4 py-3 rounded-lg text-sm">
+            The host muted you until {new Date(participant.restriction.until).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}.
+            You can keep listening, but adding, voting and skipping are paused.
+          </div>
+        )}
         {sessionInactiveError && (
           <div className="mb-6 bg-yellow-900/40 border border-yellow-500/60 text-yellow-100 px-4 py-3 rounded-lg">
             <div className="flex items-start gap-3">
@@ -674,6 +916,121 @@ export default function SessionPage() {
                         </div>
                       </label>
 
+                      <label className="flex items-center justify-between bg-th-elevated/50 px-5 py-4 rounded-lg border border-subtle hover:border-th-brand/30 transition-colors cursor-pointer group">
+                        <div className="flex-1">
+                          <div className="flex items-center gap-2 mb-1">
+                            <span className="text-xl">🎉</span>
+                            <p className="text-primary font-semibold">Celebration anthems</p>
+                          </div>
+                          <p className="text-muted text-xs">Closing a deal jumps the rep&apos;s walk-up song to the front of the queue</p>
+                        </div>
+                        <div className="relative">
+                          <input
+                            type="checkbox"
+                            checked={settingsCelebrationsEnabled}
+                            onChange={(e) => setSettingsCelebrationsEnabled(e.target.checked)}
+                            className="sr-only peer"
+                          />
+                          <div className="w-11 h-6 bg-th-toggle peer-focus:ring-2 peer-focus:ring-th-brand rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-th-brand"></div>
+                        </div>
+                      </label>
+
+                      <label className="bg-th-elevated/50 px-5 py-4 rounded-lg border border-subtle hover:border-th-brand/30 transition-colors block group">
+                        <div className="flex items-center gap-2 mb-3">
+                          <span className="text-xl">🔀</span>
+                          <div>
+                            <p className="text-primary font-semibold">Queue order</p>
+                            <p className="text-muted text-xs">Fair share takes turns between requesters; votes only reorder each person&apos;s own picks</p>
+                          </div>
+                        </div>
+                        <select
+                          value={settingsQueueOrderingMode}
+                          onChange={(e) => setSettingsQueueOrderingMode(e.target.value as QueueOrderingMode)}
+                          className="w-full bg-th-surface text-primary px-4 py-2.5 rounded-lg focus:outline-none focus:ring-2 ring-th-brand border border-DEFAULT"
+                        >
+                          <option value="VOTES">Most votes first</option>
+                          <option value="ROUND_ROBIN">Fair share (round-robin)</option>
+                        </select>
+                      </label>
+
+                      <div className="bg-th-elevated/50 px-5 py-4 rounded-lg border border-subtle hover:border-th-brand/30 transition-colors group">
+                        <div className="flex items-center gap-2 mb-3">
+                          <span className="text-xl">⏭️</span>
+                          <div>
+                            <p className="text-primary font-semibold">Skip votes</p>
+                            <p className="text-muted text-xs">A percentage follows how many guests are listening right now</p>
+                          </div>
+                        </div>
+                        <div className="flex items-center gap-3">
+                          <select
+                            value={settingsSkipThresholdMode}
+                            onChange={(e) => setSettingsSkipThresholdMode(e.target.value as SkipThresholdMode)}
+                            className="flex-1 bg-th-surface text-primary px-4 py-2.5 rounded-lg focus:outline-none focus:ring-2 ring-th-brand border border-DEFAULT"
+                          >
+                            <option value="ABSOLUTE">Fixed number of votes</option>
+                            <option value="PERCENTAGE">Percent of listeners</option>
+                          </select>
+                          <input
+                            type="number"
+                            min="1"
+                            max={settingsSkipThresholdMode === 'PERCENTAGE' ? 100 : undefined}
+                            value={settingsSkipThresholdValue}
+                            onChange={(e) => setSettingsSkipThresholdValue(e.target.value === '' ? '' : Number(e.target.value))}
+                            className="w-20 bg-th-surface text-primary px-3 py-2.5 rounded-lg focus:outline-none focus:ring-2 ring-th-brand border border-DEFAULT"
+                          />
+                          <span className="text-muted text-sm font-medium">{settingsSkipThresholdMode === 'PERCENTAGE' ? '%' : 'votes'}</span>
+                        </div>
+                        <label className="flex items-center justify-between gap-3 mt-3">
+                          <span className="text-muted text-xs">Never fewer than</span>
+                          <input
+                            type="number"
+                            min="1"
+                            value={settingsSkipThresholdMinimum}
+                            onChange={(e) => setSettingsSkipThresholdMinimum(e.target.value === '' ? '' : Number(e.target.value))}
+                            className="w-20 bg-th-surface text-primary px-3 py-2 rounded-lg focus:outline-none focus:ring-2 ring-th-brand border border-DEFAULT"
+                          />
+                        </label>
+                      </div>
+
+                      <div className="bg-th-elevated/50 px-5 py-4 rounded-lg border border-subtle hover:border-th-brand/30 transition-colors group">
+                        <div className="flex items-center gap-2 mb-3">
+                          <span className="text-xl">🪦</span>
+                          <div>
+                            <p className="text-primary font-semibold">Bury downvoted tracks</p>
+                            <p className="text-muted text-xs">Remove a track once its net downvotes reach this. Leave empty to let downvoted tracks sink instead.</p>
+                          </div>
+                        </div>
+                        <div className="flex items-center gap-3">
+                          <select
+                            value={settingsBuryThresholdMode}
+                            onChange={(e) => setSettingsBuryThresholdMode(e.target.value as SkipThresholdMode)}
+                            className="flex-1 bg-th-surface text-primary px-4 py-2.5 rounded-lg focus:outline-none focus:ring-2 ring-th-brand border border-DEFAULT"
+                          >
+                            <option value="ABSOLUTE">Fixed net downvotes</option>
+                            <option value="PERCENTAGE">Percent of listeners</option>
+                          </select>
+                          <input
+                            type="number"
+                            min="1"
+                            max={settingsBuryThresholdMode === 'PERCENTAGE' ? 100 : undefined}
+                            placeholder="Off"
+                            value={settingsBuryThresholdValue}
+                            onChange={(e) => setSettingsBuryThresholdValue(e.target.value === '' ? '' : Number(e.target.value))}
+                            className="w-20 bg-th-surface text-primary px-3 py-2.5 rounded-lg focus:outline-none focus:ring-2 ring-th-brand border border-DEFAULT placeholder-faint"
+                          />
+                          <span className="text-muted text-sm font-medium">{settingsBuryThresholdMode === 'PERCENTAGE' ? '%' : 'votes'}</span>
+                        </div>
+                        <label className="flex items-center justify-between gap-3 mt-3">
+                          <span className="text-muted text-xs">Refund the requester</span>
+                          <input
+                            type="checkbox"
+                            checked={settingsBuryRefundRequester}
+                            onChange={(e) => setSettingsBuryRefundRequester(e.target.checked)}
+                            className="h-5 w-5 accent-th-brand"
+                          />
+                        </label>
+                      </div>
+
                       <label className="bg-th-elevated/50 px-5 py-4 rounded-lg border border-subtle hover:border-th-brand/30 transition-colors block group">
                         <div className="flex items-center gap-2 mb-3">
                           <span className="text-xl">⏱️</span>
@@ -701,6 +1058,118 @@ export default function SessionPage() {
                         </div>
                       </label>
 
+                      <div className="bg-th-elevated/50 px-5 py-4 rounded-lg border border-subtle hover:border-th-brand/30 transition-colors">
+                        <div className="flex items-center gap-2 mb-3">
+                          <span className="text-xl">🔁</span>
+                          <div>
+                            <p className="text-primary font-semibold">Replay cooldown</p>
+                            <p className="text-muted text-xs">How long after playing before a track or artist can be requested again (0 = off)</p>
+                          </div>
+                        </div>
+                        <label className="flex items-center justify-between gap-3">
+                          <span className="text-muted text-xs">Same track</span>
+                          <div className="flex items-center gap-2">
+                            <input
+                              type="number"
+                              min="0"
+                              value={settingsTrackCooldown}
+                              onChange={(e) => setSettingsTrackCooldown(e.target.value === '' ? '' : Number(e.target.value))}
+                              className="w-24 bg-th-surface text-primary px-3 py-2 rounded-lg focus:outline-none focus:ring-2 ring-th-brand border border-DEFAULT"
+                            />
+                            <span className="text-muted text-sm font-medium">min</span>
+                          </div>
+                        </label>
+                        <label className="flex items-center justify-between gap-3 mt-3">
+                          <span className="text-muted text-xs">Same artist</span>
+                          <div className="flex items-center gap-2">
+                            <input
+                              type="number"
+                              min="0"
+                              value={settingsArtistCooldown}
+                              onChange={(e) => setSettingsArtistCooldown(e.target.value === '' ? '' : Number(e.target.value))}
+                              className="w-24 bg-th-surface text-primary px-3 py-2 rounded-lg focus:outline-none focus:ring-2 ring-th-brand border border-DEFAULT"
+                            />
+                            <span className="text-muted text-sm font-medium">min</span>
+                          </div>
+                        </label>
+                      </div>
+
+                      <div className="bg-th-elevated/50 px-5 py-4 rounded-lg border border-subtle hover:border-th-brand/30 transition-colors">
+                        <div className="flex items-center gap-2 mb-3">
+                          <span className="text-xl">🎟️</span>
+                          <div>
+                            <p className="text-primary font-semibold">Guest limits</p>
+                            <p className="text-muted text-xs">You and managers are never limited. Leave empty for no limit.</p>
+                          </div>
+                        </div>
+                        <label className="flex items-center justify-between gap-3">
+                          <span className="text-muted text-xs">Tracks waiting at once</span>
+                          <input
+                            type="number"
+                            min="1"
+                            placeholder="No limit"
+                            value={settingsGuestMaxActive}
+                            onChange={(e) => setSettingsGuestMaxActive(e.target.value === '' ? '' : Number(e.target.value))}
+                            className="w-24 bg-th-surface text-primary px-3 py-2 rounded-lg focus:outline-none focus:ring-2 ring-th-brand border border-DEFAULT placeholder-faint"
+                          />
+                        </label>
+                        <label className="flex items-center justify-between gap-3 mt-3">
+                          <span className="text-muted text-xs">Tracks per hour</span>
+                          <input
+                            type="number"
+                            min="1"
+                            placeholder="No limit"
+                            value={settingsGuestMaxPerHour}
+                            onChange={(e) => setSettingsGuestMaxPerHour(e.target.value === '' ? '' : Number(e.target.value))}
+                            className="w-24 bg-th-surface text-primary px-3 py-2 rounded-lg focus:outline-none focus:ring-2 ring-th-brand border border-DEFAULT placeholder-faint"
+                          />
+                        </label>
+                      </div>
+
+                      <div className="bg-th-elevated/50 px-5 py-4 rounded-lg border border-subtle hover:border-th-brand/30 transition-colors">
+                        <div className="flex items-center gap-2 mb-3">
+                          <span className="text-xl">⚖️</span>
+                          <div>
+                            <p className="text-primary font-semibold">Vote weights</p>
+                            <p className="text-muted text-xs">Votes from these sign-in roles count more (1–{MAX_VOTE_WEIGHT}). Everyone else counts once.</p>
+                          </div>
+                        </div>
+                        {settingsVoteWeights.map((row, index) => (
+                          <div key={index} className="flex items-center gap-2 mt-2">
+                            <input
+                              type="text"
+                              placeholder="Role name"
+                              value={row.role}
+                              onChange={(e) => setSettingsVoteWeights((rows) => rows.map((r, i) => (i === index ? { ...r, role: e.target.value } : r)))}
+                              className="flex-1 min-w-0 bg-th-surface text-primary px-3 py-2 rounded-lg focus:outline-none focus:ring-2 ring-th-brand border border-DEFAULT placeholder-faint"
+                            />
+                            <input
+                              type="number"
+                              min="1"
+                              max={MAX_VOTE_WEIGHT}
+                              value={row.weight}
+                              onChange={(e) => setSettingsVoteWeights((rows) => rows.map((r, i) => (i === index ? { ...r, weight: e.target.value === '' ? '' : Number(e.target.value) } : r)))}
+                              className="w-20 bg-th-surface text-primary px-3 py-2 rounded-lg focus:outline-none focus:ring-2 ring-th-brand border border-DEFAULT placeholder-faint"
+                            />
+                            <button
+                              type="button"
+                              onClick={() => setSettingsVoteWeights((rows) => rows.filter((_, i) => i !== index))}
+                              className="p-2 text-muted hover:text-th-error"
+                              title="Remove role"
+                            >
+                              <X size={16} />
+                            </button>
+                          </div>
+                        ))}
+                        <button
+                          type="button"
+                          onClick={() => setSettingsVoteWeights((rows) => [...rows, { role: '', weight: 2 }])}
+                          className="mt-3 text-sm text-th-brand hover:underline"
+                        >
+                          + Add role
+                        </button>
+                      </div>
+
                       <button
                         onClick={handleUpdateSettings}
                         className="w-full bg-gradient-to-r from-th-brand to-th-success hover:from-th-brand-hover hover:to-green-600 text-primary font-bold py-3.5 rounded-lg transition-all transform hover:scale-[1.02] active:scale-[0.98] shadow-lg shadow-th-shadow"
@@ -740,12 +1209,77 @@ export default function SessionPage() {
                   </div>
                 )}
               </div>
+
+              <div className="bg-gradient-to-br from-th-from to-th-to rounded-xl shadow-lg border border-subtle overflow-hidden">
+                <button
+                  onClick={() => setShowFallback(!showFallback)}
+                  className="w-full flex items-center justify-between p-5 hover:bg-th-elevated/30 transition-colors"
+                >
+                  <div className="flex items-center gap-3">
+                    <div className="p-2 bg-purple-500/20 rounded-lg">
+                      <Shuffle size={24} className="text-purple-400" />
+                    </div>
+                    <div className="text-left">
+                      <h3 className="text-lg font-bold text-primary">Fallback Auto-fill</h3>
+                      <p className="text-xs text-muted">Keep music playing when the queue is empty</p>
+                    </div>
+                  </div>
+                  <div className={`transform transition-transform duration-200 ${showFallback ? 'rotate-180' : ''}`}>
+                    <svg width="20" height="20" viewBox="0 0 20 20" fill="currentColor" className="text-muted">
+                      <path fillRule="evenodd" d="M5.293 7.293a1 1 0 011.414 0L10 10.586l3.293-3.293a1 1 0 111.414 1.414l-4 4a1 1 0 01-1.414 0l-4-4a1 1 0 010-1.414z" clipRule="evenodd" />
+                    </svg>
+                  </div>
+                </button>
+                {showFallback && (
+                  <div className="px-5 pb-5">
+                    <FallbackManager sessionId={session.id} />
+                  </div>
+                )}
+              </div>
+
+              <div className="bg-gradient-to-br from-th-from to-th-to rounded-xl shadow-lg border border-subtle overflow-hidden">
+                <button
+                  onClick={() => setShowGuests(!showGuests)}
+                  className="w-full flex items-center justify-between p-5 hover:bg-th-elevated/30 transition-colors"
+                >
+                  <div className="flex items-center gap-3">
+                    <div className="p-2 bg-orange-500/20 rounded-lg">
+                      <Users size={24} className="text-orange-400" />
+                    </div>
+                    <div className="text-left">
+                      <h3 className="text-lg font-bold text-primary">Guests</h3>
+                      <p className="text-xs text-muted">Mute, remove or ban guests</p>
+                    </div>
+                  </div>
+                  <div className={`transform transition-transform duration-200 ${showGuests ? 'rotate-180' : ''}`}>
+                    <svg width="20" height="20" viewBox="0 0 20 20" fill="currentColor" className="text-muted">
+                      <path fillRule="evenodd" d="M5.293 7.293a1 1 0 011.414 0L10 10.586l3.293-3.293a1 1 0 111.414 1.414l-4 4a1 1 0 01-1.414 0l-4-4a1 1 0 010-1.414z" clipRule="evenodd" />
+                    </svg>
+                  </div>
+                </button>
+                {showGuests && (
+                  <div className="px-5 pb-5">
+                    <GuestModeration sessionId={session.id} />
+                  </div>
+                )}
+              </div>
             </div>
           </div>
         )}
         <div className={`grid ${embedded ? '' : 'lg:grid-cols-3'} gap-6`}>
           {/* Main Queue Section */}
           <div className={`${embedded ? '' : 'lg:col-span-2'} space-y-6`}>
+            {removalNotice && (
+              <div className="bg-th-surface border border-th-error/40 p-4 rounded-lg flex items-start justify-between gap-3">
+                <div>
+                  <p className="text-primary font-semibold">{removalNotice.title}</p>
+                  <p className="text-muted text-sm">{removalNotice.detail}</p>
+                </div>
+                <button onClick={() => setRemovalNotice(null)} className="text-muted hover:text-primary" title="Dismiss">
+                  <X size={18} />
+                </button>
+              </div>
+            )}
             <NowPlaying
               canControl={participant?.type === 'host'}
               sessionId={session.id}
@@ -760,24 +1294,50 @@ export default function SessionPage() {
               guestCredits={guestCredits}
               skipCost={SKIP_VOTE_COST}
               onGuestSkip={participant?.type === 'guest' ? handleGuestSkip : undefined}
+              celebration={celebration}
+            />
+            <NextUp
+              track={queueState.nextUp}
+              orderingMode={session.queueOrderingMode}
+              onVoteAway={() => void handleVoteAwayAutoFill()}
             />
-            <NextUp track={queueState.nextUp} />
             {participant?.type === 'guest' && (
-              <div className="bg-th-surface p-4 rounded-lg flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
-                <div>
-                  <p className="text-primary font-semibold">Your Credits</p>
-                  <p className="text-muted text-xs">Each track costs {GUEST_TRACK_COST} credits · Votes and skips cost {SKIP_VOTE_COST} credits</p>
+              <div className="bg-th-surface p-4 rounded-lg space-y-2">
+                <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+                  <div>
+                    <p className="text-primary font-semibold">Your Credits</p>
+                    <p className="text-muted text-xs">Each track costs {GUEST_TRACK_COST} credits · Votes and skips cost {SKIP_VOTE_COST} credits</p>
+                  </div>
+                  <div className="text-right">
+                    <p className={`${hasInsufficientCredits ? 'text-th-error' : 'text-th-brand'} text-2xl font-bold`}>
+                      {guestCredits ? guestCredits.currentCredits : '—'}
+                      <span className="text-muted text-base"> / {guestCredits ? guestCredits.totalCredits : '—'}</span>
+                    </p>
+                    <p className="text-faint text-xs">{formatRefreshDate(guestCredits?.refreshDate)}</p>
+                    {hasInsufficientCredits && (
+                      <p className="text-th-error text-xs mt-1">You&apos;re out of credits until the next refresh or a host tops you up.</p>
+                    )}
+                  </div>
                 </div>
-                <div className="text-right">
-                  <p className={`${hasInsufficientCredits ? 'text-th-error' : 'text-th-brand'} text-2xl font-bold`}>
-                    {guestCredits ? guestCredits.currentCredits : '—'}
-                    <span className="text-muted text-base"> / {guestCredits ? guestCredits.totalCredits : '—'}</span>
+                {guestQuota && (guestQuota.active.limit !== null || guestQuota.hourly.limit !== null) && (
+                  <p className="text-muted text-xs">
+                    {guestQuota.active.limit !== null && (
+                      <span className={guestQuota.active.used >= guestQuota.active.limit ? 'text-th-error' : undefined}>
+                        {guestQuota.active.used} of {guestQuota.active.limit} queue slots used
+                      </span>
+                    )}
+                    {guestQuota.active.limit !== null && guestQuota.hourly.limit !== null && ' · '}
+                    {guestQuota.hourly.limit !== null && (
+                      <span className={guestQuota.hourly.used >= guestQuota.hourly.limit ? 'text-th-error' : undefined}>
+                        {guestQuota.hourly.used} of {guestQuota.hourly.limit} tracks this hour
+                      </span>
+                    )}
                   </p>
-                  <p className="text-faint text-xs">{formatRefreshDate(guestCredits?.refreshDate)}</p>
-                  {hasInsufficientCredits && (
-                    <p className="text-th-error text-xs mt-1">You&apos;re out of credits until the next refresh or a host tops you up.</p>
-                  )}
-                </div>
+                )}
+                                <EarnedCredits bonusCredits={guestCredits?.bonusCredits} />
+                <CreditHistory
+                  balanceKey={guestCredits ? `${guestCredits.currentCredits}-${guestCredits.bonusCredits ?? 0}` : undefined}
+                />
               </div>
             )}
             <SearchBar
@@ -787,7 +1347,20 @@ export default function SessionPage() {
               canSearch={participant?.type === 'host' || participant?.type === 'guest'}
               onRequireAccess={handleRequireAccess}
               onSessionError={setSessionInactiveError}
+              onSetAnthem={canPickAnthem ? (track) => void handleSetAnthem(track) : undefined}
             />
+            {participant?.type === 'host' && (
+              <div className="bg-th-surface p-4 rounded-lg">
+                <CollectionImport sessionId={session.id} onQueueUpdate={() => syncQueueAndCredits()} />
+              </div>
+            )}
+            {canPickAnthem && (
+              <AnthemCard
+                sessionId={session.id}
+                anthem={anthemData?.anthem ?? null}
+                onChange={(anthem) => void mutateAnthem({ anthem }, false)}
+              />
+            )}
             <QueueList
               nextUp={queueState.nextUp}
               queue={queueState.queue}
@@ -806,9 +1379,11 @@ export default function SessionPage() {
             <Leaderboard
               sessionId={session.id}
               title="Performance Leaderboard"
-              description="Live production stats for everyone in this session. Values refresh automatically when the leaderboard endpoint is wired up."
+              description="Live production stats for everyone in this session."
             />
 
+            {isHost && <PresenceRoster roster={presenceData?.roster ?? []} />}
+
             <div className="bg-th-surface p-6 rounded-lg">
               <h3 className="text-xl font-bold text-primary mb-2">Queue Stats</h3>
               <div className="space-y-2 text-secondary">
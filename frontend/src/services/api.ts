@@ -1,5 +1,12 @@
 import axios from 'axios';
 import { getLogtoAccessToken } from './logtoTokenStore';
+import type {
+  LeaderboardPeriod,
+  QueueOrderingMode,
+  ScheduledDeliveryMode,
+  ScheduleRecurrenceInput,
+  SkipThresholdMode,
+} from '../types';
 
 let apiBaseUrl = import.meta.env.VITE_API_URL || '/api';
 let socketBaseUrl = import.meta.env.VITE_SOCKET_URL || null;
@@ -121,7 +128,23 @@ export const sessionApi = {
   getRecent: () => api.get('/sessions/recent'),
   reopen: (id: string) => api.post(`/sessions/${id}/reopen`),
   delete: (id: string) => api.delete(`/sessions/${id}`),
-  updateSettings: (id: string, payload: { allowExplicit?: boolean; maxSongDuration?: number }) => 
+  updateSettings: (id: string, payload: {
+    allowExplicit?: boolean;
+    maxSongDuration?: number;
+    queueOrderingMode?: QueueOrderingMode;
+    celebrationsEnabled?: boolean;
+    skipThresholdMode?: SkipThresholdMode;
+    skipThresholdValue?: number;
+    skipThresholdMinimum?: number;
+    trackCooldownMinutes?: number;
+    artistCooldownMinutes?: number;
+    guestMaxActiveItems?: number | null;
+    guestMaxItemsPerHour?: number | null;
+    voteWeights?: Record<string, number>;
+    buryThresholdMode?: SkipThresholdMode;
+    buryThresholdValue?: number | null;
+    buryRefundRequester?: boolean;
+  }) =>
     api.post(`/sessions/${id}/settings`, payload),
   adjustGuestCredits: (id: string, payload: {
     userId: string;
@@ -130,15 +153,31 @@ export const sessionApi = {
     newTotal?: number;
     refill?: boolean;
   }) => api.post(`/sessions/${id}/guest-credits`, payload),
+  kickGuest: (id: string, guestId: string) => api.post(`/sessions/${id}/guests/${guestId}/kick`),
+  muteGuest: (id: string, guestId: string, minutes: number) =>
+    api.post(`/sessions/${id}/guests/${guestId}/mute`, { minutes }),
+  unmuteGuest: (id: string, guestId: string) => api.delete(`/sessions/${id}/guests/${guestId}/mute`),
+  banGuest: (id: string, guestId: string, payload: { scope: 'session' | 'host'; reason?: string }) =>
+    api.post(`/sessions/${id}/guests/${guestId}/ban`, payload),
+  liftGuestBan: (id: string, banId: string) => api.delete(`/sessions/${id}/guest-bans/${banId}`),
 };
 
 export const queueApi = {
   add: (sessionId: string, spotifyTrackId: string) =>
     api.post(`/queue/${sessionId}/add`, { spotifyTrackId }),
+  importCollection: (sessionId: string, link: string) =>
+    api.post(`/queue/${sessionId}/import`, { link }),
   get: (sessionId: string) => api.get(`/queue/${sessionId}`),
   remove: (queueItemId: string) => api.delete(`/queue/${queueItemId}`),
   vote: (queueItemId: string, voteType: number) =>
     api.post(`/queue/${queueItemId}/vote`, { voteType }),
+  boost: (queueItemId: string, amount: number) =>
+    api.post(`/queue/${queueItemId}/boost`, { amount }),
+  veto: (queueItemId: string, reason?: string) =>
+    api.post(`/queue/${queueItemId}/veto`, { reason }),
+  move: (queueItemId: string, target: { position: number } | { direction: 'up' | 'down' } | { nextUp: true }) =>
+    api.post(`/queue/${queueItemId}/move`, target),
+  unpin: (queueItemId: string) => api.delete(`/queue/${queueItemId}/pin`),
 };
 
 export const spotifyApi = {
@@ -168,6 +207,8 @@ export const spotifyApi = {
   },
   searchArtists: (sessionId: string, query: string) =>
     api.get(`/spotify/search-artists?q=${encodeURIComponent(query)}&sessionId=${sessionId}`),
+  previewCollection: (sessionId: string, link: string) =>
+    api.get('/spotify/collection', { params: { sessionId, link } }),
   getPlayback: (sessionId: string) => api.get(`/spotify/playback?sessionId=${sessionId}`),
   play: () => api.post('/spotify/play'),
   pause: () => api.post('/spotify/pause'),
@@ -204,6 +245,16 @@ export const bannedTracksApi = {
     api.delete(`/sessions/${sessionId}/banned-track-lists/${listId}/artists/${artistId}`),
 };
 
+export const fallbackApi = {
+  get: (sessionId: string) => api.get(`/sessions/${sessionId}/fallback`),
+  update: (sessionId: string, payload: { enabled?: boolean; playlistLink?: string | null }) =>
+    api.put(`/sessions/${sessionId}/fallback`, payload),
+  addTrack: (sessionId: string, spotifyTrackId: string) =>
+    api.post(`/sessions/${sessionId}/fallback/tracks`, { spotifyTrackId }),
+  removeTrack: (sessionId: string, trackId: string) =>
+    api.delete(`/sessions/${sessionId}/fallback/tracks/${trackId}`),
+};
+
 export const guestApi = {
   joinByCode: (code: string, displayName?: string) =>
     api.post(`/sessions/code/${code}/join`, { displayName }),
@@ -212,8 +263,33 @@ export const guestApi = {
 };
 
 export const leaderboardApi = {
-  getLeaderboard: (sessionId?: string) =>
-    api.get(sessionId ? `/sessions/${sessionId}/leaderboard` : '/stats/leaderboard'),
+  getLeaderboard: (sessionId?: string, period: LeaderboardPeriod = 'day') =>
+    api.get(sessionId ? `/sessions/${sessionId}/leaderboard` : '/stats/leaderboard', { params: { period } }),
+};
+
+export const anthemApi = {
+  get: (sessionId: string) => api.get(`/sessions/${sessionId}/anthem`),
+  set: (sessionId: string, spotifyTrackId: string) =>
+    api.put(`/sessions/${sessionId}/anthem`, { spotifyTrackId }),
+  remove: (sessionId: string) => api.delete(`/sessions/${sessionId}/anthem`),
+};
+
+export const creditsApi = {
+  getMyHistory: (params?: { limit?: number; before?: string }) =>
+    api.get('/credits/me/history', { params }),
+  getUserHistory: (userId: string, params?: { limit?: number; before?: string }) =>
+    api.get(`/credits/users/${encodeURIComponent(userId)}/history`, { params }),
+  getMyGrants: () => api.get('/credits/me/grants'),
+};
+
+type ScheduledPlaybackTrackInput = {
+  spotifyTrackId: string;
+  spotifyUri?: string;
+  trackName: string;
+  trackArtist: string;
+  trackAlbum?: string | null;
+  trackImage?: string | null;
+  trackDuration: number;
 };
 
 export const scheduledPlaybackApi = {
@@ -221,21 +297,33 @@ export const scheduledPlaybackApi = {
   create: (
     sessionId: string,
     payload: {
-      timeOfDay: string;
-      timezoneOffsetMinutes: number;
-      tracks: Array<{
-        spotifyTrackId: string;
-        spotifyUri?: string;
-        trackName: string;
-        trackArtist: string;
-        trackAlbum?: string | null;
-        trackImage?: string | null;
-        trackDuration: number;
-      }>;
+      timeOfDay?: string;
+      timezone?: string;
+      timezoneOffsetMinutes?: number;
+      recurrence?: ScheduleRecurrenceInput;
+      deliveryMode?: ScheduledDeliveryMode;
+      maxRetries?: number;
+      retryBackoffSeconds?: number;
+      tracks: ScheduledPlaybackTrackInput[];
     }
   ) => api.post(`/sessions/${sessionId}/scheduled-playback`, payload),
+  update: (
+    sessionId: string,
+    scheduleId: string,
+    payload: {
+      timeOfDay?: string;
+      timezone?: string;
+      recurrence?: ScheduleRecurrenceInput;
+      deliveryMode?: ScheduledDeliveryMode;
+      maxRetries?: number;
+      retryBackoffSeconds?: number;
+      tracks?: ScheduledPlaybackTrackInput[];
+    }
+  ) => api.patch(`/sessions/${sessionId}/scheduled-playback/${scheduleId}`, payload),
   cancel: (sessionId: string, scheduleId: string) =>
     api.delete(`/sessions/${sessionId}/scheduled-playback/${scheduleId}`),
+  rerun: (sessionId: string, scheduleId: string) =>
+    api.post(`/sessions/${sessionId}/scheduled-playback/${scheduleId}/rerun`),
 };
 
 export default api;
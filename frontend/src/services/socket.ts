@@ -1,9 +1,12 @@
 import { io, Socket } from 'socket.io-client';
-import { QueueState, PlaybackState, PlaybackRequester, SkipState } from '../types';
+import { QueueState, PlaybackState, PlaybackRequester, SkipState, CelebrationEvent, GuestModeratedEvent, PresenceEntry, QueueItemBuriedEvent, TrackVetoedEvent } from '../types';
 import { getSocketUrl } from './api';
+import { getLogtoAccessToken } from './logtoTokenStore';
+import { getIframeToken } from './iframeAuth';
 
 class SocketService {
   private socket: Socket | null = null;
+  private currentSessionId: string | null = null;
 
   connect() {
     if (!this.socket) {
@@ -11,10 +14,24 @@ class SocketService {
       
       this.socket = io(socketUrl, {
         withCredentials: true,
+        // Re-evaluated on every (re)connect so a refreshed token is used
+        auth: (cb) => {
+          void getLogtoAccessToken()
+            .catch(() => null)
+            .then((token) => cb({ token, iframeToken: getIframeToken() }));
+        },
       });
 
       this.socket.on('connect', () => {
         console.log('Connected to socket server');
+        // Room membership doesn't survive a reconnect
+        if (this.currentSessionId) {
+          this.socket?.emit('join_session', this.currentSessionId);
+        }
+      });
+
+      this.socket.on('connect_error', (error) => {
+        console.warn('Socket connection rejected:', error.message);
       });
 
       this.socket.on('disconnect', () => {
@@ -32,10 +49,18 @@ class SocketService {
   }
 
   joinSession(sessionId: string) {
-    this.socket?.emit('join_session', sessionId);
+    this.currentSessionId = sessionId;
+    this.socket?.emit('join_session', sessionId, (result?: { ok: boolean; error?: string }) => {
+      if (result && !result.ok) {
+        console.warn('Not subscribed to session updates:', result.error);
+      }
+    });
   }
 
   leaveSession(sessionId: string) {
+    if (this.currentSessionId === sessionId) {
+      this.currentSessionId = null;
+    }
     this.socket?.emit('leave_session', sessionId);
   }
 
@@ -60,6 +85,41 @@ class SocketService {
     return () => this.socket?.off('now_playing', callback);
   }
 
+  onCelebration(callback: (data: CelebrationEvent) => void) {
+    if (!this.socket) return () => undefined;
+
+    this.socket.on('celebration', callback);
+    return () => this.socket?.off('celebration', callback);
+  }
+
+  onTrackVetoed(callback: (data: TrackVetoedEvent) => void) {
+    if (!this.socket) return () => undefined;
+
+    this.socket.on('track_vetoed', callback);
+    return () => this.socket?.off('track_vetoed', callback);
+  }
+
+  onQueueItemBuried(callback: (data: QueueItemBuriedEvent) => void) {
+    if (!this.socket) return () => undefined;
+
+    this.socket.on('queue_item_buried', callback);
+    return () => this.socket?.off('queue_item_buried', callback);
+  }
+
+  onGuestModerated(callback: (data: GuestModeratedEvent) => void) {
+    if (!this.socket) return () => undefined;
+
+    this.socket.on('guest_moderated', callback);
+    return () => this.socket?.off('guest_moderated', callback);
+  }
+
+  onPresenceUpdated(callback: (data: { sessionId: string; roster: PresenceEntry[] }) => void) {
+    if (!this.socket) return () => undefined;
+
+    this.socket.on('presence_updated', callback);
+    return () => this.socket?.off('presence_updated', callback);
+  }
+
   onUserJoined(callback: (data: { socketId: string; userCount: number }) => void) {
     if (!this.socket) return () => undefined;
 
@@ -6,6 +6,10 @@ export interface User {
   createdAt: string;
 }
 
+export type QueueOrderingMode = 'VOTES' | 'ROUND_ROBIN';
+
+export type SkipThresholdMode = 'ABSOLUTE' | 'PERCENTAGE';
+
 export interface Session {
   id: string;
   code: string;
@@ -14,6 +18,23 @@ export interface Session {
   isActive: boolean;
   allowExplicit: boolean;
   maxSongDuration?: number | null;
+  queueOrderingMode: QueueOrderingMode;
+  celebrationsEnabled?: boolean;
+  skipThresholdMode?: SkipThresholdMode;
+  skipThresholdValue?: number;
+  skipThresholdMinimum?: number;
+  /** Minutes before a played track or artist can be requested again; 0 = off */
+  trackCooldownMinutes?: number;
+  artistCooldownMinutes?: number;
+  /** Per-guest queue limits; null = no limit */
+  guestMaxActiveItems?: number | null;
+  guestMaxItemsPerHour?: number | null;
+  /** JSON object of Logto role name to vote weight */
+  voteWeights?: string;
+  /** Net downvotes that remove a track; a null value means never */
+  buryThresholdMode?: SkipThresholdMode;
+  buryThresholdValue?: number | null;
+  buryRefundRequester?: boolean;
   createdAt: string;
   host: {
     id: string;
@@ -33,7 +54,14 @@ export interface QueueItem {
   addedById?: string | null;
   addedByGuestId?: string | null;
   voteScore: number;
+  /** Credits spent boosting this track; every 10 count as one upvote */
+  boostTotal?: number;
   isNextUp: boolean;
+  isCelebration?: boolean;
+  /** Set when pinned ahead of vote ordering */
+  pinOrder?: number | null;
+  /** Drawn from the session's fallback source because nothing else was queued */
+  isAutoFill?: boolean;
   played: boolean;
   playedAt: string | null;
   createdAt: string;
@@ -59,14 +87,72 @@ export interface Vote {
 export interface CreditState {
   totalCredits: number;
   currentCredits: number;
+  /** Earned from performance rules; not reset by the daily refresh */
+  bonusCredits?: number;
   refreshDate: string;
 }
 
+/** A guest's use of the session's queue limits; a null limit means unlimited */
+export interface GuestQueueQuota {
+  active: { used: number; limit: number | null };
+  hourly: { used: number; limit: number | null };
+}
+
 export interface SessionParticipant {
   type: 'host' | 'guest' | 'none';
   name?: string;
   guestId?: string;
   credits?: CreditState;
+  /** Missing for guests exempt from the limits */
+  quota?: GuestQueueQuota;
+  /** Host or manager: may veto tracks */
+  canModerate?: boolean;
+  /** Set when the host has muted, kicked or banned this browser's guest */
+  restriction?: GuestRestriction;
+  message?: string;
+}
+
+export type GuestRestriction =
+  | { state: 'kicked' }
+  | { state: 'banned'; scope: 'session' | 'host'; reason: string | null }
+  | { state: 'muted'; until: string };
+
+/** Sent only to the guest concerned; a null restriction means they were unmuted */
+export interface GuestModeratedEvent {
+  restriction: GuestRestriction | null;
+  message: string | null;
+}
+
+export interface SessionGuest {
+  id: string;
+  name: string;
+  joinedAt: string;
+  signedIn: boolean;
+  mutedUntil: string | null;
+}
+
+export interface GuestBanSummary {
+  id: string;
+  guestName: string;
+  scope: 'session' | 'host';
+  reason: string | null;
+  createdAt: string;
+}
+
+/** Sent only to the guest whose track was vetoed */
+export interface TrackVetoedEvent {
+  queueItemId: string;
+  trackName: string;
+  reason: string | null;
+}
+
+/** Sent only to the guest whose track was downvoted out of the queue */
+export interface QueueItemBuriedEvent {
+  queueItemId: string;
+  trackName: string;
+  voteScore: number;
+  threshold: number;
+  refunded: boolean;
 }
 
 export interface QueueState {
@@ -87,12 +173,53 @@ export interface SpotifyTrack {
   explicit: boolean;
 }
 
+export interface SpotifyCollectionSummary {
+  kind: 'playlist' | 'album';
+  id: string;
+  name: string;
+  total: number;
+  /** More tracks than one import takes */
+  truncated: boolean;
+}
+
+export interface ImportRejection {
+  track: SpotifyTrack;
+  reason: string;
+}
+
+export interface CollectionPreview {
+  collection: SpotifyCollectionSummary;
+  accepted: SpotifyTrack[];
+  rejected: ImportRejection[];
+}
+
 export interface SpotifyArtist {
   id: string;
   name: string;
   images?: { url: string }[];
 }
 
+export interface FallbackTrack {
+  id: string;
+  sessionId: string;
+  spotifyTrackId: string;
+  trackName: string;
+  trackArtist: string;
+  trackAlbum: string | null;
+  trackImage: string | null;
+  trackDuration: number;
+  explicit: boolean;
+  artistSpotifyIds: string[];
+  createdAt: string;
+}
+
+export interface FallbackSource {
+  enabled: boolean;
+  /** When set, auto-fill draws from this playlist instead of `tracks` */
+  playlist: { link: string; name: string | null } | null;
+  tracks: FallbackTrack[];
+}
+
 export interface BannedTrack {
   id: string;
   listId: string;
@@ -142,6 +269,38 @@ export interface SkipState {
   previousTrackId?: string | null;
 }
 
+export type LeaderboardPeriod = 'day' | 'week' | 'month';
+
+export interface UserAnthem {
+  id: string;
+  spotifyTrackId: string;
+  trackName: string;
+  trackArtist: string;
+  trackAlbum: string | null;
+  trackImage: string | null;
+  trackDuration: number;
+  explicit: boolean;
+  lastCelebratedAt: string | null;
+}
+
+export interface CelebrationEvent {
+  queueItemId: string;
+  name: string;
+  message: string | null;
+  trackName: string;
+  trackArtist: string;
+  trackImage: string | null;
+  celebratedAt: string;
+}
+
+export interface PresenceEntry {
+  id: string;
+  role: 'host' | 'guest';
+  name: string;
+  connectedSince: string;
+  deviceCount: number;
+}
+
 export interface LeaderboardEntry {
   id: string;
   fullName: string;
@@ -151,8 +310,79 @@ export interface LeaderboardEntry {
   totalPoints: number;
 }
 
+export type CreditTransactionReason =
+  | 'TRACK_ADD'
+  | 'SKIP_VOTE'
+  | 'VOTE_REACTION'
+  | 'BOOST'
+  | 'REFUND'
+  | 'HOST_GRANT'
+  | 'DAILY_REFRESH'
+  | 'PERFORMANCE_BONUS'
+  | 'ADJUSTMENT';
+
+export interface CreditTransaction {
+  id: string;
+  userId: string;
+  amount: number;
+  balanceAfter: number;
+  reason: CreditTransactionReason;
+  note: string | null;
+  sessionId: string | null;
+  queueItemId: string | null;
+  actorId: string | null;
+  createdAt: string;
+}
+
+export interface CreditGrant {
+  id: string;
+  metric: 'dials' | 'appOuts' | 'underwriting';
+  metricDate: string;
+  metricTotal: number;
+  credits: number;
+  reason: string;
+  createdAt: string;
+}
+
 export type ScheduledPlaybackStatus = 'PENDING' | 'PROCESSING' | 'COMPLETED' | 'FAILED' | 'CANCELLED';
 
+export type ScheduledRunOutcome = 'SUCCEEDED' | 'PARTIAL' | 'FAILED';
+
+export interface ScheduledTrackResult {
+  spotifyTrackId: string;
+  trackName: string;
+  status: 'queued' | 'skipped' | 'failed';
+  reason?: string;
+}
+
+export interface ScheduledPlaybackRun {
+  id: string;
+  scheduledPlaybackId: string;
+  attempt: number;
+  manual: boolean;
+  outcome: ScheduledRunOutcome;
+  error?: string | null;
+  retryAt?: string | null;
+  trackResults: ScheduledTrackResult[];
+  startedAt: string;
+  finishedAt: string;
+}
+
+export type ScheduledDeliveryMode = 'APPEND' | 'JUMP_TO_FRONT' | 'INTERRUPT';
+
+export type ScheduleRecurrence = 'DAILY' | 'WEEKLY' | 'EVERY_N_DAYS' | 'CRON';
+
+export interface ScheduleRecurrenceInput {
+  type: ScheduleRecurrence;
+  /** 0 = Sunday */
+  weekdays?: number[];
+  intervalDays?: number;
+  cron?: string;
+  /** YYYY-MM-DD in the schedule's timezone */
+  startDate?: string;
+  endDate?: string;
+}
+
 export interface ScheduledPlaybackTrack {
   id: string;
   scheduledPlaybackId: string;
@@ -173,7 +403,19 @@ export interface ScheduledPlayback {
   scheduledFor: string;
   isRecurringDaily: boolean;
   timeOfDayMinutes?: number | null;
+  timezone?: string | null;
   timezoneOffsetMinutes?: number | null;
+  deliveryMode: ScheduledDeliveryMode;
+  maxRetries: number;
+  retryBackoffSeconds: number;
+  /** Failed attempts so far at the current occurrence */
+  retryAttempt: number;
+  recurrenceType: ScheduleRecurrence;
+  recurrenceWeekdays?: number[] | null;
+  recurrenceIntervalDays?: number | null;
+  recurrenceCron?: string | null;
+  startDate?: string | null;
+  endDate?: string | null;
   status: ScheduledPlaybackStatus;
   completedAt?: string | null;
   failureReason?: string | null;